@@ -172,3 +172,9 @@ export const ai = genkit({
   plugins: plugins,
   model: selectedModel,
 });
+
+/**
+ * Whether an AI provider plugin is configured. When false, threat reports fall back to
+ * the rule-based engine in src/lib/threat-engine.ts.
+ */
+export const isAIConfigured = plugins.length > 0;
@@ -7,12 +7,28 @@
  * - generateThreatReport - A function that generates the threat report.
  * - GenerateThreatReportInput - The input type for the generateThreatReport function.
  * - GenerateThreatReportOutput - The return type for the generateThreatReport function.
+ *
+ * When no AI provider is configured, the report is produced by the rule-based STRIDE engine instead.
  */
 
-import {ai} from '@/ai/ai-instance';
+import {ai, isAIConfigured} from '@/ai/ai-instance';
 import {z} from 'genkit';
+import { collectKnownThreats, createThreatId, dedupeThreats } from '@/lib/threat-utils';
+import { generateRuleBasedThreatReport } from '@/lib/threat-engine';
+import { getBoundaryCrossings } from '@/lib/diagram-utils';
+import type { Threat } from '@/types/threat';
 // Diagram data is passed directly as JSON
 
+const StrideCategorySchema = z.enum([
+  'Spoofing',
+  'Tampering',
+  'Repudiation',
+  'Information Disclosure',
+  'Denial of Service',
+  'Elevation of Privilege',
+]);
+const ThreatRatingSchema = z.enum(['Low', 'Medium', 'High']);
+
 const GenerateThreatReportInputSchema = z.object({
   diagramJson: z.string().describe('The JSON representation of the threat model diagram, including components, connections, and model info.'),
   modelName: z.string().describe('The name of the threat model.'),
@@ -26,8 +42,23 @@ const GenerateThreatReportInputSchema = z.object({
 export type GenerateThreatReportInput = z.infer<typeof GenerateThreatReportInputSchema>;
 
 
+const ThreatSchema = z.object({
+  id: z.string().describe('Stable identifier of the threat.'),
+  title: z.string().describe('Short title of the threat.'),
+  description: z.string().describe('Description of the threat.'),
+  category: StrideCategorySchema.describe('The STRIDE category of the threat.'),
+  targetId: z.string().describe('The ID of the component or connection the threat applies to.'),
+  targetType: z.enum(['component', 'connection']),
+  likelihood: ThreatRatingSchema,
+  impact: ThreatRatingSchema,
+  mitigation: z.string().describe('The suggested mitigation for the threat.'),
+  status: z.enum(['Open', 'Mitigated', 'Accepted', 'Not Applicable']),
+});
+
 const GenerateThreatReportOutputSchema = z.object({
   report: z.string().describe('The generated threat report as an HTML string.'),
+  threats: z.array(ThreatSchema).describe('The structured list of identified threats.'),
+  generatedBy: z.enum(['ai', 'rules']).describe('Whether the report was produced by the AI or the rule-based engine.'),
 });
 export type GenerateThreatReportOutput = z.infer<typeof GenerateThreatReportOutputSchema>;
 
@@ -44,9 +75,20 @@ const PromptInputSchema = z.object({
   participants: z.string().optional(),
   reviewer: z.string().optional(),
   applicationVersion: z.string().optional(),
+  boundaryCrossings: z.string().describe('Data flows that cross a trust boundary, one per line.'),
+});
+const PromptThreatSchema = z.object({
+  title: z.string().describe('Short title of the threat.'),
+  description: z.string().describe('Description of the threat and its potential impact.'),
+  category: StrideCategorySchema.describe('The STRIDE category of the threat.'),
+  targetId: z.string().describe('The exact "id" of the component or connection from the diagram JSON that the threat applies to.'),
+  likelihood: ThreatRatingSchema,
+  impact: ThreatRatingSchema,
+  mitigation: z.string().describe('The suggested mitigation for the threat.'),
 });
 const PromptOutputSchema = z.object({
   report: z.string().describe('A comprehensive threat report detailing potential threats, suggested mitigations, and the location of the threats within the diagram, based on the STRIDE model. The report should be formatted as a single HTML string with embedded styles.'),
+  threats: z.array(PromptThreatSchema).describe('Every threat described in the report, as a structured list.'),
 });
 
 const prompt = ai.definePrompt({
@@ -150,6 +192,17 @@ Threat identification instructions:
 - Analyze each component and connection carefully for vulnerabilities.
 - For each applicable STRIDE category, identify and list **multiple** distinct and relevant threats. Do not limit to just one threat per category.
 - For each identified threat, suggest a relevant mitigation.
+- Pay particular attention to the data flows listed under "Trust Boundary Crossings" below. Crossings are where data moves between trust levels, so analyze their Spoofing, Tampering, Information Disclosure and Denial of Service threats in depth.
+
+Structured threat list instructions:
+- In addition to the HTML report, return every threat you describe in the report in the "threats" array.
+- "targetId" must be the exact "id" value of the component or connection from the diagram JSON. Do not use names.
+- "category" must be one of: Spoofing, Tampering, Repudiation, Information Disclosure, Denial of Service, Elevation of Privilege.
+- "likelihood" and "impact" must be one of: Low, Medium, High.
+- Some elements list threats the team already identified in their "knownThreats" property. Cover these in the report as well.
+
+Trust Boundary Crossings:
+{{{boundaryCrossings}}}
 
 Diagram Data (JSON):
 {{{diagramJson}}}
@@ -169,6 +222,22 @@ const generateThreatReportFlow = ai.defineFlow<
     throw new Error('Diagram data (JSON) is missing in the input for report generation.');
   }
 
+  if (!isAIConfigured) {
+    console.warn('generateThreatReportFlow: No AI provider configured. Falling back to the rule-based threat engine.');
+    let diagram;
+    try {
+      diagram = JSON.parse(input.diagramJson);
+    } catch (e) {
+      throw new Error('Diagram data (JSON) could not be parsed for rule-based report generation.');
+    }
+    const { report, threats } = generateRuleBasedThreatReport({
+      ...input,
+      components: diagram.components || [],
+      connections: diagram.connections || [],
+    });
+    return { report, threats, generatedBy: 'rules' };
+  }
+
   let output;
   try {
     const result = await prompt({
@@ -180,6 +249,7 @@ const generateThreatReportFlow = ai.defineFlow<
       participants: input.participants,
       reviewer: input.reviewer,
       applicationVersion: input.applicationVersion, // Added applicationVersion to prompt call
+      boundaryCrossings: describeBoundaryCrossings(input.diagramJson),
     });
     output = result.output;
   } catch (error) {
@@ -203,8 +273,65 @@ const generateThreatReportFlow = ai.defineFlow<
     ? output.report 
     : `<div class="threat-report-container">${output.report}</div>`;
 
+  const threats = toStructuredThreats(output.threats || [], input.diagramJson);
 
-  return { report: reportWithContainer };
+  return { report: reportWithContainer, threats, generatedBy: 'ai' };
 });
 
+/**
+ * Lists the connections that cross a trust boundary so the prompt can focus on them.
+ */
+function describeBoundaryCrossings(diagramJson: string): string {
+  try {
+    const diagram = JSON.parse(diagramJson);
+    const components = diagram.components || [];
+    const connections = diagram.connections || [];
+    const nameOf = (id: string) => {
+      const element = [...components, ...connections].find((e: { id: string }) => e.id === id);
+      return element?.properties?.name || element?.name || element?.label || id;
+    };
+    const crossings = getBoundaryCrossings(components, connections).map(crossing =>
+      `- Connection "${nameOf(crossing.connectionId)}" (id: ${crossing.connectionId}) crosses: ${crossing.crossedBoundaryIds.map(nameOf).join(', ')}`
+    );
+    return crossings.length > 0 ? crossings.join('\n') : 'None identified.';
+  } catch (e) {
+    console.warn('generateThreatReportFlow: Could not parse diagram JSON to detect trust boundary crossings.', e);
+    return 'Unknown.';
+  }
+}
+
+/**
+ * Converts the threats returned by the AI into register entries and adds the elements' known threats.
+ * Threats targeting IDs that are not part of the diagram are dropped, as they cannot be tracked against an element.
+ */
+function toStructuredThreats(promptThreats: z.infer<typeof PromptThreatSchema>[], diagramJson: string): Threat[] {
+  let diagramComponents: { id: string; properties?: Record<string, any> }[] = [];
+  let diagramConnections: { id: string; properties?: Record<string, any> }[] = [];
+  try {
+    const diagram = JSON.parse(diagramJson);
+    diagramComponents = diagram.components || [];
+    diagramConnections = diagram.connections || [];
+  } catch (e) {
+    console.warn('generateThreatReportFlow: Could not parse diagram JSON to validate threat targets.', e);
+  }
+
+  const componentIds = new Set(diagramComponents.map(c => c.id));
+  const connectionIds = new Set(diagramConnections.map(c => c.id));
+  const threats: Threat[] = [];
+  for (const threat of promptThreats) {
+    const isComponent = componentIds.has(threat.targetId);
+    if (!isComponent && !connectionIds.has(threat.targetId)) {
+      console.warn(`generateThreatReportFlow: Dropping threat "${threat.title}" with unknown target "${threat.targetId}".`);
+      continue;
+    }
+    threats.push({
+      ...threat,
+      id: createThreatId(threat.targetId, threat.category, threat.title),
+      targetType: isComponent ? 'component' : 'connection',
+      status: 'Open',
+    });
+  }
+  return dedupeThreats([...collectKnownThreats(diagramComponents, diagramConnections), ...threats]);
+}
+
 
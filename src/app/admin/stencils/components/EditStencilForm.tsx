@@ -15,6 +15,8 @@ import * as PhosphorIcons from '@phosphor-icons/react';
 import { addStencil, getStencilById, updateStencil, parseStaticPropertiesString, formatStaticPropertiesToString } from "@/services/stencilService";
 import { Spinner, Question as QuestionIcon, Warning, Sparkle } from "@phosphor-icons/react"; 
 import { suggestComponentProperties } from '@/ai/flows/suggest-component-properties';
+import { formatPropertySchema, parsePropertySchema, PROPERTY_TYPES } from '@/lib/property-schema';
+import type { PropertyDefinition } from "@/types/stencil";
 
 
 interface EditStencilFormProps {
@@ -33,6 +35,7 @@ export default function EditStencilForm({ stencilType }: EditStencilFormProps) {
   const [iconName, setIconName] = useState<string>(isNew ? "Package" : ""); 
   const [textColor, setTextColor] = useState("#000000");
   const [staticPropertiesString, setStaticPropertiesString] = useState("");
+  const [propertySchemaString, setPropertySchemaString] = useState("");
   const [isBoundary, setIsBoundary] = useState(false);
   const [boundaryColor, setBoundaryColor] = useState("#ff0000");
 
@@ -54,6 +57,7 @@ export default function EditStencilForm({ stencilType }: EditStencilFormProps) {
           setTextColor(stencil.textColor || "#000000");
           const formattedProps = await formatStaticPropertiesToString(stencil.properties);
           setStaticPropertiesString(formattedProps);
+          setPropertySchemaString(formatPropertySchema(stencil.propertySchema));
           if (stencil.stencilType === 'infrastructure') {
             const infraStencil = stencil as InfrastructureStencilData;
             setIsBoundary(infraStencil.isBoundary || false);
@@ -97,6 +101,15 @@ export default function EditStencilForm({ stencilType }: EditStencilFormProps) {
     }
 
 
+    let propertySchema: PropertyDefinition[];
+    try {
+      propertySchema = parsePropertySchema(propertySchemaString);
+    } catch (schemaError) {
+      toast({ title: "Validation Error", description: schemaError instanceof Error ? schemaError.message : "The property schema is invalid.", variant: "destructive" });
+      setIsSaving(false);
+      return;
+    }
+
     const properties = await parseStaticPropertiesString(staticPropertiesString);
 
     let stencilPayload: Omit<StencilData, 'id' | 'createdDate' | 'modifiedDate'> = {
@@ -104,6 +117,7 @@ export default function EditStencilForm({ stencilType }: EditStencilFormProps) {
       iconName: finalIconName as keyof typeof PhosphorIcons,
       textColor,
       properties,
+      propertySchema,
       stencilType,
     };
 
@@ -320,6 +334,24 @@ export default function EditStencilForm({ stencilType }: EditStencilFormProps) {
         </Button>
       </div>
 
+      <div>
+        <Label htmlFor="propertySchemaString">Property Schema (JSON)</Label>
+        <Textarea
+          id="propertySchemaString"
+          name="propertySchemaString"
+          value={propertySchemaString}
+          onChange={(e) => setPropertySchemaString(e.target.value)}
+          rows={8}
+          className="font-mono text-xs"
+          placeholder={'[\n  { "key": "EncryptionAtRest", "type": "boolean", "required": true, "defaultValue": false, "helpText": "Is stored data encrypted?" },\n  { "key": "Engine", "type": "enum", "options": ["PostgreSQL", "MySQL"] }\n]'}
+          disabled={isSaving || isAISuggesting}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Optional. Declares typed properties that get proper controls and validation in the properties panel.
+          Each entry has a key and a type ({PROPERTY_TYPES.join(', ')}), and may have a label, options (for enum and multiSelect), defaultValue, required and helpText.
+        </p>
+      </div>
+
       <div className="flex justify-end space-x-2">
         <Button type="button" variant="outline" onClick={() => router.back()} disabled={isSaving || isAISuggesting}>
           Cancel
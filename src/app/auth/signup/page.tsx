@@ -2,7 +2,7 @@
 "use client";
 
 import { useState, type FormEvent } from 'react';
-import { createUserWithEmailAndPassword, updateProfile } from 'firebase/auth';
+import { createUserWithEmailAndPassword, sendEmailVerification, updateProfile } from 'firebase/auth';
 import { auth } from '@/lib/firebase/firebase';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
@@ -31,9 +31,11 @@ export default function SignupPage() {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       if (userCredential.user) {
         await updateProfile(userCredential.user, { displayName });
+        // Models and workspaces shared by email only become accessible once the address is verified
+        await sendEmailVerification(userCredential.user);
         // The AuthContext will handle creating the Firestore user profile
       }
-      toast({ title: "Signup Successful", description: "Redirecting to login..." });
+      toast({ title: "Signup Successful", description: "Check your inbox to verify your email address. Redirecting to login..." });
       router.push('/auth/login'); // Redirect to login or home
     } catch (err) {
       setError((err as Error).message);
@@ -1,43 +1,98 @@
-
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { getUserThreatModels, type SavedModelInfo } from '@/services/diagram';
+import { sendEmailVerification } from 'firebase/auth';
+import { getUserThreatModels, getWorkspaceThreatModels, moveThreatModelToWorkspace, type SavedModelInfo } from '@/services/diagram';
+import {
+  createWorkspace,
+  getUserWorkspaces,
+  getWorkspaceRole,
+  removeWorkspaceMember,
+  setWorkspaceMember,
+} from '@/services/workspaceService';
+import { WORKSPACE_ROLE_LABELS, type Workspace, type WorkspaceRole } from '@/types/workspace';
+import { COLLABORATOR_ROLE_LABELS } from '@/types/sharing';
+import { ReviewStateBadge } from '@/components/diagram/ReviewPanel';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Spinner, PlusCircle, FolderOpen } from '@phosphor-icons/react'; // Corrected import
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Spinner, PlusCircle, FolderOpen, UsersThree, ArrowsLeftRight } from '@phosphor-icons/react'; // Corrected import
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import Link from 'next/link'; // Import Link for navigation
+import { NewWorkspaceDialog } from '@/components/dialogs/NewWorkspaceDialog';
+import { WorkspaceMembersDialog } from '@/components/dialogs/WorkspaceMembersDialog';
+
+const PERSONAL_WORKSPACE = 'personal'; // Switcher value for the user's own and directly shared models
 
 export default function DashboardPage() {
   const { currentUser, loading: authLoading, firebaseReady } = useAuth();
   const [models, setModels] = useState<SavedModelInfo[]>([]);
   const [loadingModels, setLoadingModels] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<string>(PERSONAL_WORKSPACE);
+  const [isNewWorkspaceDialogOpen, setIsNewWorkspaceDialogOpen] = useState(false);
+  const [isMembersDialogOpen, setIsMembersDialogOpen] = useState(false);
   const router = useRouter();
   const { toast } = useToast();
 
+  const selectedWorkspace = workspaces.find(w => w.id === selectedWorkspaceId) || null;
+  const selectedWorkspaceRole = getWorkspaceRole(selectedWorkspace, currentUser?.email);
+  // Workspaces a model can be moved into: members and admins may add models
+  const writableWorkspaces = workspaces.filter(w => {
+    const role = getWorkspaceRole(w, currentUser?.email);
+    return role === 'admin' || role === 'member';
+  });
+
   useEffect(() => {
     if (!authLoading && firebaseReady && currentUser) {
-      setLoadingModels(true);
-      setError(null);
-      getUserThreatModels(currentUser.uid)
-        .then(fetchedModels => {
-          setModels(fetchedModels);
-        })
+      getUserWorkspaces(currentUser.email, currentUser.emailVerified)
+        .then(setWorkspaces)
         .catch(err => {
-          console.error("Error fetching models:", err);
-          setError("Failed to load your threat models.");
-          toast({ title: "Error", description: "Could not fetch saved models.", variant: "destructive" });
-        })
-        .finally(() => {
-          setLoadingModels(false);
+          console.error("Error fetching workspaces:", err);
+          toast({ title: "Error", description: "Could not fetch your workspaces.", variant: "destructive" });
         });
+    }
+  }, [currentUser, authLoading, firebaseReady, toast]);
+
+  const fetchModels = useCallback(() => {
+    if (!currentUser) return;
+    setLoadingModels(true);
+    setError(null);
+    const modelsPromise = selectedWorkspace && selectedWorkspaceRole
+      ? getWorkspaceThreatModels(selectedWorkspace.id, currentUser.uid, currentUser.email, selectedWorkspaceRole)
+      : getUserThreatModels(currentUser.uid, currentUser.email, currentUser.emailVerified);
+    modelsPromise
+      .then(fetchedModels => {
+        setModels(fetchedModels);
+      })
+      .catch(err => {
+        console.error("Error fetching models:", err);
+        setError("Failed to load your threat models.");
+        toast({ title: "Error", description: "Could not fetch saved models.", variant: "destructive" });
+      })
+      .finally(() => {
+        setLoadingModels(false);
+      });
+  }, [currentUser, selectedWorkspace, selectedWorkspaceRole, toast]);
+
+  useEffect(() => {
+    if (!authLoading && firebaseReady && currentUser) {
+      fetchModels();
     } else if (!authLoading && !currentUser) {
       // User is not logged in, AuthProvider should handle redirect, but handle state here too
       setLoadingModels(false);
@@ -46,7 +101,7 @@ export default function DashboardPage() {
        setLoadingModels(false);
     }
     // Keep loading if auth is still loading or Firebase not ready
-  }, [currentUser, authLoading, firebaseReady, toast]);
+  }, [currentUser, authLoading, firebaseReady, fetchModels]);
 
   const handleLoadModel = (modelIdToLoad: string) => {
     if (!modelIdToLoad) return;
@@ -57,11 +112,90 @@ export default function DashboardPage() {
 
    const handleNewModel = () => {
      console.log("Dashboard: Navigating to new project page.");
-     router.push(`/projects/new`); // Navigate to the route indicating a new project
+     // New models are created in the selected workspace
+     router.push(selectedWorkspace ? `/projects/new?workspace=${selectedWorkspace.id}` : `/projects/new`);
    };
 
+  const handleCreateWorkspace = async (name: string) => {
+    if (!currentUser?.email) {
+      toast({ title: "Error", description: "An email address is required to create a workspace.", variant: "destructive" });
+      return;
+    }
+    if (!currentUser.emailVerified) {
+      toast({ title: "Error", description: "Verify your email address before creating a workspace.", variant: "destructive" });
+      return;
+    }
+    try {
+      const workspace = await createWorkspace(name, currentUser.uid, currentUser.email);
+      setWorkspaces(prev => [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedWorkspaceId(workspace.id);
+      toast({ title: "Workspace Created", description: `"${workspace.name}" is ready. Add members to share its models.` });
+    } catch (err) {
+      console.error("Error creating workspace:", err);
+      toast({ title: "Error", description: "Could not create the workspace.", variant: "destructive" });
+    }
+  };
+
+  const handleResendVerification = async () => {
+    if (!currentUser) return;
+    try {
+      await sendEmailVerification(currentUser);
+      toast({ title: "Verification Email Sent", description: `Check the inbox of ${currentUser.email}.` });
+    } catch (err) {
+      console.error("Error sending verification email:", err);
+      toast({ title: "Error", description: "Could not send the verification email. Try again later.", variant: "destructive" });
+    }
+  };
+
+  // The ID token only says the email is verified once it is refreshed
+  const handleCheckVerification = async () => {
+    if (!currentUser) return;
+    await currentUser.reload();
+    if (currentUser.emailVerified) {
+      await currentUser.getIdToken(true);
+      window.location.reload();
+    } else {
+      toast({ title: "Not Verified Yet", description: "Open the link in the verification email, then try again." });
+    }
+  };
+
+  // Re-reads the workspace after a membership change so the dialog and the switcher stay current
+  const refreshWorkspaces = async () => {
+    if (!currentUser) return;
+    const fetchedWorkspaces = await getUserWorkspaces(currentUser.email, currentUser.emailVerified);
+    setWorkspaces(fetchedWorkspaces);
+    if (!fetchedWorkspaces.some(w => w.id === selectedWorkspaceId)) {
+      setSelectedWorkspaceId(PERSONAL_WORKSPACE);
+      setIsMembersDialogOpen(false);
+    }
+  };
+
+  const handleSetMember = async (email: string, role: WorkspaceRole) => {
+    if (!selectedWorkspace) return;
+    await setWorkspaceMember(selectedWorkspace.id, email, role, currentUser?.email || undefined);
+    await refreshWorkspaces();
+  };
+
+  const handleRemoveMember = async (email: string) => {
+    if (!selectedWorkspace) return;
+    await removeWorkspaceMember(selectedWorkspace.id, email);
+    await refreshWorkspaces();
+  };
 
-  if (authLoading || loadingModels) {
+  const handleMoveModel = async (model: SavedModelInfo, workspaceId: string | null) => {
+    try {
+      await moveThreatModelToWorkspace(model.id, workspaceId);
+      const target = workspaces.find(w => w.id === workspaceId);
+      toast({ title: "Model Moved", description: `"${model.name}" moved to ${target ? `"${target.name}"` : 'your personal models'}.` });
+      fetchModels();
+    } catch (err) {
+      console.error("Error moving model:", err);
+      toast({ title: "Error", description: "Could not move the model. You need to be a member of the target workspace.", variant: "destructive" });
+    }
+  };
+
+
+  if (authLoading || (loadingModels && models.length === 0)) {
     return (
       <div className="flex items-center justify-center h-screen">
         <Spinner className="h-8 w-8 animate-spin text-primary mr-2" />
@@ -88,14 +222,60 @@ export default function DashboardPage() {
                 <CardTitle>Threat Models Dashboard</CardTitle>
                 <CardDescription>View, load, or create new threat models.</CardDescription>
              </div>
-             <Button onClick={handleNewModel}>
+             <Button
+               onClick={handleNewModel}
+               disabled={!!selectedWorkspace && selectedWorkspaceRole === 'viewer'}
+             >
                 <PlusCircle className="mr-2 h-4 w-4" />
                 New Model
             </Button>
           </div>
+          <div className="flex items-center gap-2 pt-4">
+            <Select
+              value={selectedWorkspaceId}
+              onValueChange={(value) => {
+                if (value === '__new__') {
+                  setIsNewWorkspaceDialogOpen(true);
+                  return;
+                }
+                setSelectedWorkspaceId(value);
+              }}
+            >
+              <SelectTrigger className="w-[260px]" aria-label="Workspace">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PERSONAL_WORKSPACE}>Personal &amp; Shared</SelectItem>
+                {workspaces.length > 0 && <SelectSeparator />}
+                {workspaces.map(w => (
+                  <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                ))}
+                <SelectSeparator />
+                <SelectItem value="__new__">New Workspace...</SelectItem>
+              </SelectContent>
+            </Select>
+            {selectedWorkspace && selectedWorkspaceRole && (
+              <>
+                <Badge variant="secondary">{WORKSPACE_ROLE_LABELS[selectedWorkspaceRole]}</Badge>
+                <Button variant="outline" size="sm" onClick={() => setIsMembersDialogOpen(true)}>
+                  <UsersThree className="mr-2 h-4 w-4" />
+                  Members ({selectedWorkspace.members.length})
+                </Button>
+              </>
+            )}
+          </div>
 
         </CardHeader>
         <CardContent>
+          {!currentUser.emailVerified && currentUser.email && (
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+              <span>Verify {currentUser.email} to see models and workspaces shared with you.</span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleResendVerification}>Resend Email</Button>
+                <Button variant="outline" size="sm" onClick={handleCheckVerification}>I&apos;ve Verified</Button>
+              </div>
+            </div>
+          )}
           {error && <p className="text-destructive mb-4">{error}</p>}
           {loadingModels && models.length === 0 && ( // Show loader specifically when loading empty list
               <div className="flex items-center justify-center text-muted-foreground py-8">
@@ -103,14 +283,22 @@ export default function DashboardPage() {
               </div>
           )}
           {!loadingModels && models.length === 0 && !error && (
-            <p className="text-center text-muted-foreground py-8">You haven't saved any threat models yet. Click "New Model" to start.</p>
+            <p className="text-center text-muted-foreground py-8">
+              {selectedWorkspace
+                ? `"${selectedWorkspace.name}" has no threat models yet.`
+                : `You haven't saved any threat models yet. Click "New Model" to start.`}
+            </p>
           )}
-          {!loadingModels && models.length > 0 && (
+          {models.length > 0 && (
             <ScrollArea className="h-[60vh] border rounded-md">
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Model Name</TableHead>
+                    <TableHead>Owner</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Reviewer</TableHead>
+                    <TableHead>Review</TableHead>
                     <TableHead>Last Modified</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -118,17 +306,67 @@ export default function DashboardPage() {
                 <TableBody>
                   {models.map((model) => (
                     <TableRow key={model.id}>
-                      <TableCell className="font-medium">{model.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {model.name}
+                        {model.role !== 'owner' && (
+                          <Badge variant="outline" className="ml-2 font-normal">{COLLABORATOR_ROLE_LABELS[model.role]}</Badge>
+                        )}
+                        {model.metadata.applicationDescription && (
+                          <p className="text-xs font-normal text-muted-foreground line-clamp-1 max-w-md" title={model.metadata.applicationDescription}>
+                            {model.metadata.applicationDescription}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{model.metadata.documentOwner || '—'}</TableCell>
+                      <TableCell>{model.metadata.applicationVersion || '—'}</TableCell>
+                      <TableCell title={model.metadata.participants ? `Participants: ${model.metadata.participants}` : undefined}>
+                        {model.metadata.reviewer || '—'}
+                      </TableCell>
+                      <TableCell>
+                        <ReviewStateBadge state={model.reviewState} />
+                        {model.isReviewer && model.reviewState === 'in_review' && (
+                          <p className="text-xs text-muted-foreground mt-1">Awaiting your review</p>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {model.modifiedDate
                           ? formatDistanceToNow(model.modifiedDate, { addSuffix: true })
                           : 'N/A'}
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-right space-x-2">
                          <Button variant="outline" size="sm" onClick={() => handleLoadModel(model.id)}>
                             <FolderOpen className="mr-2 h-4 w-4" />
                             Open
                          </Button>
+                         {model.role === 'owner' && (
+                           <DropdownMenu>
+                             <DropdownMenuTrigger asChild>
+                               <Button variant="ghost" size="sm">
+                                 <ArrowsLeftRight className="mr-2 h-4 w-4" />
+                                 Move
+                               </Button>
+                             </DropdownMenuTrigger>
+                             <DropdownMenuContent align="end">
+                               <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                               <DropdownMenuSeparator />
+                               <DropdownMenuItem
+                                 disabled={!model.workspaceId}
+                                 onSelect={() => handleMoveModel(model, null)}
+                               >
+                                 Personal
+                               </DropdownMenuItem>
+                               {writableWorkspaces.map(w => (
+                                 <DropdownMenuItem
+                                   key={w.id}
+                                   disabled={model.workspaceId === w.id}
+                                   onSelect={() => handleMoveModel(model, w.id)}
+                                 >
+                                   {w.name}
+                                 </DropdownMenuItem>
+                               ))}
+                             </DropdownMenuContent>
+                           </DropdownMenu>
+                         )}
                          {/* Add Delete button later */}
                       </TableCell>
                     </TableRow>
@@ -139,6 +377,21 @@ export default function DashboardPage() {
           )}
         </CardContent>
       </Card>
+      <NewWorkspaceDialog
+        isOpen={isNewWorkspaceDialogOpen}
+        onClose={() => setIsNewWorkspaceDialogOpen(false)}
+        onCreateWorkspace={handleCreateWorkspace}
+      />
+      {selectedWorkspace && (
+        <WorkspaceMembersDialog
+          isOpen={isMembersDialogOpen}
+          onClose={() => setIsMembersDialogOpen(false)}
+          workspace={selectedWorkspace}
+          canManage={selectedWorkspaceRole === 'admin'}
+          onSetMember={handleSetMember}
+          onRemoveMember={handleRemoveMember}
+        />
+      )}
     </div>
   );
 }
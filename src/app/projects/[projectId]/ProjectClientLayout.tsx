@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect, useCallback, useMemo, type ReactNode, useRef, type MouseEvent as ReactMouseEvent } from 'react';
+import { useState, useEffect, useCallback, useMemo, type ReactNode, useRef, type MouseEvent as ReactMouseEvent, type SetStateAction } from 'react';
 import {
     useNodesState,
     useEdgesState,
@@ -25,6 +25,11 @@ import {
     saveThreatModel,
     getUserThreatModels,
     getThreatModelById,
+    getModelVersion,
+    getModelRole,
+    shareThreatModel,
+    unshareThreatModel,
+    updateThreatModelMetadata,
     type Diagram,
     type Component as DiagramComponent,
     type Connection as DiagramConnection,
@@ -33,7 +38,12 @@ import {
     type LoadedThreatModel,
     type SavedModelInfo,
     type ReportEntry,
+    type ThreatDecisionMap,
+    type ModelVersionInfo,
+    type ModelMetadata,
+    SaveConflictError,
 } from '@/services/diagram';
+import type { ThreatDecision } from '@/types/threat';
 import {
     componentToNode,
     connectionToEdge,
@@ -43,16 +53,77 @@ import {
     getTopmostElementAtClick,
 } from '@/lib/diagram-utils';
 import { useToast } from '@/hooks/use-toast';
+import { useLiveCollaboration } from '@/hooks/use-live-collaboration';
+import { useAutosave, type SaveOutcome } from '@/hooks/use-autosave';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { useDiagramClipboard } from '@/hooks/use-diagram-clipboard';
+import { createTemplateContent, type TemplateContent } from '@/lib/templates';
+import { createTemplate } from '@/services/templateService';
+import { normalizeModelMetadata } from '@/lib/model-metadata';
+import { DEFAULT_REVIEW, type ReviewStep } from '@/lib/review';
+import { addReviewComment, approveThreatModel, setReviewers, subscribeToReview, updateReviewState } from '@/services/reviewService';
+import type { ModelReview, Reviewer } from '@/types/review';
+import { countUnresolvedThreads, countUnresolvedThreadsByElement } from '@/lib/comments';
+import { validateDiagram, type ValidationFinding } from '@/lib/diagram-validation';
+import { createPropertySchemaMap, normalizeComponentProperties } from '@/lib/property-schema';
+import { carryOverThreatDecisions } from '@/lib/threat-utils';
+import {
+    createCommentThread,
+    deleteCommentThread,
+    replyToCommentThread,
+    setCommentThreadResolved,
+    subscribeToCommentThreads,
+} from '@/services/commentService';
+import { getPublicProfiles } from '@/services/userService';
+import { DiagramCommentsProvider, type CommentFocus } from '@/contexts/DiagramCommentsContext';
+import type { CommentAnchor, CommentThread, MentionCandidate } from '@/types/comment';
+import type { PublicProfile } from '@/types/user';
 import { DiagramHeader } from "@/components/layout/DiagramHeader";
 import { ThreatReportPanel } from "@/components/diagram/ThreatReportPanel";
+import { VersionHistoryPanel } from "@/components/diagram/VersionHistoryPanel";
+import { ReviewPanel } from "@/components/diagram/ReviewPanel";
+import { CommentsPanel } from "@/components/diagram/CommentsPanel";
+import { ValidationPanel } from "@/components/diagram/ValidationPanel";
+import { ModelDiffPanel } from "@/components/diagram/ModelDiffPanel";
 import { NewModelDialog } from '@/components/dialogs/NewModelDialog';
 import { LoadModelDialog } from '@/components/dialogs/LoadModelDialog';
+import { ShareModelDialog } from '@/components/dialogs/ShareModelDialog';
+import { SaveConflictDialog } from '@/components/dialogs/SaveConflictDialog';
+import { SaveTemplateDialog, type TemplateDetails } from '@/components/dialogs/SaveTemplateDialog';
+import { ModelSettingsDialog } from '@/components/dialogs/ModelSettingsDialog';
+import {
+    buildDiffOverlay,
+    diffModels,
+    isSameModelContent,
+    type ModelContent,
+    type ModelDiff,
+    type ModelElements,
+} from '@/lib/model-diff';
 import { useProjectContext } from '@/contexts/ProjectContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { Spinner } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
-import { useRouter, usePathname } from 'next/navigation';
-
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { createImportedReport, exportThreatModelFile, importThreatModelFile, type ExportFormat } from '@/lib/importers';
+import { downloadFile } from '@/lib/utils';
+import { getStencils } from '@/services/stencilService';
+import type { StencilData } from '@/types/stencil';
+import type { Collaborator, CollaboratorRole } from '@/types/sharing';
+import type { Workspace } from '@/types/workspace';
+import { getWorkspaceById, getWorkspaceRole } from '@/services/workspaceService';
+
+
+/**
+ * Whether a conflicting saved version holds the same content as the one being saved, so that its
+ * revision can be adopted without writing anything. Any other difference is a real conflict.
+ */
+const isSameSavedContent = (latest: LoadedThreatModel, local: ModelContent): boolean =>
+    isSameModelContent({ ...latest, reports: latest.reports || [], threatDecisions: latest.threatDecisions || {} }, local);
+
+const createEmptyContent = (name: string, modelType: ModelType): ModelContent => ({
+    name, modelType, components: [], connections: [], reports: [], threatDecisions: {},
+});
 
 interface ProjectClientLayoutProps {
     projectId: string;
@@ -61,8 +132,9 @@ interface ProjectClientLayoutProps {
 export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: ProjectClientLayoutProps) {
     const router = useRouter();
     const pathname = usePathname();
+    const searchParams = useSearchParams();
     
-    const { modelType, setModelType: setProjectContextModelType, modelName, setModelName } = useProjectContext();
+    const { modelType, setModelType: setProjectContextModelType, modelName, setModelName, refreshTemplates } = useProjectContext();
     const { currentUser, loading: authLoading, firebaseReady } = useAuth();
     const { 
         project, 
@@ -76,8 +148,8 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
         getSelectedEdges 
     } = useReactFlow<Node, Edge>();
 
-    const [nodes, setNodesInternal] = useNodesState<Node[]>([]);
-    const [edges, setEdgesInternal] = useEdgesState<Edge[]>([]);
+    const [nodes, setNodesInternal] = useNodesState<Node>([]);
+    const [edges, setEdgesInternal] = useEdgesState<Edge>([]);
 
     const [currentViewport, setCurrentViewport] = useState<Viewport | undefined>(undefined);
 
@@ -94,11 +166,69 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
     const [userModels, setUserModels] = useState<SavedModelInfo[]>([]);
 
     const [modelId, setModelId] = useState<string | null>(null);
+    const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+    const [templateContent, setTemplateContent] = useState<TemplateContent | null>(null); // Selection being saved as a template
+    const [modelMetadata, setModelMetadata] = useState<ModelMetadata>({});
+    const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
+    const [modelOwnerId, setModelOwnerId] = useState<string | undefined>(undefined); // Undefined until saved: the current user owns new models
+    const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+    const [workspaceId, setWorkspaceId] = useState<string | undefined>(undefined);
+    const [workspace, setWorkspace] = useState<Workspace | null>(null);
+    const [modelRevision, setModelRevision] = useState<number | undefined>(undefined); // Revision the unsaved changes are based on
+    const [review, setReview] = useState<ModelReview>(DEFAULT_REVIEW);
+    const [commentThreads, setCommentThreads] = useState<CommentThread[]>([]);
+    const [commentFocus, setCommentFocus] = useState<CommentFocus | null>(null);
+    const [isPlacingCommentPin, setIsPlacingCommentPin] = useState(false);
+    const [commentPinPosition, setCommentPinPosition] = useState<{ x: number; y: number } | null>(null);
+    const [people, setPeople] = useState<PublicProfile[]>([]); // Profiles of everyone the model is shared with, for reviewers and mentions
+    const [propertySchemas, setPropertySchemas] = useState(() => createPropertySchemaMap()); // By stencil ID
+    const [sidebarTab, setSidebarTab] = useState('properties');
+    const [saveConflict, setSaveConflict] = useState<{ latest: LoadedThreatModel; diff: ModelDiff } | null>(null);
+    const [previewVersion, setPreviewVersion] = useState<{ info: ModelVersionInfo; model: LoadedThreatModel } | null>(null);
+    const [savedContent, setSavedContent] = useState<ModelContent | null>( // Tells whether there are unsaved changes; null while loading
+        () => initialProjectIdFromUrl === 'new' ? createEmptyContent(modelName, modelType) : null
+    );
+    const [comparison, setComparison] = useState<{
+        fromLabel: string;
+        toLabel: string;
+        base: ModelElements;
+        other: ModelElements;
+        diff: ModelDiff;
+    } | null>(null);
+
+    // Reviewers without other access may view the model
+    const modelRole = useMemo(
+        () => currentUser
+            ? getModelRole({ ownerId: modelOwnerId, collaborators }, currentUser.uid, currentUser.email, getWorkspaceRole(workspace, currentUser.email)) ??
+                (review.reviewers.some(reviewer => reviewer.uid === currentUser.uid) ? 'viewer' : null)
+            : null,
+        [currentUser, modelOwnerId, collaborators, workspace, review]
+    );
+
+    // Viewers may select elements and comment, but not change the diagram
+    const canEditModel = modelRole === 'owner' || modelRole === 'editor';
+
+    const {
+        recordChange,
+        recordFlowChanges,
+        undo,
+        redo,
+        clearHistory,
+        canUndo,
+        canRedo,
+    } = useUndoHistory({
+        nodes,
+        edges,
+        setNodes: setNodesInternal,
+        setEdges: setEdgesInternal,
+        enabled: !previewVersion && !comparison && canEditModel,
+    });
 
     const [diagramDataForAI, setDiagramDataForAI] = useState<Diagram | null>(
         getDefaultDiagram(null, modelName, modelType)
     );
     const [sessionReports, setSessionReports] = useState<ReportEntry[]>([]);
+    const [threatDecisions, setThreatDecisions] = useState<ThreatDecisionMap>({});
 
     const justCreatedNewModelFromDialog = useRef(false);
     const lastToastTime = useRef(Date.now());
@@ -136,6 +266,98 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
     }, []);
 
 
+    // The workspace grants its members access on top of the model's own sharing
+    useEffect(() => {
+        if (!workspaceId || !currentUser) {
+            setWorkspace(null);
+            return;
+        }
+        let cancelled = false;
+        getWorkspaceById(workspaceId)
+            .then(fetchedWorkspace => { if (!cancelled) setWorkspace(fetchedWorkspace); })
+            .catch(err => {
+                console.error("Error fetching workspace:", err);
+                if (!cancelled) setWorkspace(null);
+            });
+        return () => { cancelled = true; };
+    }, [workspaceId, currentUser]);
+
+    // The review is shared live, so decisions show up for everyone who has the model open
+    useEffect(() => {
+        if (!modelId || !currentUser) {
+            setReview(DEFAULT_REVIEW);
+            return;
+        }
+        return subscribeToReview(modelId, setReview);
+    }, [modelId, currentUser]);
+
+    useEffect(() => {
+        setCommentFocus(null);
+        setCommentPinPosition(null);
+        if (!modelId || !currentUser) {
+            setCommentThreads([]);
+            return;
+        }
+        return subscribeToCommentThreads(modelId, setCommentThreads);
+    }, [modelId, currentUser]);
+
+    // The model's collaborators, reviewers and workspace members, who can be assigned as reviewers and mentioned
+    const peopleEmails = useMemo(() => Array.from(new Set([
+        ...collaborators.map(collaborator => collaborator.email),
+        ...review.reviewers.map(reviewer => reviewer.email.toLowerCase()),
+        ...(workspace?.members.map(member => member.email) ?? []),
+    ])).sort(), [collaborators, review, workspace]);
+    const peopleEmailsKey = peopleEmails.join(','); // Refetch only when the set of emails changes
+
+    useEffect(() => {
+        if (!modelId || !currentUser || !peopleEmailsKey) {
+            setPeople([]);
+            return;
+        }
+        let cancelled = false;
+        getPublicProfiles(peopleEmailsKey.split(','))
+            .then(profiles => { if (!cancelled) setPeople(profiles); })
+            .catch(err => console.error("Error fetching profiles for reviewers and mentions:", err));
+        return () => { cancelled = true; };
+    }, [modelId, currentUser, peopleEmailsKey]);
+
+    // Components are checked against the current schema of their stencil, not the one it had when they were placed
+    useEffect(() => {
+        let cancelled = false;
+        getStencils(modelType)
+            .then(stencils => { if (!cancelled) setPropertySchemas(createPropertySchemaMap(stencils)); })
+            .catch(err => {
+                console.error(`Error fetching ${modelType} stencils for property schemas:`, err);
+                if (!cancelled) setPropertySchemas(createPropertySchemaMap());
+            });
+        return () => { cancelled = true; };
+    }, [modelType]);
+
+    const mentionCandidates = useMemo((): MentionCandidate[] => peopleEmails
+        .filter(email => email !== currentUser?.email?.toLowerCase())
+        .map(email => {
+            const displayName = people.find(profile => profile.email === email)?.displayName ||
+                review.reviewers.find(reviewer => reviewer.email.toLowerCase() === email)?.displayName;
+            return { email, displayName: displayName || email };
+        })
+        .sort((a, b) => a.displayName.localeCompare(b.displayName)),
+    [peopleEmails, people, review, currentUser]);
+
+    const selectedNodeIds = useMemo(() => nodes.filter(node => node.selected).map(node => node.id), [nodes]);
+
+    // Live multi-user editing of saved models; unsaved models stay local until their first save
+    const { collaborators: liveCollaborators, updateCursor, getLiveElementIdsToClear, reseedLiveElements } = useLiveCollaboration({
+        modelId,
+        revision: modelRevision,
+        user: currentUser,
+        canEdit: canEditModel,
+        nodes,
+        edges,
+        setNodes: setNodesInternal,
+        setEdges: setEdgesInternal,
+        selectedIds: selectedNodeIds,
+    });
+
     const resetDiagramState = useCallback((name: string, type: ModelType) => {
         setModelName(name);
         setProjectContextModelType(type);
@@ -148,15 +370,27 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
         setCurrentViewport(defaultVp);
         setSelectedElementId(null);
         setMultipleElementsSelected(false);
+        clearHistory();
         setModelId(null);
+        setModelOwnerId(undefined);
+        setCollaborators([]);
+        // New models opened from a workspace on the dashboard are created in that workspace
+        setWorkspaceId(searchParams?.get('workspace') || undefined);
+        setModelRevision(undefined);
+        setModelMetadata({});
+        setSavedContent(createEmptyContent(name, type));
+        setPreviewVersion(null);
+        setComparison(null);
         setDiagramDataForAI(getDefaultDiagram(null, name, type));
         setSessionReports([]);
+        setThreatDecisions({});
         setError(null);
     }, [
         setModelName, setProjectContextModelType,
         setNodesInternal, setEdgesInternal,
         rfSetViewport, setCurrentViewport,
-        setSelectedElementId, setModelId, setDiagramDataForAI, setSessionReports, setError
+        setSelectedElementId, setModelId, setModelOwnerId, setCollaborators, setDiagramDataForAI, setSessionReports, setThreatDecisions, setError,
+        searchParams, clearHistory
     ]);
 
 
@@ -181,6 +415,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
 
             const flowNodes = (loadedModelData.components || []).map(c => componentToNode(c));
             const flowEdges = (loadedModelData.connections || []).map(c => connectionToEdge(c));
+            clearHistory();
             setNodesInternal(flowNodes);
             setEdgesInternal(flowEdges);
 
@@ -195,9 +430,25 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
             }
 
             setModelId(loadedModelData.id);
+            setModelOwnerId(loadedModelData.ownerId);
+            setCollaborators(loadedModelData.collaborators || []);
+            setWorkspaceId(loadedModelData.workspaceId);
+            setModelRevision(loadedModelData.revision);
+            setModelMetadata(loadedModelData.metadata);
+            setSavedContent({
+                name: loadedModelData.name,
+                modelType: loadedModelType,
+                components: loadedModelData.components || [],
+                connections: loadedModelData.connections || [],
+                reports: loadedModelData.reports || [],
+                threatDecisions: loadedModelData.threatDecisions || {},
+            });
+            setPreviewVersion(null);
+            setComparison(null);
             setSelectedElementId(null);
             setMultipleElementsSelected(false);
             setSessionReports(loadedModelData.reports || []);
+            setThreatDecisions(loadedModelData.threatDecisions || {});
 
             setDiagramDataForAI({
                  id: loadedModelData.id,
@@ -207,6 +458,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                  connections: loadedModelData.connections || [],
                  viewport: loadedModelData.viewport || currentViewport,
                  reports: loadedModelData.reports || [],
+                 threatDecisions: loadedModelData.threatDecisions || {},
             });
 
             const now = Date.now();
@@ -235,8 +487,8 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
         setNodesInternal, setEdgesInternal,
         setCurrentViewport, 
         setModelName, setProjectContextModelType, 
-        setModelId, setSelectedElementId, setDiagramDataForAI, setSessionReports, 
-        toast, router, pathname, 
+        setModelId, setModelOwnerId, setCollaborators, setSelectedElementId, setDiagramDataForAI, setSessionReports, setThreatDecisions,
+        clearHistory, toast, router, pathname, 
         currentViewport 
     ]);
 
@@ -339,25 +591,90 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
 
     const onNodesChange = useCallback(
         (changes: NodeChange[]) => {
+            recordFlowChanges(changes);
             setNodesInternal((currentNodes) => applyNodeChanges(changes, currentNodes));
         },
-        [setNodesInternal]
+        [setNodesInternal, recordFlowChanges]
     );
 
     const onEdgesChange = useCallback(
         (changes: EdgeChange[]) => {
+            recordFlowChanges(changes);
             setEdgesInternal((currentEdges) => applyEdgeChanges(changes, currentEdges));
         },
-        [setEdgesInternal]
+        [setEdgesInternal, recordFlowChanges]
     );
 
     const onConnect = useCallback(
         (connection: Connection) => {
+          recordChange();
           setEdgesInternal((eds) => addEdge(connection, eds));
         },
-        [setEdgesInternal]
+        [setEdgesInternal, recordChange]
     );
 
+    // Changes made by the canvas itself, such as dropping stencils or the auto-layout, can be undone too
+    const setNodesWithHistory = useCallback((update: SetStateAction<Node[]>) => {
+        recordChange();
+        setNodesInternal(update);
+    }, [setNodesInternal, recordChange]);
+
+    const setEdgesWithHistory = useCallback((update: SetStateAction<Edge[]>) => {
+        recordChange();
+        setEdgesInternal(update);
+    }, [setEdgesInternal, recordChange]);
+
+    const { duplicateSelection } = useDiagramClipboard({
+        nodes,
+        edges,
+        setNodes: setNodesWithHistory,
+        setEdges: setEdgesWithHistory,
+        // Viewers and reviewers may not change the diagram, so they cannot paste or duplicate into it
+        enabled: !previewVersion && !comparison && canEditModel,
+    });
+
+    const handleSaveAsTemplate = useCallback(() => {
+        const selectedIds = new Set([...nodes, ...edges].filter(element => element.selected).map(element => element.id));
+        const content = createTemplateContent(nodes.map(node => nodeToComponent(node)), edges.map(edge => edgeToConnection(edge)), selectedIds);
+        if (!content) {
+            toast({ title: "Nothing to Save", description: "Select the components to save as a template first." });
+            return;
+        }
+        setTemplateContent(content);
+    }, [nodes, edges, toast]);
+
+    // Templates can only be shared with workspaces the user may add content to
+    const templateWorkspace = useMemo(() => {
+        const role = getWorkspaceRole(workspace, currentUser?.email);
+        return workspace && (role === 'admin' || role === 'member') ? workspace : null;
+    }, [workspace, currentUser]);
+
+    const handleSaveTemplate = useCallback(async (details: TemplateDetails) => {
+        if (!currentUser) {
+            toast({ title: "Login Required", description: "Please log in to save templates.", variant: "destructive" });
+            return;
+        }
+        try {
+            const template = await createTemplate(
+                {
+                    name: details.name,
+                    description: details.description,
+                    modelType,
+                    ...details.content,
+                    workspaceId: details.shareWithWorkspace ? templateWorkspace?.id : undefined,
+                },
+                currentUser.uid,
+                currentUser.displayName || currentUser.email || undefined
+            );
+            refreshTemplates();
+            toast({ title: "Template Saved", description: `'${template.name}' is now available in the component library.` });
+        } catch (err) {
+            console.error("Error saving template:", err);
+            toast({ title: "Error", description: `Could not save the template: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [currentUser, modelType, templateWorkspace, refreshTemplates, toast]);
+
     const onPaneClick = useCallback((event: ReactMouseEvent) => {
         if (typeof getNodes !== 'function' || typeof getEdges !== 'function' || typeof getReactFlowViewport !== 'function' || typeof screenToFlowPosition !== 'function') return;
 
@@ -366,6 +683,11 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
         const currentFlowVp = getReactFlowViewport();
         const flowPosition = screenToFlowPosition({ x: event.clientX, y: event.clientY }, false);
 
+        if (isPlacingCommentPin) {
+            setCommentPinPosition(flowPosition);
+            setIsPlacingCommentPin(false);
+        }
+
         const clickedElement = getTopmostElementAtClick(currentFlowNodes, currentFlowEdges, flowPosition, currentFlowVp.zoom, selectedElementId);
 
         if (typeof rfSetViewport === 'function') { 
@@ -383,7 +705,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
              } 
         }
 
-    }, [getNodes, getEdges, getReactFlowViewport, screenToFlowPosition, selectedElementId, rfSetViewport, getSelectedNodes, getSelectedEdges, onNodesChange, onEdgesChange]);
+    }, [getNodes, getEdges, getReactFlowViewport, screenToFlowPosition, selectedElementId, rfSetViewport, getSelectedNodes, getSelectedEdges, onNodesChange, onEdgesChange, isPlacingCommentPin]);
 
 
     const onSelectionChange = useCallback(({ nodes: selNodes, edges: selEdges }: SelectionChangedParams) => {
@@ -394,6 +716,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
         } else if (totalSelected === 1) {
             setSelectedElementId(selNodes[0]?.id || selEdges[0]?.id || null);
             setMultipleElementsSelected(false);
+            setCommentPinPosition(null); // New comments go to the selected element
         } else {
             setSelectedElementId(null);
             setMultipleElementsSelected(false);
@@ -405,14 +728,68 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
     const selectedEdge = useMemo(() => edges.find(edge => edge.id === selectedElementId) ?? null, [edges, selectedElementId]);
     const selectedElement = selectedNode || selectedEdge;
 
+    const getElementLabel = useCallback((elementId: string): string | null => {
+        const element = nodes.find(node => node.id === elementId) ?? edges.find(edge => edge.id === elementId);
+        if (!element) return null;
+        return String(element.data?.label || element.id);
+    }, [nodes, edges]);
+
+    const commentTarget = useMemo((): { anchor: CommentAnchor; label: string } | null => {
+        if (commentPinPosition) return { anchor: { type: 'canvas', position: commentPinPosition }, label: 'the pinned point' };
+        if (selectedNode) return { anchor: { type: 'node', elementId: selectedNode.id }, label: getElementLabel(selectedNode.id) || 'component' };
+        if (selectedEdge) return { anchor: { type: 'edge', elementId: selectedEdge.id }, label: getElementLabel(selectedEdge.id) || 'data flow' };
+        return null;
+    }, [commentPinPosition, selectedNode, selectedEdge, getElementLabel]);
+
+    // Moving nodes does not affect the checks, so they are not run again until the drag stops
+    const isDraggingNodes = nodes.some(node => node.dragging);
+    const lastValidationFindings = useRef<ValidationFinding[]>([]);
+    const validationFindings = useMemo(() => {
+        if (!isDraggingNodes) {
+            lastValidationFindings.current = validateDiagram(nodes.map(node => nodeToComponent(node)), edges.map(edge => edgeToConnection(edge)), propertySchemas);
+        }
+        return lastValidationFindings.current;
+    }, [nodes, edges, isDraggingNodes, propertySchemas]);
+
+    const selectFinding = useCallback((finding: ValidationFinding) => {
+        const isNode = finding.elementType === 'component';
+        onNodesChange(nodes.filter(node => node.selected || node.id === finding.elementId)
+            .map(node => ({ id: node.id, type: 'select', selected: node.id === finding.elementId })));
+        onEdgesChange(edges.filter(edge => edge.selected || edge.id === finding.elementId)
+            .map(edge => ({ id: edge.id, type: 'select', selected: edge.id === finding.elementId })));
+        // Dangling flows are not drawn, so the canvas does not report their selection
+        setSelectedElementId(finding.elementId);
+        setMultipleElementsSelected(false);
+
+        const edge = isNode ? undefined : edges.find(candidate => candidate.id === finding.elementId);
+        const focusIds = isNode ? [finding.elementId] : [edge?.source, edge?.target];
+        const focusNodes = nodes.filter(node => focusIds.includes(node.id)).map(node => ({ id: node.id }));
+        if (focusNodes.length > 0 && typeof fitView === 'function') {
+            fitView({ nodes: focusNodes, padding: 0.5, maxZoom: 1.5, duration: 300 });
+        }
+    }, [nodes, edges, onNodesChange, onEdgesChange, fitView]);
+
+    const openComments = useCallback((focus: CommentFocus) => {
+        setCommentFocus(focus);
+        setSidebarTab('comments');
+    }, []);
+
+    const diagramComments = useMemo(() => ({
+        threads: commentThreads,
+        unresolvedCounts: countUnresolvedThreadsByElement(commentThreads),
+        openComments,
+    }), [commentThreads, openComments]);
+
 
     const updateElementProperties = useCallback((elementId: string, newProperties: Record<string, any>, isNode: boolean) => {
+        // Typing in a property field becomes one undo step
+        recordChange(`properties:${elementId}`);
         if (isNode) {
              setNodesInternal((nds) =>
                 nds.map((node) => {
                     if (node.id === elementId) {
                         const currentData = node.data || {};
-                        const currentProperties = currentData.properties || {};
+                        const currentProperties: Record<string, any> = currentData.properties || {};
                         const updatedDataProperties = { ...currentProperties, ...newProperties };
                         const label = newProperties.name !== undefined ? newProperties.name : (updatedDataProperties.name || currentData.label);
                         return { ...node, data: { ...currentData, properties: updatedDataProperties, label: label } };
@@ -426,7 +803,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                     if (edge.id === elementId) {
                         const currentData = edge.data || {};
                         // newProperties is the complete set from SidebarPropertiesPanel
-                        const updatedEdgeProperties = { ...(currentData.properties || {}), ...newProperties }; 
+                        const updatedEdgeProperties: Record<string, any> = { ...(currentData.properties || {}), ...newProperties }; 
                         
                         const label = updatedEdgeProperties.name || currentData.label || edge.label || 'Data Flow';
                         const isBiDirectional = updatedEdgeProperties.isBiDirectional === true;
@@ -455,10 +832,11 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                 };
             });
         }
-    }, [setNodesInternal, setEdgesInternal, getNodes, getEdges]);
+    }, [setNodesInternal, setEdgesInternal, getNodes, getEdges, recordChange]);
 
 
     const deleteElement = useCallback((elementId: string, isNode: boolean) => {
+        recordChange();
         if (isNode) {
             setNodesInternal((nds) => nds.filter((node) => node.id !== elementId));
             setEdgesInternal((eds) => eds.filter((edge) => edge.source !== elementId && edge.target !== elementId));
@@ -482,7 +860,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                 };
             });
         }
-    }, [setNodesInternal, setEdgesInternal, toast, selectedElementId, setSelectedElementId, getNodes, getEdges]);
+    }, [setNodesInternal, setEdgesInternal, toast, selectedElementId, setSelectedElementId, getNodes, getEdges, recordChange]);
 
     const deleteAllSelectedElements = useCallback(() => {
         if (typeof getSelectedNodes !== 'function' || typeof getSelectedEdges !== 'function') return;
@@ -494,6 +872,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
             return;
         }
 
+        recordChange();
         setNodesInternal(nds => nds.filter(n => !selNodes.find(sn => sn.id === n.id)));
         setEdgesInternal(eds => eds.filter(e => !selEdges.find(se => se.id === e.id) && !selNodes.find(sn => sn.id === e.source || sn.id === e.target)));
 
@@ -510,38 +889,51 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                 };
             });
         }
-    }, [getSelectedNodes, getSelectedEdges, setNodesInternal, setEdgesInternal, toast, getNodes, getEdges]);
+    }, [getSelectedNodes, getSelectedEdges, setNodesInternal, setEdgesInternal, toast, getNodes, getEdges, recordChange]);
 
 
-    const handleSave = useCallback(async () => {
-        const currentContextModelType = modelType;
-        const currentContextModelName = modelName;
+    // Saves the canvas, or the given content instead (e.g. a version being restored)
+    // Autosaves skip the success toast, and their failures are shown as the save status instead while offline
+    const saveModel = useCallback(async (
+        force: boolean,
+        options?: { message?: string; content?: LoadedThreatModel; autosave?: boolean }
+    ): Promise<SaveOutcome> => {
+        const content = options?.content;
+        const currentContextModelType = content?.modelType ?? modelType;
+        const currentContextModelName = content?.name ?? modelName;
 
         if (!currentUser) {
             toast({ title: 'Error', description: 'You must be logged in to save.', variant: 'destructive' });
-            return;
+            return 'failed';
+        }
+        if (modelId && modelRole === 'viewer') {
+            toast({ title: 'Read-Only Model', description: 'You have view access to this model. Ask an owner for editor access to save changes.', variant: 'destructive' });
+            return 'failed';
         }
         if (typeof getNodes !== 'function' || typeof getEdges !== 'function' || typeof getReactFlowViewport !== 'function') {
             toast({ title: 'Error', description: 'Diagram canvas not ready.', variant: 'destructive' });
-            return;
+            return 'failed';
         }
          if (!currentContextModelName || currentContextModelName.trim() === "") {
             toast({ title: 'Error', description: 'Model name cannot be empty.', variant: 'destructive' });
-            return;
+            return 'failed';
          }
 
         setIsLoadingModel(true);
         const currentNodesForSave = getNodes();
         const currentEdgesForSave = getEdges();
-        const viewportToSave = getReactFlowViewport();
+        const viewportToSave = content?.viewport ?? getReactFlowViewport();
 
-        const nodesToSave = currentNodesForSave.map(n => nodeToComponent(n));
-        const edgesToSave = currentEdgesForSave.map(e => edgeToConnection(e));
+        const nodesToSave = content ? content.components : currentNodesForSave.map(n => nodeToComponent(n));
+        const edgesToSave = content ? content.connections : currentEdgesForSave.map(e => edgeToConnection(e));
+        const reportsToSave = content?.reports ?? sessionReports;
+        const decisionsToSave = content?.threatDecisions ?? threatDecisions;
 
         setCurrentViewport(viewportToSave);
 
         try {
-            const savedModelId = await saveThreatModel(
+            const liveElementIds = modelId ? getLiveElementIdsToClear() : [];
+            const save = (forceSave: boolean) => saveThreatModel(
                 currentUser.uid,
                 modelId,
                 currentContextModelName,
@@ -549,11 +941,47 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                 nodesToSave,
                 edgesToSave,
                 viewportToSave,
-                sessionReports
+                reportsToSave,
+                decisionsToSave,
+                workspaceId,
+                {
+                    expectedRevision: modelRevision,
+                    force: forceSave,
+                    recordVersion: !options?.autosave,
+                    versionMessage: options?.message,
+                    authorName: currentUser.displayName || currentUser.email || undefined,
+                    metadata: modelMetadata, // Only stored when this save creates the model
+                    clearLiveElementIds: liveElementIds,
+                }
             );
+            const localContent: ModelContent = {
+                name: currentContextModelName, modelType: currentContextModelType, components: nodesToSave, connections: edgesToSave,
+                reports: reportsToSave, threatDecisions: decisionsToSave,
+            };
+            let saved;
+            let didWrite = true;
+            try {
+                saved = await save(force);
+            } catch (saveError) {
+                // A save by someone who had the same content (e.g. a live co-editor) is not a real conflict
+                if (!(saveError instanceof SaveConflictError) || !isSameSavedContent(saveError.latest, localContent)) {
+                    throw saveError;
+                }
+                // It already holds everything, so its revision is adopted instead of writing the same content again
+                didWrite = false;
+                saved = { id: saveError.latest.id, revision: saveError.latest.revision ?? 1 };
+            }
+            const { id: savedModelId, revision: savedRevision } = saved;
+            if (didWrite) reseedLiveElements(savedRevision, liveElementIds);
+            if ('reopened' in saved && saved.reopened) {
+                toast({ title: 'Review Reopened', description: 'The model was approved; your changes reopened it as a draft. Submit it for review again when ready.' });
+            }
 
             const wasNewSaveOrDifferentId = !modelId || modelId !== savedModelId;
             setModelId(savedModelId);
+            setModelRevision(savedRevision);
+            setSavedContent(localContent);
+            setSaveConflict(null);
 
             setDiagramDataForAI({
                  id: savedModelId,
@@ -562,7 +990,8 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                  components: nodesToSave,
                  connections: edgesToSave,
                  viewport: viewportToSave,
-                 reports: sessionReports,
+                 reports: reportsToSave,
+                 threatDecisions: decisionsToSave,
             });
 
             if (wasNewSaveOrDifferentId && pathname !== `/projects/${savedModelId}`) {
@@ -572,25 +1001,191 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                  initialLoadAttempted.current = true;
             }
              const now = Date.now();
-            if (now - lastToastTime.current > TOAST_DEBOUNCE_DURATION) {
+            if (!options?.autosave && now - lastToastTime.current > TOAST_DEBOUNCE_DURATION) {
                  toast({ title: 'Saved', description: `Model '${currentContextModelName}' saved successfully.` });
                  lastToastTime.current = now;
             }
+            return 'saved';
 
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'Could not save diagram.';
-            toast({ title: 'Error Saving Model', description: errorMessage, variant: 'destructive' });
+            if (err instanceof SaveConflictError) {
+                setSaveConflict({
+                    latest: err.latest,
+                    diff: diffModels(err.latest, { components: nodesToSave, connections: edgesToSave }),
+                });
+                return 'conflict';
+            }
+            if (!options?.autosave || navigator.onLine) {
+                const errorMessage = err instanceof Error ? err.message : 'Could not save diagram.';
+                toast({ title: 'Error Saving Model', description: errorMessage, variant: 'destructive' });
+            }
+            return 'failed';
         } finally {
             setIsLoadingModel(false);
         }
     }, [
         modelName, modelType, 
-        toast, currentUser, modelId, 
+        toast, currentUser, modelId, modelRole, workspaceId, modelRevision, modelMetadata,
         getNodes, getEdges, getReactFlowViewport, 
         setCurrentViewport, setModelId, setDiagramDataForAI, 
-        router, pathname, sessionReports 
+        router, pathname, sessionReports, threatDecisions, getLiveElementIdsToClear, reseedLiveElements
     ]);
 
+    const handleSave = useCallback(() => saveModel(false), [saveModel]);
+
+    const handleConflictReload = useCallback(() => {
+        setSaveConflict(null);
+        if (modelId) loadModel(modelId);
+    }, [modelId, loadModel]);
+
+    const handleConflictOverwrite = useCallback(() => {
+        setSaveConflict(null);
+        saveModel(true);
+    }, [saveModel]);
+
+    const handleSaveVersion = useCallback(async (message: string) => { await saveModel(false, { message }); }, [saveModel]);
+
+    // Previews and comparisons are shown read-only on the canvas in their own node state; the live diagram stays untouched underneath
+    const readOnlyView = useMemo((): { nodes: Node[]; edges: Edge[] } | null => {
+        if (comparison) {
+            const overlay = buildDiffOverlay(comparison.base, comparison.other, comparison.diff);
+            return {
+                // Boundaries first, so parents precede their children
+                nodes: overlay.components
+                    .sort((a, b) => Number(!!b.component.isBoundary) - Number(!!a.component.isBoundary))
+                    .map(({ component, status }) => ({ ...componentToNode(component, false), className: status && `diff-${status}` })),
+                edges: overlay.connections
+                    .map(({ connection, status }) => ({ ...connectionToEdge(connection, false), className: status && `diff-${status}` })),
+            };
+        }
+        if (previewVersion) {
+            return {
+                nodes: previewVersion.model.components.map(c => componentToNode(c, false)),
+                edges: previewVersion.model.connections.map(c => connectionToEdge(c, false)),
+            };
+        }
+        return null;
+    }, [comparison, previewVersion]);
+    const [previewNodes, setPreviewNodes] = useState<Node[] | null>(null);
+    const previewEdges = readOnlyView?.edges ?? null;
+    useEffect(() => {
+        setPreviewNodes(readOnlyView?.nodes ?? null);
+    }, [readOnlyView]);
+
+    // Only measurements are applied to preview nodes, so they render; nothing else can change them
+    const onPreviewNodesChange = useCallback((changes: NodeChange[]) => {
+        setPreviewNodes(prev => prev && applyNodeChanges(changes.filter(change => change.type === 'dimensions'), prev));
+    }, []);
+
+    const fetchVersion = useCallback(async (version: ModelVersionInfo): Promise<LoadedThreatModel | null> => {
+        if (!modelId) return null;
+        if (previewVersion?.info.id === version.id) return previewVersion.model;
+        try {
+            const model = await getModelVersion(modelId, version.id);
+            if (!model) throw new Error(`Revision ${version.revision} could not be found.`);
+            return model;
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Could not load the version.';
+            toast({ title: 'Error Loading Version', description: errorMessage, variant: 'destructive' });
+            return null;
+        }
+    }, [modelId, previewVersion, toast]);
+
+    const handlePreviewVersion = useCallback(async (version: ModelVersionInfo) => {
+        const model = await fetchVersion(version);
+        if (!model) return;
+        setComparison(null);
+        setPreviewVersion({ info: version, model });
+        if (typeof fitView === 'function') setTimeout(() => fitView({ padding: 0.2, duration: 150 }), 50);
+    }, [fetchVersion, fitView]);
+
+    // Compares two versions, or a version with the current diagram when `to` is null
+    const handleCompareVersions = useCallback(async (from: ModelVersionInfo, to: ModelVersionInfo | null) => {
+        const base = await fetchVersion(from);
+        if (!base) return;
+        const other: ModelElements | null = to
+            ? await fetchVersion(to)
+            : { components: nodes.map(nodeToComponent), connections: edges.map(edgeToConnection) };
+        if (!other) return;
+        setPreviewVersion(null);
+        setComparison({
+            fromLabel: `Revision ${from.revision}`,
+            toLabel: to ? `Revision ${to.revision}` : 'Current diagram',
+            base,
+            other,
+            diff: diffModels(base, other),
+        });
+        if (typeof fitView === 'function') setTimeout(() => fitView({ padding: 0.2, duration: 150 }), 50);
+    }, [fetchVersion, nodes, edges, fitView]);
+
+    // Replaces the diagram with earlier content, e.g. a version or a recovered draft, as unsaved changes
+    const applyModelContent = useCallback((content: ModelContent) => {
+        recordChange();
+        setPreviewVersion(null);
+        setComparison(null);
+        setModelName(content.name);
+        setProjectContextModelType(content.modelType);
+        setNodesInternal(content.components.map(c => componentToNode(c)));
+        setEdgesInternal(content.connections.map(c => connectionToEdge(c)));
+        setSessionReports(content.reports);
+        setThreatDecisions(content.threatDecisions);
+        setSelectedElementId(null);
+        setMultipleElementsSelected(false);
+    }, [setModelName, setProjectContextModelType, setNodesInternal, setEdgesInternal, recordChange]);
+
+    // Restoring makes the version the current state and saves it as a new revision, so history is never rewritten
+    const handleRestoreVersion = useCallback(async (version: ModelVersionInfo) => {
+        const model = await fetchVersion(version);
+        if (!model) return;
+        applyModelContent({ ...model, reports: model.reports || [] });
+        await saveModel(false, { message: `Restored revision ${version.revision}`, content: model });
+    }, [fetchVersion, applyModelContent, saveModel]);
+
+    const currentContent = useMemo((): ModelContent => ({
+        name: modelName,
+        modelType,
+        components: nodes.map(n => nodeToComponent(n)),
+        connections: edges.map(e => edgeToConnection(e)),
+        reports: sessionReports,
+        threatDecisions,
+    }), [modelName, modelType, nodes, edges, sessionReports, threatDecisions]);
+
+    const autosaveModel = useCallback(() => saveModel(false, { autosave: true }), [saveModel]);
+
+    const {
+        status: saveStatus,
+        isDirty,
+        recoverableDraft,
+        dismissDraft,
+        discardDraft,
+    } = useAutosave({
+        user: currentUser,
+        modelId,
+        canEdit: canEditModel,
+        content: currentContent,
+        savedContent: loading ? null : savedContent,
+        viewport: currentViewport,
+        workspaceId,
+        revision: modelRevision,
+        isSaving: isLoadingModel,
+        isPaused: isLoadingModel || !!readOnlyView || !!saveConflict,
+        save: autosaveModel,
+    });
+
+    // The draft's changes are applied on top of the revision they were made on, so saving them
+    // detects whether someone else saved the model in the meantime
+    const handleRestoreDraft = useCallback(() => {
+        if (!recoverableDraft) return;
+        applyModelContent(recoverableDraft);
+        if (!modelId) setWorkspaceId(recoverableDraft.workspaceId);
+        if (recoverableDraft.baseRevision !== undefined) setModelRevision(recoverableDraft.baseRevision);
+        dismissDraft();
+    }, [recoverableDraft, modelId, applyModelContent, dismissDraft]);
+
+    const handleDiscardDraft = useCallback(() => {
+        discardDraft().catch(err => console.error("Error discarding draft:", err));
+    }, [discardDraft]);
+
 
     const handleLoadTrigger = async () => {
         if (!currentUser) {
@@ -600,7 +1195,7 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
         const loadingToast = toast({ title: 'Fetching Models...', description: 'Please wait.' });
         const tempLoadingToastId = loadingToast.id;
         try {
-            const models = await getUserThreatModels(currentUser.uid);
+            const models = await getUserThreatModels(currentUser.uid, currentUser.email, currentUser.emailVerified);
             if (tempLoadingToastId && typeof dismissToast === 'function') dismissToast(tempLoadingToastId);
             setUserModels(models);
             setIsLoadModelDialogOpen(true);
@@ -636,6 +1231,124 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
     }, [modelId, router, setIsLoadModelDialogOpen, pathname, toast, loadModel, getNodes, getEdges]);
 
 
+    const handleShareTrigger = () => {
+        if (!modelId) {
+            toast({ title: 'Save Required', description: 'Save the model before sharing it.' });
+            return;
+        }
+        setIsShareDialogOpen(true);
+    };
+
+    const handleShare = useCallback(async (email: string, role: CollaboratorRole) => {
+        if (!modelId) return;
+        await shareThreatModel(modelId, email, role, currentUser?.displayName || currentUser?.email || undefined);
+        setCollaborators(prev => [
+            ...prev.filter(c => c.email !== email),
+            { email, role, addedBy: currentUser?.displayName || currentUser?.email || undefined, addedDate: new Date() },
+        ].sort((a, b) => a.email.localeCompare(b.email)));
+    }, [modelId, currentUser]);
+
+    const handleUnshare = useCallback(async (email: string) => {
+        if (!modelId) return;
+        await unshareThreatModel(modelId, email);
+        setCollaborators(prev => prev.filter(c => c.email !== email));
+    }, [modelId]);
+
+    const reviewAuthor = useCallback(() => ({
+        authorId: currentUser?.uid || '',
+        authorName: currentUser?.displayName || currentUser?.email || 'Unknown user',
+    }), [currentUser]);
+
+    const handleSetReviewers = useCallback(async (reviewers: Reviewer[]) => {
+        if (!modelId) return;
+        try {
+            await setReviewers(modelId, reviewers);
+        } catch (err) {
+            console.error("Error assigning reviewers:", err);
+            toast({ title: "Error", description: `Could not update the reviewers: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, toast]);
+
+    const handleReviewStep = useCallback(async (step: ReviewStep, comment: string) => {
+        if (!modelId) return;
+        const entry = { ...reviewAuthor(), text: comment, revision: modelRevision };
+        try {
+            if (step === 'approved') {
+                await approveThreatModel(modelId, modelRevision, entry);
+                toast({ title: "Model Approved", description: "A snapshot of the model and its latest report was stored with its content digest." });
+            } else {
+                await updateReviewState(modelId, step, entry);
+            }
+        } catch (err) {
+            console.error("Error updating the review:", err);
+            toast({ title: "Error", description: `Could not update the review: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, modelRevision, reviewAuthor, toast]);
+
+    const handleReviewComment = useCallback(async (comment: string) => {
+        if (!modelId) return;
+        try {
+            await addReviewComment(modelId, { ...reviewAuthor(), text: comment, revision: modelRevision });
+        } catch (err) {
+            console.error("Error adding review comment:", err);
+            toast({ title: "Error", description: `Could not add the comment: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, modelRevision, reviewAuthor, toast]);
+
+    const commentAuthor = useCallback(() => ({
+        authorId: currentUser?.uid || '',
+        authorName: currentUser?.displayName || currentUser?.email || 'Unknown user',
+    }), [currentUser]);
+
+    const handleCreateCommentThread = useCallback(async (anchor: CommentAnchor, text: string, mentions: MentionCandidate[]) => {
+        if (!modelId) return;
+        try {
+            const threadId = await createCommentThread(modelId, anchor, { ...commentAuthor(), text, mentions });
+            setCommentPinPosition(null);
+            setCommentFocus(anchor.type === 'canvas' ? { threadId } : { elementId: anchor.elementId });
+        } catch (err) {
+            console.error("Error starting comment thread:", err);
+            toast({ title: "Error", description: `Could not add the comment: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, commentAuthor, toast]);
+
+    const handleReplyToCommentThread = useCallback(async (threadId: string, text: string, mentions: MentionCandidate[]) => {
+        if (!modelId) return;
+        try {
+            await replyToCommentThread(modelId, threadId, { ...commentAuthor(), text, mentions });
+        } catch (err) {
+            console.error("Error replying to comment thread:", err);
+            toast({ title: "Error", description: `Could not add the reply: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, commentAuthor, toast]);
+
+    const handleSetCommentThreadResolved = useCallback(async (threadId: string, resolved: boolean) => {
+        if (!modelId) return;
+        try {
+            await setCommentThreadResolved(modelId, threadId, resolved ? commentAuthor() : null);
+        } catch (err) {
+            console.error("Error updating comment thread:", err);
+            toast({ title: "Error", description: `Could not update the thread: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, commentAuthor, toast]);
+
+    const handleDeleteCommentThread = useCallback(async (threadId: string) => {
+        if (!modelId) return;
+        try {
+            await deleteCommentThread(modelId, threadId);
+        } catch (err) {
+            console.error("Error deleting comment thread:", err);
+            toast({ title: "Error", description: `Could not delete the thread: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, toast]);
+
     const handleCreateNewModel = (newModelName: string, newModelType: ModelType) => {
         setIsNewModelDialogOpen(false);
 
@@ -650,6 +1363,90 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
         toast({ title: 'New Model Initialized', description: `Switched to new ${newModelType} model: ${newModelName}` });
     };
 
+    const handleImportFile = useCallback(async (file: File) => {
+        try {
+            const content = await file.text();
+            // Generated diagrams (e.g. from Terraform) use the admin-managed stencils when they can be loaded
+            let stencils: StencilData[] = [];
+            try {
+                stencils = await getStencils('infrastructure');
+            } catch (stencilError) {
+                console.warn('Could not load stencils for import, using built-in stencils:', stencilError);
+            }
+            const imported = importThreatModelFile(file.name, content, { stencils });
+            const importedReports = imported.reports
+                ?? (imported.threats.length > 0 ? [createImportedReport(imported)] : []);
+
+            justCreatedNewModelFromDialog.current = true;
+            initialLoadAttempted.current = false;
+
+            resetDiagramState(imported.name, imported.modelType);
+            setNodesInternal(imported.components.map(c => componentToNode(c)));
+            setEdgesInternal(imported.connections.map(c => connectionToEdge(c)));
+            setSessionReports(importedReports);
+            setThreatDecisions(imported.threatDecisions || {});
+            setModelMetadata(normalizeModelMetadata({ applicationDescription: imported.description, ...imported.metadata }));
+            if (imported.viewport && typeof rfSetViewport === 'function') {
+                rfSetViewport(imported.viewport, { duration: 0 });
+                setCurrentViewport(imported.viewport);
+            }
+            setDiagramDataForAI({
+                ...getDefaultDiagram(null, imported.name, imported.modelType),
+                components: imported.components,
+                connections: imported.connections,
+                viewport: imported.viewport,
+                reports: importedReports,
+                threatDecisions: imported.threatDecisions || {},
+            });
+
+            if (pathname !== '/projects/new') {
+                router.push(`/projects/new`, { scroll: false });
+            }
+            toast({
+                title: 'Model Imported',
+                description: `Imported '${imported.name}' from ${imported.sourceFormat} with ${imported.threats.length} threats. Save the model to keep it.`,
+            });
+            if (imported.warnings.length > 0) {
+                console.warn('Import warnings:', imported.warnings);
+                toast({
+                    title: 'Import Warnings',
+                    description: `${imported.warnings.length} item(s) could not be imported exactly. ${imported.warnings.slice(0, 3).join(' ')}`,
+                });
+            }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Could not import the file.';
+            toast({ title: 'Error Importing Model', description: errorMessage, variant: 'destructive' });
+        }
+    }, [
+        resetDiagramState, setNodesInternal, setEdgesInternal, setSessionReports, setThreatDecisions,
+        rfSetViewport, setCurrentViewport, setDiagramDataForAI, pathname, router, toast
+    ]);
+
+    const handleExport = useCallback((format: ExportFormat) => {
+        if (typeof getNodes !== 'function' || typeof getEdges !== 'function') {
+            toast({ title: 'Error', description: 'Diagram canvas not ready.', variant: 'destructive' });
+            return;
+        }
+        try {
+            const file = exportThreatModelFile({
+                id: modelId || 'new',
+                name: modelName,
+                modelType,
+                components: getNodes().map(n => nodeToComponent(n)),
+                connections: getEdges().map(e => edgeToConnection(e)),
+                viewport: currentViewport,
+                reports: sessionReports,
+                threatDecisions,
+                metadata: modelMetadata,
+            }, format);
+            downloadFile(file.content, file.fileName, file.mimeType);
+            toast({ title: 'Model Exported', description: `Exported '${modelName}' to ${file.fileName}.` });
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Could not export the model.';
+            toast({ title: 'Error Exporting Model', description: errorMessage, variant: 'destructive' });
+        }
+    }, [getNodes, getEdges, modelId, modelName, modelType, currentViewport, sessionReports, threatDecisions, modelMetadata, toast]);
+
     const getCurrentDiagramDataForReport = useCallback((): Diagram | null => {
         const currentContextModelType = modelType;
         const currentContextModelName = modelName;
@@ -666,12 +1463,18 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
             id: modelId,
             name: currentContextModelName,
             modelType: currentContextModelType,
-            components: currentNodesForReport.map(n => nodeToComponent(n)),
+            // Typed properties are normalized, so both engines see e.g. `false` rather than "no"
+            components: currentNodesForReport.map(n => normalizeComponentProperties(nodeToComponent(n), propertySchemas)),
             connections: currentEdgesForReport.map(e => edgeToConnection(e)),
             viewport: currentViewportForReport,
             reports: sessionReports,
+            threatDecisions: threatDecisions,
+            // The assigned reviewers stand in for the Reviewer setting when it is not filled in
+            metadata: !modelMetadata.reviewer && review.reviewers.length > 0
+                ? { ...modelMetadata, reviewer: review.reviewers.map(reviewer => reviewer.displayName || reviewer.email).join(', ') }
+                : modelMetadata,
         };
-    }, [getNodes, getEdges, getReactFlowViewport, modelId, modelName, modelType, toast, sessionReports ]);
+    }, [getNodes, getEdges, getReactFlowViewport, modelId, modelName, modelType, toast, sessionReports, threatDecisions, modelMetadata, review, propertySchemas ]);
 
 
     const onViewportChangeInternal = useCallback((vp: Viewport) => {
@@ -680,8 +1483,39 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
 
     const addSessionReport = useCallback((report: ReportEntry) => {
         setSessionReports(prev => [...prev, report]);
-    }, [setSessionReports]);
-
+        // Decisions follow threats that the new report words differently
+        setThreatDecisions(prev => carryOverThreatDecisions(report.threats || [], prev));
+    }, [setSessionReports, setThreatDecisions]);
+
+    const updateThreatDecision = useCallback((decision: ThreatDecision) => {
+        setThreatDecisions(prev => ({
+            ...prev,
+            [decision.threatId]: {
+                ...decision,
+                updatedBy: currentUser?.displayName || currentUser?.email || decision.updatedBy,
+                updatedDate: new Date(),
+            },
+        }));
+    }, [setThreatDecisions, currentUser]);
+
+
+    const handleSaveMetadata = useCallback(async (metadata: ModelMetadata) => {
+        const normalized = normalizeModelMetadata(metadata);
+        if (!modelId) {
+            setModelMetadata(normalized);
+            toast({ title: "Settings Updated", description: "The settings are stored when you save the model." });
+            return;
+        }
+        try {
+            await updateThreatModelMetadata(modelId, normalized);
+            setModelMetadata(normalized);
+            toast({ title: "Settings Saved", description: "New reports will include these details." });
+        } catch (err) {
+            console.error("Error saving model settings:", err);
+            toast({ title: "Error", description: `Could not save the settings: ${err instanceof Error ? err.message : String(err)}`, variant: "destructive" });
+            throw err;
+        }
+    }, [modelId, toast]);
 
     const showLoadingScreen = authLoading || loading || !isReactFlowReady;
 
@@ -724,30 +1558,88 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                 onNewModelClick={() => setIsNewModelDialogOpen(true)}
                 onSave={handleSave}
                 onLoad={handleLoadTrigger}
+                onExport={handleExport}
+                onImportFile={handleImportFile}
+                onShare={handleShareTrigger}
+                onOpenSettings={() => setIsSettingsDialogOpen(true)}
+                onOpenComments={modelId ? () => { setCommentFocus(null); setSidebarTab('comments'); } : undefined}
+                unresolvedCommentCount={countUnresolvedThreads(commentThreads)}
                 isSaving={isLoadingModel}
+                saveStatus={saveStatus}
+                onUndo={undo}
+                onRedo={redo}
+                canUndo={canUndo}
+                canRedo={canRedo}
             />
             <div className="flex flex-1 overflow-hidden">
                 <main className="flex-1 overflow-auto p-0 relative bg-secondary/50">
-                    <DiagramCanvas
-                        nodes={nodes}
-                        edges={edges}
-                        onNodesChange={onNodesChange}
-                        onEdgesChange={onEdgesChange}
-                        onConnect={onConnect}
-                        setNodes={setNodesInternal}
-                        setEdges={setEdgesInternal}
-                        onViewportChange={onViewportChangeInternal}
-                        onPaneClick={onPaneClick}
-                        onSelectionChange={onSelectionChange}
-                        isSelectionModifierKeyPressed={isSelectionModifierKeyPressed}
-                    />
+                    {previewVersion && (
+                        <div className="absolute top-0 inset-x-0 z-10 flex items-center justify-between gap-2 border-b bg-accent px-4 py-2 text-sm">
+                            <span>
+                                Previewing revision {previewVersion.info.revision}
+                                {previewVersion.info.message && ` — ${previewVersion.info.message}`} (read-only)
+                            </span>
+                            <div className="flex gap-2">
+                                {canEditModel && (
+                                    <Button size="sm" onClick={() => handleRestoreVersion(previewVersion.info)}>Restore This Version</Button>
+                                )}
+                                <Button size="sm" variant="outline" onClick={() => setPreviewVersion(null)}>Back to Current</Button>
+                            </div>
+                        </div>
+                    )}
+                    {recoverableDraft && !readOnlyView && (
+                        <div className="absolute top-0 inset-x-0 z-10 flex items-center justify-between gap-2 border-b bg-accent px-4 py-2 text-sm">
+                            <span>
+                                Unsaved changes from {formatDistanceToNow(recoverableDraft.updatedAt, { addSuffix: true })} were found on this device.
+                            </span>
+                            <div className="flex gap-2">
+                                <Button size="sm" onClick={handleRestoreDraft}>Restore Changes</Button>
+                                <Button size="sm" variant="outline" onClick={handleDiscardDraft}>Discard</Button>
+                            </div>
+                        </div>
+                    )}
+                    {comparison && (
+                        <div className="absolute top-0 inset-x-0 z-10 flex items-center justify-between gap-2 border-b bg-accent px-4 py-2 text-sm">
+                            <span>
+                                Comparing {comparison.fromLabel} with {comparison.toLabel.toLowerCase()} (read-only):{' '}
+                                <span className="text-green-600">added</span>, <span className="text-red-600">removed</span>,{' '}
+                                <span className="text-amber-600">moved or changed</span>
+                            </span>
+                            <Button size="sm" variant="outline" onClick={() => setComparison(null)}>Back to Current</Button>
+                        </div>
+                    )}
+                    <DiagramCommentsProvider value={diagramComments}>
+                        <DiagramCanvas
+                            nodes={previewNodes ?? nodes}
+                            edges={previewEdges ?? edges}
+                            readOnly={!!readOnlyView || !canEditModel}
+                            selectable={!readOnlyView}
+                            onNodesChange={readOnlyView ? onPreviewNodesChange : onNodesChange}
+                            onEdgesChange={readOnlyView ? () => {} : onEdgesChange}
+                            onConnect={onConnect}
+                            setNodes={setNodesWithHistory}
+                            setEdges={setEdgesWithHistory}
+                            onViewportChange={onViewportChangeInternal}
+                            onPaneClick={onPaneClick}
+                            onSelectionChange={readOnlyView ? () => {} : onSelectionChange}
+                            isSelectionModifierKeyPressed={isSelectionModifierKeyPressed}
+                            collaborators={readOnlyView ? [] : liveCollaborators}
+                            onCursorMove={modelId && !readOnlyView ? updateCursor : undefined}
+                        />
+                    </DiagramCommentsProvider>
                 </main>
 
                 <aside className="w-80 border-l bg-card flex flex-col">
-                    <Tabs defaultValue="properties" className="flex flex-col flex-1 overflow-hidden">
-                        <TabsList className="grid w-full grid-cols-2 rounded-none">
-                            <TabsTrigger value="properties">Properties</TabsTrigger>
-                            <TabsTrigger value="report">Report</TabsTrigger>
+                    <Tabs value={sidebarTab} onValueChange={setSidebarTab} className="flex flex-col flex-1 overflow-hidden">
+                        <TabsList className="grid w-full grid-cols-6 rounded-none">
+                            <TabsTrigger value="properties" className="px-0.5 text-[11px]">Properties</TabsTrigger>
+                            <TabsTrigger value="checks" className="px-0.5 text-[11px]" title={`${validationFindings.length} problem${validationFindings.length === 1 ? '' : 's'} found`}>
+                                Checks{validationFindings.length > 0 && ` (${validationFindings.length})`}
+                            </TabsTrigger>
+                            <TabsTrigger value="report" className="px-0.5 text-[11px]">Report</TabsTrigger>
+                            <TabsTrigger value="comments" className="px-0.5 text-[11px]">Comments</TabsTrigger>
+                            <TabsTrigger value="review" className="px-0.5 text-[11px]">Review</TabsTrigger>
+                            <TabsTrigger value="history" className="px-0.5 text-[11px]">History</TabsTrigger>
                         </TabsList>
                         <TabsContent value="properties" className="flex-1 overflow-auto p-4 mt-0">
                             <SidebarPropertiesPanel
@@ -756,16 +1648,84 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                                 onDeleteElement={deleteElement}
                                 multipleElementsSelected={multipleElementsSelected}
                                 onDeleteAllSelected={deleteAllSelectedElements}
+                                onDuplicateSelected={!previewVersion && !comparison && canEditModel ? duplicateSelection : undefined}
+                                onSaveAsTemplate={handleSaveAsTemplate}
+                                propertySchemas={propertySchemas}
+                                readOnly={!canEditModel}
                             />
                         </TabsContent>
                         <TabsContent value="report" className="flex-1 overflow-auto p-4 mt-0">
                             <ThreatReportPanel
                                 getCurrentDiagramData={getCurrentDiagramDataForReport}
+                                elements={currentContent}
                                 setIsGenerating={(genState) => { /* Placeholder */ }}
                                 sessionReports={sessionReports}
                                 addSessionReport={addSessionReport}
+                                threatDecisions={threatDecisions}
+                                onUpdateThreatDecision={updateThreatDecision}
+                                validationIssueCount={validationFindings.length}
+                                onShowValidation={() => setSidebarTab('checks')}
                              />
                         </TabsContent>
+                        <TabsContent value="checks" className="flex-1 overflow-auto p-4 mt-0">
+                            <ValidationPanel findings={validationFindings} onSelectFinding={selectFinding} />
+                        </TabsContent>
+                        <TabsContent value="comments" className="flex-1 overflow-auto p-4 mt-0">
+                            <CommentsPanel
+                                modelId={modelId}
+                                threads={commentThreads}
+                                focus={commentFocus}
+                                onClearFocus={() => setCommentFocus(null)}
+                                getElementLabel={getElementLabel}
+                                commentTarget={commentTarget}
+                                isPlacingPin={isPlacingCommentPin}
+                                onPlacePin={setIsPlacingCommentPin}
+                                mentionCandidates={mentionCandidates}
+                                canModerate={modelRole === 'owner'}
+                                onCreateThread={handleCreateCommentThread}
+                                onReply={handleReplyToCommentThread}
+                                onSetResolved={handleSetCommentThreadResolved}
+                                onDeleteThread={handleDeleteCommentThread}
+                            />
+                        </TabsContent>
+                        <TabsContent value="review" className="flex-1 overflow-auto p-4 mt-0">
+                            <ReviewPanel
+                                modelId={modelId}
+                                modelName={modelName}
+                                review={review}
+                                currentRevision={modelRevision}
+                                hasUnsavedChanges={isDirty}
+                                canEdit={canEditModel}
+                                canManageReviewers={modelRole === 'owner'}
+                                candidates={people}
+                                onSetReviewers={handleSetReviewers}
+                                onReviewStep={handleReviewStep}
+                                onComment={handleReviewComment}
+                            />
+                        </TabsContent>
+                        <TabsContent value="history" className="flex-1 overflow-auto p-4 mt-0">
+                            {comparison && (
+                                <div className="mb-4 border-b pb-4">
+                                    <ModelDiffPanel
+                                        modelName={modelName}
+                                        fromLabel={comparison.fromLabel}
+                                        toLabel={comparison.toLabel}
+                                        diff={comparison.diff}
+                                        onClose={() => setComparison(null)}
+                                    />
+                                </div>
+                            )}
+                            <VersionHistoryPanel
+                                modelId={modelId}
+                                currentRevision={modelRevision}
+                                previewVersionId={previewVersion?.info.id ?? null}
+                                canEdit={canEditModel}
+                                onSaveVersion={handleSaveVersion}
+                                onPreview={handlePreviewVersion}
+                                onRestore={handleRestoreVersion}
+                                onCompare={handleCompareVersions}
+                            />
+                        </TabsContent>
                     </Tabs>
                 </aside>
             </div>
@@ -779,6 +1739,43 @@ export function ProjectClientLayout({ projectId: initialProjectIdFromUrl }: Proj
                 onClose={() => setIsLoadModelDialogOpen(false)}
                 models={userModels}
                 onLoadModel={handleLoadModelSelect}
+                onImportFile={handleImportFile}
+            />
+            {saveConflict && (
+                <SaveConflictDialog
+                    isOpen={!!saveConflict}
+                    onClose={() => setSaveConflict(null)}
+                    modelName={saveConflict.latest.name}
+                    latestModifiedDate={saveConflict.latest.modifiedDate}
+                    diff={saveConflict.diff}
+                    onReload={handleConflictReload}
+                    onOverwrite={handleConflictOverwrite}
+                />
+            )}
+            <SaveTemplateDialog
+                isOpen={!!templateContent}
+                onClose={() => setTemplateContent(null)}
+                content={templateContent}
+                modelType={modelType}
+                workspaceName={templateWorkspace?.name}
+                onSaveTemplate={handleSaveTemplate}
+            />
+            <ModelSettingsDialog
+                isOpen={isSettingsDialogOpen}
+                onClose={() => setIsSettingsDialogOpen(false)}
+                metadata={modelMetadata}
+                canEdit={!modelId || canEditModel}
+                onSaveMetadata={handleSaveMetadata}
+            />
+            <ShareModelDialog
+                isOpen={isShareDialogOpen}
+                onClose={() => setIsShareDialogOpen(false)}
+                modelName={modelName}
+                collaborators={collaborators}
+                canManage={modelRole === 'owner'}
+                currentUserEmail={currentUser?.email}
+                onShare={handleShare}
+                onUnshare={handleUnshare}
             />
         </>
     );
@@ -0,0 +1,86 @@
+"use client";
+
+import { ViewportPortal, useEdges, useNodes, useReactFlow } from '@xyflow/react';
+import { ChatCircleDots } from '@phosphor-icons/react';
+import { cn } from '@/lib/utils';
+import { useDiagramComments } from '@/contexts/DiagramCommentsContext';
+
+interface CommentBadgeProps {
+  count: number;
+  onClick: () => void;
+  title?: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * The number of unresolved comment threads on an element. Clicking it opens the threads.
+ */
+export function CommentBadge({ count, onClick, title, className, style }: CommentBadgeProps) {
+  return (
+    <button
+      type="button"
+      className={cn(
+        "nodrag nopan flex items-center gap-0.5 rounded-full bg-primary px-1.5 py-0.5 text-[10px] font-medium text-primary-foreground shadow",
+        className
+      )}
+      style={{ pointerEvents: 'all', ...style }}
+      onClick={(event) => {
+        event.stopPropagation();
+        onClick();
+      }}
+      title={title ?? `${count} unresolved comment thread${count === 1 ? '' : 's'}`}
+    >
+      <ChatCircleDots className="h-3 w-3" weight="fill" />
+      {count}
+    </button>
+  );
+}
+
+/**
+ * Draws the comment badges of data flows at their midpoints, and unresolved threads pinned to the
+ * canvas at their positions. Node badges are drawn by CustomNode itself.
+ */
+export function CommentLayer() {
+  const { threads, unresolvedCounts, openComments } = useDiagramComments();
+  const { getInternalNode } = useReactFlow();
+  const edges = useEdges();
+  useNodes(); // Re-render when nodes move, so data flow badges follow them
+
+  const nodeCenter = (id: string) => {
+    const node = getInternalNode(id);
+    if (!node) return null;
+    const { x, y } = node.internals.positionAbsolute;
+    return { x: x + (node.measured.width ?? 0) / 2, y: y + (node.measured.height ?? 0) / 2 };
+  };
+
+  return (
+    <ViewportPortal>
+      {edges.map(edge => {
+        const count = unresolvedCounts.get(edge.id);
+        const source = count ? nodeCenter(edge.source) : null;
+        const target = count ? nodeCenter(edge.target) : null;
+        if (!count || !source || !target) return null;
+        return (
+          <CommentBadge
+            key={edge.id}
+            count={count}
+            onClick={() => openComments({ elementId: edge.id })}
+            className="absolute z-10"
+            style={{ transform: `translate(-50%, -50%) translate(${(source.x + target.x) / 2 + 16}px, ${(source.y + target.y) / 2 - 16}px)` }}
+          />
+        );
+      })}
+      {threads.map(thread => thread.anchor.type === 'canvas' && !thread.resolved && (
+        <CommentBadge
+          key={thread.id}
+          count={thread.comments.length}
+          title={`${thread.comments.length} comment${thread.comments.length === 1 ? '' : 's'} pinned here`}
+          onClick={() => openComments({ threadId: thread.id })}
+          className="absolute z-10 rounded-bl-none"
+          style={{ transform: `translate(${thread.anchor.position.x}px, ${thread.anchor.position.y}px) translateY(-100%)` }}
+        />
+      ))}
+    </ViewportPortal>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import { useRef, useState, type KeyboardEvent } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from '@/contexts/AuthContext';
+import type { CommentFocus } from '@/contexts/DiagramCommentsContext';
+import { Spinner, CheckCircle, ArrowCounterClockwise, Trash, MapPin, X } from '@phosphor-icons/react';
+import { formatDistanceToNow } from 'date-fns';
+import { extractMentions, filterMentionCandidates, findMentionQuery, insertMention, splitMentions } from '@/lib/comments';
+import type { CommentAnchor, CommentThread, DiagramComment, MentionCandidate } from '@/types/comment';
+
+type ThreadFilter = 'open' | 'resolved' | 'all';
+
+interface CommentComposerProps {
+  candidates: MentionCandidate[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (text: string, mentions: MentionCandidate[]) => Promise<void>;
+}
+
+/**
+ * A comment field that suggests users to mention when "@" is typed.
+ */
+function CommentComposer({ candidates, placeholder, submitLabel, onSubmit }: CommentComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [text, setText] = useState("");
+  const [caret, setCaret] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const mentionQuery = findMentionQuery(text, caret);
+  const suggestions = mentionQuery ? filterMentionCandidates(candidates, mentionQuery.query).slice(0, 5) : [];
+
+  const handleMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return;
+    const result = insertMention(text, mentionQuery.start, caret, candidate);
+    setText(result.text);
+    setCaret(result.caret);
+    window.requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0 && (event.key === 'Enter' || event.key === 'Tab')) {
+      event.preventDefault();
+      handleMention(suggestions[0]);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(text, extractMentions(text, candidates));
+      setText("");
+      setCaret(0);
+    } catch {
+      // Reported by onSubmit; the text is kept so it can be sent again
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setCaret(e.target.selectionStart);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder={placeholder}
+          aria-label={placeholder}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute left-0 right-0 top-full z-20 mt-1 rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map(candidate => (
+              <li key={candidate.email}>
+                <button
+                  type="button"
+                  className="w-full rounded-sm px-2 py-1 text-left text-sm hover:bg-accent"
+                  onMouseDown={(e) => e.preventDefault()} // Keep the caret in the textarea
+                  onClick={() => handleMention(candidate)}
+                >
+                  {candidate.displayName}
+                  <span className="ml-1 text-xs text-muted-foreground">{candidate.email}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <Button size="sm" onClick={handleSubmit} disabled={!text.trim() || isSubmitting}>
+        {isSubmitting && <Spinner className="mr-2 h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </div>
+  );
+}
+
+function CommentText({ comment }: { comment: DiagramComment }) {
+  return (
+    <p className="mt-1 whitespace-pre-wrap">
+      {splitMentions(comment.text, comment.mentions.map(mention => mention.displayName)).map((part, index) => (
+        part.isMention
+          ? <span key={index} className="rounded bg-primary/10 px-0.5 font-medium text-primary">{part.text}</span>
+          : <span key={index}>{part.text}</span>
+      ))}
+    </p>
+  );
+}
+
+interface CommentsPanelProps {
+  modelId: string | null; // Comments are stored with the model, so it must be saved first
+  threads: CommentThread[];
+  focus: CommentFocus | null; // Shows only the threads of one element or one pin
+  onClearFocus: () => void;
+  getElementLabel: (elementId: string) => string | null; // Null when the element was deleted
+  commentTarget: { anchor: CommentAnchor; label: string } | null; // The selected element, or a position picked on the canvas
+  isPlacingPin: boolean;
+  onPlacePin: (placing: boolean) => void;
+  mentionCandidates: MentionCandidate[];
+  canModerate: boolean; // Owners may delete any thread
+  onCreateThread: (anchor: CommentAnchor, text: string, mentions: MentionCandidate[]) => Promise<void>;
+  onReply: (threadId: string, text: string, mentions: MentionCandidate[]) => Promise<void>;
+  onSetResolved: (threadId: string, resolved: boolean) => Promise<void>;
+  onDeleteThread: (threadId: string) => Promise<void>;
+}
+
+export function CommentsPanel({
+  modelId,
+  threads,
+  focus,
+  onClearFocus,
+  getElementLabel,
+  commentTarget,
+  isPlacingPin,
+  onPlacePin,
+  mentionCandidates,
+  canModerate,
+  onCreateThread,
+  onReply,
+  onSetResolved,
+  onDeleteThread,
+}: CommentsPanelProps) {
+  const { currentUser } = useAuth();
+  const [filter, setFilter] = useState<ThreadFilter>('open');
+  const [pendingThreadId, setPendingThreadId] = useState<string | null>(null);
+
+  if (!modelId) {
+    return <p className="text-sm text-muted-foreground">Save the model to discuss it.</p>;
+  }
+
+  const visibleThreads = focus
+    ? threads.filter(thread => 'threadId' in focus
+        ? thread.id === focus.threadId
+        : thread.anchor.type !== 'canvas' && thread.anchor.elementId === focus.elementId)
+    : threads.filter(thread => filter === 'all' || (filter === 'resolved') === thread.resolved);
+
+  const runThreadAction = async (threadId: string, action: () => Promise<void>) => {
+    setPendingThreadId(threadId);
+    try {
+      await action();
+    } catch {
+      // Reported by the handler
+    } finally {
+      setPendingThreadId(null);
+    }
+  };
+
+  const anchorLabel = (anchor: CommentAnchor) => {
+    if (anchor.type === 'canvas') return 'Pinned to the canvas';
+    const label = getElementLabel(anchor.elementId);
+    if (label === null) return `Deleted ${anchor.type === 'node' ? 'component' : 'data flow'}`;
+    return `${anchor.type === 'node' ? 'Component' : 'Data flow'}: ${label}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 rounded-md border p-3">
+        {commentTarget ? (
+          <>
+            <p className="text-sm font-medium">New thread on {commentTarget.label}</p>
+            <CommentComposer
+              key={commentTarget.anchor.type === 'canvas'
+                ? `${commentTarget.anchor.position.x},${commentTarget.anchor.position.y}`
+                : commentTarget.anchor.elementId}
+              candidates={mentionCandidates}
+              placeholder="Write a comment; type @ to mention someone"
+              submitLabel="Start Thread"
+              onSubmit={(text, mentions) => onCreateThread(commentTarget.anchor, text, mentions)}
+            />
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Select a component or data flow to comment on it, or pin a comment to a point of the canvas.
+          </p>
+        )}
+        <Button variant={isPlacingPin ? 'secondary' : 'outline'} size="sm" onClick={() => onPlacePin(!isPlacingPin)}>
+          <MapPin className="mr-1 h-4 w-4" />
+          {isPlacingPin ? 'Click the Canvas...' : 'Pin to Canvas'}
+        </Button>
+      </div>
+
+      {focus ? (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">
+            {visibleThreads.length > 0 ? anchorLabel(visibleThreads[0].anchor) : 'No threads'}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClearFocus}>
+            <X className="mr-1 h-4 w-4" /> Show All
+          </Button>
+        </div>
+      ) : (
+        <Select value={filter} onValueChange={(value) => setFilter(value as ThreadFilter)}>
+          <SelectTrigger aria-label="Show threads"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open threads</SelectItem>
+            <SelectItem value="resolved">Resolved threads</SelectItem>
+            <SelectItem value="all">All threads</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {visibleThreads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments here yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {visibleThreads.map(thread => (
+            <li key={thread.id} className={`rounded-md border p-3 text-sm ${thread.resolved ? 'opacity-70' : ''}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-xs font-medium text-muted-foreground">{anchorLabel(thread.anchor)}</span>
+                {thread.resolved && <Badge variant="secondary">Resolved</Badge>}
+              </div>
+              <ul className="mt-2 space-y-2">
+                {thread.comments.map(comment => (
+                  <li key={comment.id}>
+                    <p className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{comment.authorName}</span>
+                      {` · ${formatDistanceToNow(comment.createdDate, { addSuffix: true })}`}
+                    </p>
+                    <CommentText comment={comment} />
+                  </li>
+                ))}
+              </ul>
+              {thread.resolved && thread.resolvedBy && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Resolved by {thread.resolvedByName || 'a collaborator'}
+                  {thread.resolvedDate && ` ${formatDistanceToNow(thread.resolvedDate, { addSuffix: true })}`}
+                </p>
+              )}
+              {!thread.resolved && (
+                <div className="mt-3">
+                  <CommentComposer
+                    candidates={mentionCandidates}
+                    placeholder="Reply"
+                    submitLabel="Reply"
+                    onSubmit={(text, mentions) => onReply(thread.id, text, mentions)}
+                  />
+                </div>
+              )}
+              <div className="mt-2 flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runThreadAction(thread.id, () => onSetResolved(thread.id, !thread.resolved))}
+                  disabled={pendingThreadId === thread.id}
+                >
+                  {thread.resolved
+                    ? <><ArrowCounterClockwise className="mr-1 h-4 w-4" /> Reopen</>
+                    : <><CheckCircle className="mr-1 h-4 w-4" /> Resolve</>}
+                </Button>
+                {(canModerate || thread.createdBy === currentUser?.uid) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => runThreadAction(thread.id, () => onDeleteThread(thread.id))}
+                    disabled={pendingThreadId === thread.id}
+                    title="Delete thread"
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
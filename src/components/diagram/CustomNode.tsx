@@ -7,6 +7,8 @@ import { Handle, Position, NodeResizer, type NodeProps } from '@xyflow/react';
 import { cn } from '@/lib/utils';
 import { calculateEffectiveZIndex } from '@/lib/diagram-utils';
 import DynamicPhosphorIcon from '@/components/ui/DynamicPhosphorIcon';
+import { CommentBadge } from './CommentBadge';
+import { useDiagramComments } from '@/contexts/DiagramCommentsContext';
 
 // Helper function for text contrast (simplified)
 function getContrastingTextColor(backgroundColor?: string): string {
@@ -48,6 +50,7 @@ export const CustomNode: FC<NodeProps> = ({
   zIndex: rfProvidedZIndex,
   parentNode
 }) => {
+  const { unresolvedCounts, openComments } = useDiagramComments();
 
   if (!data) {
     return (
@@ -86,6 +89,16 @@ export const CustomNode: FC<NodeProps> = ({
   const showResizer = selected && isNodeResizable;
   const isHandleConnectable = nodeIsConnectableProp !== undefined ? nodeIsConnectableProp : !isBoundary; // Boundaries aren't connectable
 
+  const commentCount = unresolvedCounts.get(id) || 0;
+  const commentBadge = commentCount > 0 && (
+    <CommentBadge
+      count={commentCount}
+      onClick={() => openComments({ elementId: id })}
+      className="absolute -top-2 -right-2"
+      style={{ zIndex: (effectiveZIndex ?? 0) + 11 }}
+    />
+  );
+
 
   // --- Boundary Node Rendering ---
   if (isBoundary) {
@@ -111,6 +124,7 @@ export const CustomNode: FC<NodeProps> = ({
         >
           {nodeLabel}
         </span>
+        {commentBadge}
         {/* Handles are generally not needed for boundary nodes themselves but kept for completeness if type changes */}
          <div style={{ pointerEvents: 'none' }}>
             <Handle type="both" position={Position.Top} id="top" className="nodrag" isConnectable={isHandleConnectable} style={{ pointerEvents: 'all', opacity: 0 }} />
@@ -210,6 +224,7 @@ export const CustomNode: FC<NodeProps> = ({
           />
         )}
         {shapeRendered}
+        {commentBadge}
         <div style={{ pointerEvents: 'none' }}> {/* Handles container */}
             <Handle type="both" position={Position.Top} id="top" className="nodrag" isConnectable={isHandleConnectable} style={{ pointerEvents: 'all' }} />
             <Handle type="both" position={Position.Bottom} id="bottom" className="nodrag" isConnectable={isHandleConnectable} style={{ pointerEvents: 'all' }} />
@@ -255,6 +270,7 @@ export const CustomNode: FC<NodeProps> = ({
             {nodeLabel}
         </span>
       </div>
+      {commentBadge}
 
       {/* Handles (visual connection points) */}
       <div style={{ pointerEvents: 'none' }}> {/* Handles container */}
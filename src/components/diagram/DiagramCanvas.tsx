@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useCallback, useRef, type DragEvent, type MouseEvent as ReactMouseEvent, type Dispatch, type SetStateAction } from 'react';
+import { useCallback, useMemo, useRef, type DragEvent, type MouseEvent as ReactMouseEvent, type Dispatch, type SetStateAction } from 'react';
 import {
   ReactFlow,
   Controls,
@@ -19,8 +19,19 @@ import {
   MarkerType, // Import MarkerType for defining markers
 } from '@xyflow/react';
 import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { MagicWand } from '@phosphor-icons/react';
 import { CustomNode } from './CustomNode';
+import { RemotePresenceLayer } from './RemotePresenceLayer';
+import { CommentLayer } from './CommentBadge';
 import type { StencilData, InfrastructureStencilData, ProcessStencilData } from '@/services/stencilService';
+import { componentToNode, connectionToEdge, edgeToConnection, getBoundaryCrossings, getBoundaryGeometryKey, nodeToComponent } from '@/lib/diagram-utils';
+import { countKnownThreats, instantiateTemplate } from '@/lib/templates';
+import { getSchemaDefaults } from '@/lib/property-schema';
+import { TEMPLATE_DRAG_TYPE, type DiagramTemplate } from '@/types/template';
+import { applyAutoLayout, type LayoutAlgorithm } from '@/lib/diagram-layout';
+import type { CollaboratorPresence, CursorPosition } from '@/types/collaboration';
 
 const nodeTypes = {
   Server: CustomNode,
@@ -71,6 +82,10 @@ interface DiagramCanvasProps {
   onPaneClick: (event: ReactMouseEvent) => void;
   onSelectionChange: (params: SelectionChangedParams) => void;
   isSelectionModifierKeyPressed: boolean;
+  readOnly?: boolean; // E.g. while previewing a saved version, or for viewers
+  selectable?: boolean; // Whether elements can be selected, e.g. by viewers to comment on them; by default only when editable
+  collaborators?: CollaboratorPresence[]; // Other users editing the model live
+  onCursorMove?: (cursor: CursorPosition | null) => void;
 }
 
 export function DiagramCanvas({
@@ -85,21 +100,82 @@ export function DiagramCanvas({
   onPaneClick,
   onSelectionChange,
   isSelectionModifierKeyPressed,
+  readOnly = false,
+  selectable = !readOnly,
+  collaborators = [],
+  onCursorMove,
 }: DiagramCanvasProps) {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
-  const { screenToFlowPosition, getNodes: rfGetNodesFromHook, project } = useReactFlow();
+  const { screenToFlowPosition, getNodes: rfGetNodesFromHook, project, fitView } = useReactFlow();
   const { toast } = useToast();
 
+  // Highlight data flows that cross a trust boundary. Display only; the class is never saved.
+  // Crossings are only recomputed when the geometry changes, not on selection or property edits.
+  const boundaryGeometryKey = getBoundaryGeometryKey(nodes, edges);
+  const crossingIds = useMemo(
+    () => new Set(getBoundaryCrossings(nodes.map(nodeToComponent), edges.map(edgeToConnection)).map(c => c.connectionId)),
+    [boundaryGeometryKey] // Covers nodes and edges
+  );
+  const displayEdges = useMemo(() => {
+    if (crossingIds.size === 0) return edges;
+    return edges.map(edge => crossingIds.has(edge.id)
+      ? { ...edge, className: [edge.className, 'boundary-crossing'].filter(Boolean).join(' ') }
+      : edge
+    );
+  }, [edges, crossingIds]);
+
+  // Positions every node, keeping children inside the boundary they currently sit in
+  const handleAutoLayout = useCallback((algorithm: LayoutAlgorithm) => {
+    if (nodes.length === 0) {
+      toast({ title: 'Nothing to Lay Out', description: 'Add some components to the diagram first.' });
+      return;
+    }
+    const laidOut = applyAutoLayout(nodes.map(nodeToComponent), edges.map(edgeToConnection), algorithm);
+    setNodes(laidOut.map(component => componentToNode(component)));
+    window.requestAnimationFrame(() => fitView({ duration: 300 }));
+  }, [nodes, edges, setNodes, fitView, toast]);
+
   const onDragOver = useCallback((event: DragEvent) => {
     event.preventDefault();
     event.dataTransfer.dropEffect = 'move';
   }, []);
 
+  // Places a template's elements as a group, with its top-left corner at the drop position
+  const dropTemplate = useCallback((templateDataString: string, position: { x: number; y: number }) => {
+    let template: DiagramTemplate;
+    try {
+      template = JSON.parse(templateDataString);
+    } catch (e) {
+      toast({ title: "Error", description: "Invalid template data format on drop.", variant: "destructive"});
+      console.error("Failed to parse dropped template data:", e);
+      return;
+    }
+    const { components, connections } = instantiateTemplate(template, position);
+    // Boundaries first, so parents precede their children
+    const newNodes = [...components]
+      .sort((a, b) => Number(!!b.isBoundary) - Number(!!a.isBoundary))
+      .map(component => componentToNode(component, true));
+    setNodes(nds => nds.map(n => n.selected ? {...n, selected: false} : n).concat(newNodes));
+    setEdges(eds => eds.map(e => e.selected ? {...e, selected: false} : e).concat(connections.map(connection => connectionToEdge(connection, true))));
+
+    const threatCount = countKnownThreats(template);
+    toast({
+      title: 'Template Added',
+      description: `${template.name} added to the diagram${threatCount > 0 ? ` with ${threatCount} known threats` : ''}.`,
+    });
+  }, [setNodes, setEdges, toast]);
+
   const onDrop = useCallback(
     (event: DragEvent) => {
       event.preventDefault();
       if (!reactFlowWrapper.current) return;
 
+      const templateDataString = event.dataTransfer.getData(TEMPLATE_DRAG_TYPE);
+      if (templateDataString) {
+        dropTemplate(templateDataString, screenToFlowPosition({ x: event.clientX, y: event.clientY }));
+        return;
+      }
+
       const stencilDataString = event.dataTransfer.getData('application/reactflow');
       if (!stencilDataString) {
         return;
@@ -165,7 +241,7 @@ export function DiagramCanvas({
       const newNodeId = `${droppedStencil.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       const newNodeData: Record<string, any> = {
         label: droppedStencil.name,
-        properties: { ...(droppedStencil.properties || {}), name: droppedStencil.name },
+        properties: { ...getSchemaDefaults(droppedStencil.propertySchema), ...(droppedStencil.properties || {}), name: droppedStencil.name },
         iconName: nodeIconName,
         textColor: droppedStencil.textColor,
         resizable: nodeIsResizable,
@@ -205,28 +281,37 @@ export function DiagramCanvas({
 
       toast({ title: 'Element Added', description: `${newNode.data.label} added to the diagram.` });
     },
-    [screenToFlowPosition, setNodes, setEdges, toast, rfGetNodesFromHook, project]
+    [screenToFlowPosition, setNodes, setEdges, toast, rfGetNodesFromHook, project, dropTemplate]
   );
 
+  const handleMouseMove = useCallback((event: ReactMouseEvent) => {
+    onCursorMove?.(screenToFlowPosition({ x: event.clientX, y: event.clientY }));
+  }, [onCursorMove, screenToFlowPosition]);
+
   return (
-    <div className="h-full w-full absolute inset-0" ref={reactFlowWrapper}>
+    <div
+      className="h-full w-full absolute inset-0"
+      ref={reactFlowWrapper}
+      onMouseMove={onCursorMove ? handleMouseMove : undefined}
+      onMouseLeave={onCursorMove ? () => onCursorMove(null) : undefined}
+    >
       <ReactFlow
         nodes={nodes}
-        edges={edges}
+        edges={displayEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
-        onDrop={onDrop}
-        onDragOver={onDragOver}
+        onDrop={readOnly ? undefined : onDrop}
+        onDragOver={readOnly ? undefined : onDragOver}
         nodeTypes={nodeTypes}
         onViewportChange={onViewportChange}
         className="bg-background"
-        deleteKeyCode={['Backspace', 'Delete']}
+        deleteKeyCode={readOnly ? null : ['Backspace', 'Delete']}
         defaultEdgeOptions={defaultEdgeOptions} 
 
-        nodesDraggable={true}
-        nodesConnectable={true}
-        elementsSelectable={true}
+        nodesDraggable={!readOnly}
+        nodesConnectable={!readOnly}
+        elementsSelectable={selectable}
         nodeDragThreshold={1}
 
         elevateNodesOnSelect={true}
@@ -246,9 +331,45 @@ export function DiagramCanvas({
         {/* Manual <defs> block is removed. React Flow handles markers via defaultEdgeOptions. */}
         <Controls />
         <Background gap={16} />
+        <RemotePresenceLayer collaborators={collaborators} />
+        <CommentLayer />
+        {collaborators.length > 0 && (
+          <Panel position="bottom-right" className="flex gap-1">
+            {collaborators.map(collaborator => (
+              <span
+                key={collaborator.clientId}
+                className="rounded-full px-2 py-0.5 text-xs text-white shadow"
+                style={{ backgroundColor: collaborator.color }}
+                title={`${collaborator.displayName} is editing`}
+              >
+                {collaborator.displayName}
+              </span>
+            ))}
+          </Panel>
+        )}
         <Panel position="top-left" className="text-xs text-muted-foreground p-2 bg-card/80 rounded shadow">
           Drag components. Click to select. Ctrl/Cmd+Drag for multi-select.
         </Panel>
+        {!readOnly && (
+          <Panel position="top-right">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="bg-card/80 shadow">
+                  <MagicWand className="mr-2 h-4 w-4" />
+                  Auto-layout
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleAutoLayout('layered')}>
+                  Layered (left to right)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleAutoLayout('force')}>
+                  Force-directed
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </Panel>
+        )}
       </ReactFlow>
     </div>
   );
@@ -0,0 +1,98 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DownloadSimple, X } from '@phosphor-icons/react';
+import {
+  formatFieldName,
+  formatFieldValue,
+  hasModelChanges,
+  isLayoutOnlyChange,
+  renderModelDiffHtml,
+  type ElementChange,
+  type ModelDiff,
+} from '@/lib/model-diff';
+import { downloadFile } from '@/lib/utils';
+
+// Matches the diff colours on the canvas, see globals.css
+const STATUS_BADGE_CLASSES: Record<ElementChange['status'], string> = {
+  added: 'bg-green-500 hover:bg-green-500 text-white',
+  removed: 'bg-red-500 hover:bg-red-500 text-white',
+  changed: 'bg-amber-500 hover:bg-amber-500 text-white',
+};
+
+const statusLabel = (change: ElementChange): string => {
+  if (isLayoutOnlyChange(change)) return 'Moved';
+  return change.status.charAt(0).toUpperCase() + change.status.slice(1);
+};
+
+interface ModelDiffPanelProps {
+  modelName: string;
+  fromLabel: string;
+  toLabel: string;
+  diff: ModelDiff;
+  onClose: () => void;
+}
+
+export function ModelDiffPanel({ modelName, fromLabel, toLabel, diff, onClose }: ModelDiffPanelProps) {
+  const handleExport = () => {
+    const html = renderModelDiffHtml(diff, { modelName, fromLabel, toLabel });
+    const fileName = `${modelName.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'model'}-changes.html`;
+    downloadFile(html, fileName, 'text/html');
+  };
+
+  const renderSection = (title: string, changes: ElementChange[]) => changes.length > 0 && (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      <ul className="space-y-2">
+        {changes.map(change => (
+          <li key={change.id} className="rounded-md border p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium break-all">{change.name}</span>
+              <Badge className={STATUS_BADGE_CLASSES[change.status]}>{statusLabel(change)}</Badge>
+            </div>
+            {change.fieldChanges.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                {change.fieldChanges.map(fieldChange => (
+                  <li key={fieldChange.field} className="break-all">
+                    <span className="font-medium text-foreground">{formatFieldName(fieldChange.field)}</span>:{' '}
+                    <span className="line-through">{formatFieldValue(fieldChange.before)}</span>
+                    {' → '}
+                    <span>{formatFieldValue(fieldChange.after)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold">Comparing {fromLabel} → {toLabel}</h3>
+          <p className="text-xs text-muted-foreground">
+            {diff.components.length} component and {diff.connections.length} connection changes
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} aria-label="Close comparison">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <Button variant="outline" size="sm" className="w-full" onClick={handleExport}>
+        <DownloadSimple className="mr-2 h-4 w-4" /> Export Changes
+      </Button>
+      {!hasModelChanges(diff) ? (
+        <p className="text-sm text-muted-foreground">No components or connections changed.</p>
+      ) : (
+        <>
+          {renderSection('Components', diff.components)}
+          {renderSection('Connections', diff.connections)}
+        </>
+      )}
+    </div>
+  );
+}
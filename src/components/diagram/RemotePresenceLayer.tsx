@@ -0,0 +1,55 @@
+"use client";
+
+import { ViewportPortal, useNodes, useReactFlow } from '@xyflow/react';
+import { NavigationArrow } from '@phosphor-icons/react';
+import type { CollaboratorPresence } from '@/types/collaboration';
+
+interface RemotePresenceLayerProps {
+  collaborators: CollaboratorPresence[];
+}
+
+/**
+ * Draws the cursors and selections of other users editing the model. Rendered inside the
+ * viewport, so positions are in flow coordinates and follow panning and zooming.
+ */
+export function RemotePresenceLayer({ collaborators }: RemotePresenceLayerProps) {
+  const { getInternalNode } = useReactFlow();
+  useNodes(); // Re-render when nodes move, so selection outlines follow them
+
+  return (
+    <ViewportPortal>
+      {collaborators.flatMap(collaborator => collaborator.selectedIds.map(id => {
+        const node = getInternalNode(id);
+        if (!node) return null;
+        const { x, y } = node.internals.positionAbsolute;
+        return (
+          <div
+            key={`${collaborator.clientId}-${id}`}
+            className="absolute pointer-events-none rounded-md border-2"
+            style={{
+              transform: `translate(${x - 4}px, ${y - 4}px)`,
+              width: (node.measured.width ?? 0) + 8,
+              height: (node.measured.height ?? 0) + 8,
+              borderColor: collaborator.color,
+            }}
+          />
+        );
+      }))}
+      {collaborators.filter(collaborator => collaborator.cursor).map(collaborator => (
+        <div
+          key={collaborator.clientId}
+          className="absolute pointer-events-none z-50"
+          style={{ transform: `translate(${collaborator.cursor!.x}px, ${collaborator.cursor!.y}px)` }}
+        >
+          <NavigationArrow weight="fill" className="h-4 w-4 -scale-x-100" style={{ color: collaborator.color }} />
+          <span
+            className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-xs text-white shadow"
+            style={{ backgroundColor: collaborator.color }}
+          >
+            {collaborator.displayName}
+          </span>
+        </div>
+      ))}
+    </ViewportPortal>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from '@/contexts/AuthContext';
+import { Spinner, X, SealCheck, DownloadSimple, ChatText } from '@phosphor-icons/react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { downloadFile } from '@/lib/utils';
+import { REVIEW_ACTION_LABELS, getAvailableReviewSteps, verifyApprovalSnapshot, type ReviewStep } from '@/lib/review';
+import { getApprovalSnapshot } from '@/services/reviewService';
+import { REVIEW_STATE_LABELS, type ModelReview, type Reviewer, type ReviewState } from '@/types/review';
+import type { PublicProfile } from '@/types/user';
+
+const REVIEW_STATE_BADGE_CLASSES: Record<ReviewState, string> = {
+  draft: 'bg-secondary hover:bg-secondary text-secondary-foreground',
+  in_review: 'bg-blue-500 hover:bg-blue-500 text-white',
+  changes_requested: 'bg-amber-500 hover:bg-amber-500 text-white',
+  approved: 'bg-green-500 hover:bg-green-500 text-white',
+};
+
+export function ReviewStateBadge({ state }: { state: ReviewState }) {
+  return <Badge className={REVIEW_STATE_BADGE_CLASSES[state]}>{REVIEW_STATE_LABELS[state]}</Badge>;
+}
+
+const STEP_BUTTON_LABELS: Record<ReviewStep, string> = {
+  submitted: 'Submit for Review',
+  changes_requested: 'Request Changes',
+  approved: 'Approve',
+  reopened: 'Reopen',
+};
+
+interface ReviewPanelProps {
+  modelId: string | null; // Reviews start with the first save
+  modelName: string;
+  review: ModelReview;
+  currentRevision?: number;
+  hasUnsavedChanges: boolean; // Approval freezes the saved model, so it must not have pending changes
+  canEdit: boolean;
+  canManageReviewers: boolean;
+  candidates: PublicProfile[]; // People the model is shared with who can be assigned as reviewers
+  onSetReviewers: (reviewers: Reviewer[]) => Promise<void>;
+  onReviewStep: (step: ReviewStep, comment: string) => Promise<void>;
+  onComment: (comment: string) => Promise<void>;
+}
+
+export function ReviewPanel({
+  modelId,
+  modelName,
+  review,
+  currentRevision,
+  hasUnsavedChanges,
+  canEdit,
+  canManageReviewers,
+  candidates,
+  onSetReviewers,
+  onReviewStep,
+  onComment,
+}: ReviewPanelProps) {
+  const { toast } = useToast();
+  const { currentUser } = useAuth();
+  const [reviewerToAdd, setReviewerToAdd] = useState("");
+  const [comment, setComment] = useState("");
+  const [pendingAction, setPendingAction] = useState<ReviewStep | 'comment' | 'reviewers' | 'snapshot' | null>(null);
+
+  if (!modelId) {
+    return <p className="text-sm text-muted-foreground">Save the model to start its review.</p>;
+  }
+
+  const isReviewer = !!currentUser && review.reviewers.some(reviewer => reviewer.uid === currentUser.uid);
+  const steps = getAvailableReviewSteps(review, { canEdit, isReviewer });
+  const availableUsers = candidates.filter(candidate => !review.reviewers.some(reviewer => reviewer.uid === candidate.uid));
+
+  const runAction = async (action: NonNullable<typeof pendingAction>, run: () => Promise<void>) => {
+    setPendingAction(action);
+    try {
+      await run();
+    } catch {
+      // Reported by the handler
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleAddReviewer = () => {
+    const user = candidates.find(candidate => candidate.uid === reviewerToAdd);
+    if (!user) return;
+    runAction('reviewers', async () => {
+      await onSetReviewers([...review.reviewers, { uid: user.uid, email: user.email, ...(user.displayName && { displayName: user.displayName }) }]);
+      setReviewerToAdd("");
+    });
+  };
+
+  const handleStep = (step: ReviewStep) => runAction(step, async () => {
+    await onReviewStep(step, comment);
+    setComment("");
+  });
+
+  const handleComment = () => runAction('comment', async () => {
+    await onComment(comment);
+    setComment("");
+  });
+
+  const loadApprovalSnapshot = async () => {
+    const snapshot = review.approval ? await getApprovalSnapshot(modelId, review.approval.snapshotId) : null;
+    if (!snapshot) throw new Error('The approval snapshot was not found.');
+    return snapshot;
+  };
+
+  const handleVerify = () => runAction('snapshot', async () => {
+    try {
+      const valid = await verifyApprovalSnapshot(await loadApprovalSnapshot());
+      toast(valid
+        ? { title: 'Snapshot Unchanged', description: 'The approval snapshot matches its content digest.' }
+        : { title: 'Snapshot Changed', description: 'The approval snapshot does not match its content digest.', variant: 'destructive' });
+    } catch (err) {
+      toast({ title: 'Error', description: err instanceof Error ? err.message : 'Could not verify the approval.', variant: 'destructive' });
+    }
+  });
+
+  const handleDownload = () => runAction('snapshot', async () => {
+    try {
+      const snapshot = await loadApprovalSnapshot();
+      const fileName = `${modelName.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'model'}-approval-r${snapshot.revision}.json`;
+      downloadFile(JSON.stringify(snapshot, null, 2), fileName, 'application/json');
+    } catch (err) {
+      toast({ title: 'Error', description: err instanceof Error ? err.message : 'Could not download the approval.', variant: 'destructive' });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">Status</span>
+          <ReviewStateBadge state={review.state} />
+        </div>
+        {review.approval && (
+          <div className="space-y-2 rounded-md border p-3 text-xs">
+            <p>
+              {review.state === 'approved' ? 'Approved' : 'Last approved'} by {review.approval.approvedByName} on{' '}
+              {format(review.approval.approvedDate, 'PPp')} (revision {review.approval.revision})
+            </p>
+            <p className="font-mono text-muted-foreground break-all" title="SHA-256 content digest of the approval snapshot">
+              {review.approval.contentDigest}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleVerify} disabled={pendingAction === 'snapshot'}>
+                <SealCheck className="mr-1 h-4 w-4" /> Verify
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleDownload} disabled={pendingAction === 'snapshot'}>
+                <DownloadSimple className="mr-1 h-4 w-4" /> Snapshot
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Reviewers</p>
+        {review.reviewers.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No reviewers assigned yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {review.reviewers.map(reviewer => (
+              <li key={reviewer.uid} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate" title={reviewer.email}>{reviewer.displayName || reviewer.email}</span>
+                {canManageReviewers && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => runAction('reviewers', () => onSetReviewers(review.reviewers.filter(r => r.uid !== reviewer.uid)))}
+                    disabled={pendingAction === 'reviewers'}
+                    title="Remove reviewer"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {canManageReviewers && (
+          <div className="flex gap-2">
+            <Select value={reviewerToAdd} onValueChange={setReviewerToAdd}>
+              <SelectTrigger aria-label="Reviewer to add"><SelectValue placeholder="Add reviewer..." /></SelectTrigger>
+              <SelectContent>
+                {availableUsers.map(user => (
+                  <SelectItem key={user.uid} value={user.uid}>{user.displayName || user.email}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handleAddReviewer} disabled={!reviewerToAdd || pendingAction === 'reviewers'}>
+              Add
+            </Button>
+          </div>
+        )}
+        {canManageReviewers && (
+          <p className="text-xs text-muted-foreground">
+            Reviewers are picked from the people the model and its workspace are shared with, once they have signed in with a verified email.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={3}
+          placeholder={steps.includes('approved') ? 'Review comments' : 'Add a comment'}
+          aria-label="Review comment"
+        />
+        {steps.includes('approved') && hasUnsavedChanges && (
+          <p className="text-xs text-muted-foreground">Save or discard your changes before approving; approval freezes the saved model.</p>
+        )}
+        {steps.includes('submitted') && review.reviewers.length === 0 && (
+          <p className="text-xs text-muted-foreground">Assign a reviewer to submit the model for review.</p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {steps.map(step => (
+            <Button
+              key={step}
+              size="sm"
+              variant={step === 'approved' || step === 'submitted' ? 'default' : 'outline'}
+              onClick={() => handleStep(step)}
+              disabled={!!pendingAction || (step === 'approved' && hasUnsavedChanges) || (step === 'changes_requested' && !comment.trim())}
+            >
+              {pendingAction === step && <Spinner className="mr-2 h-4 w-4 animate-spin" />}
+              {STEP_BUTTON_LABELS[step]}
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={handleComment} disabled={!!pendingAction || !comment.trim()}>
+            <ChatText className="mr-1 h-4 w-4" /> Comment
+          </Button>
+        </div>
+      </div>
+
+      {review.comments.length > 0 && (
+        <ul className="space-y-2">
+          {[...review.comments].reverse().map(entry => (
+            <li key={entry.id} className="rounded-md border p-3 text-sm">
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{entry.authorName}</span>
+                {entry.action !== 'comment' && ` ${REVIEW_ACTION_LABELS[entry.action]}`}
+                {entry.revision !== undefined && ` · revision ${entry.revision}`}
+                {` · ${formatDistanceToNow(entry.createdDate, { addSuffix: true })}`}
+              </p>
+              {entry.text && <p className="mt-1 whitespace-pre-wrap">{entry.text}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -6,10 +6,29 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { 
     Spinner, 
     Warning, 
-    Question as QuestionIcon 
+    Question as QuestionIcon,
+    Stack,
+    ShieldWarning,
+    Trash,
 } from "@phosphor-icons/react"; // Corrected import
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { useProjectContext } from "@/contexts/ProjectContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { getStencils, type StencilData } from "@/services/stencilService";
+import { deleteTemplate, getTemplates } from "@/services/templateService";
+import { getUserWorkspaces } from "@/services/workspaceService";
+import { countKnownThreats } from "@/lib/templates";
+import { TEMPLATE_DRAG_TYPE, type DiagramTemplate } from "@/types/template";
 import { useToast } from "@/hooks/use-toast";
 import DynamicPhosphorIcon from '@/components/ui/DynamicPhosphorIcon'; // Updated import
 
@@ -43,10 +62,74 @@ const DraggableComponent = ({ stencil }: DraggableComponentProps) => {
   );
 };
 
+interface DraggableTemplateProps {
+  template: DiagramTemplate;
+  canDelete: boolean;
+  onDelete: (template: DiagramTemplate) => void;
+}
+
+const DraggableTemplate = ({ template, canDelete, onDelete }: DraggableTemplateProps) => {
+  const threatCount = countKnownThreats(template);
+
+  const handleDragStart = (event: React.DragEvent<HTMLDivElement>) => {
+    event.dataTransfer.setData(TEMPLATE_DRAG_TYPE, JSON.stringify(template));
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  return (
+    <div
+      className="relative flex items-center gap-2 p-2 border rounded-lg shadow-sm cursor-grab bg-card hover:shadow-md transition-shadow active:cursor-grabbing group/template group-data-[collapsible=icon]:justify-center"
+      draggable
+      onDragStart={handleDragStart}
+      title={template.description || template.name}
+    >
+      <Stack className="w-5 h-5 shrink-0 text-card-foreground" />
+      <div className="min-w-0 flex-1 group-data-[collapsible=icon]:hidden">
+        <p className="text-xs font-medium text-card-foreground truncate">{template.name}</p>
+        <p className="text-[11px] text-muted-foreground truncate">
+          {template.components.length} components
+          {threatCount > 0 && (
+            <span className="inline-flex items-center gap-0.5 ml-1">
+              <ShieldWarning className="w-3 h-3" />{threatCount}
+            </span>
+          )}
+          {template.workspaceId && ' · Shared'}
+        </p>
+      </div>
+      {canDelete && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <button
+              type="button"
+              className="opacity-0 group-hover/template:opacity-100 text-muted-foreground hover:text-destructive transition-opacity group-data-[collapsible=icon]:hidden"
+              title="Delete template"
+            >
+              <Trash className="w-4 h-4" />
+            </button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete template &apos;{template.name}&apos;?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The template is removed from the library{template.workspaceId ? ' for everyone in the workspace' : ''}. Diagrams it was used in are not changed.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => onDelete(template)} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+};
 
 export function SidebarComponentLibrary() {
-  const { modelType } = useProjectContext();
+  const { modelType, templatesVersion, refreshTemplates } = useProjectContext();
+  const { currentUser } = useAuth();
   const [stencils, setStencils] = useState<StencilData[]>([]);
+  const [templates, setTemplates] = useState<DiagramTemplate[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
@@ -70,36 +153,66 @@ export function SidebarComponentLibrary() {
     fetchStencilsForType();
   }, [modelType, toast]);
 
+  // Templates are secondary, so failing to load them only leaves their section empty
+  useEffect(() => {
+    if (!currentUser) {
+      setTemplates([]);
+      return;
+    }
+    let cancelled = false;
+    getUserWorkspaces(currentUser.email, currentUser.emailVerified)
+      .then(workspaces => getTemplates(currentUser.uid, modelType, workspaces.map(workspace => workspace.id)))
+      .then(fetchedTemplates => { if (!cancelled) setTemplates(fetchedTemplates); })
+      .catch(err => console.error(`Error fetching ${modelType} templates for library:`, err));
+    return () => { cancelled = true; };
+  }, [currentUser, modelType, templatesVersion]);
+
+  const handleDeleteTemplate = async (template: DiagramTemplate) => {
+    try {
+      await deleteTemplate(template.id);
+      refreshTemplates();
+      toast({ title: "Template Deleted", description: `'${template.name}' was removed from the library.` });
+    } catch (err) {
+      console.error("Error deleting template:", err);
+      toast({ title: "Error", description: "Could not delete the template.", variant: "destructive" });
+    }
+  };
+
 
   const title = modelType === 'process' ? 'Process Stencils' : 'Infrastructure Stencils';
 
+  let stencilSection: React.ReactNode;
   if (isLoading) {
-    return (
-        <div className="flex flex-col items-center justify-center h-full p-4 text-sidebar-foreground/80">
+    stencilSection = (
+        <div className="flex flex-col items-center justify-center p-4 text-sidebar-foreground/80">
             <Spinner className="h-6 w-6 animate-spin mb-2" />
             <p className="text-sm">Loading {title}...</p>
         </div>
     );
-  }
-
-  if (error) {
-      return (
-        <div className="flex flex-col items-center justify-center h-full p-4 text-destructive">
+  } else if (error) {
+    stencilSection = (
+        <div className="flex flex-col items-center justify-center p-4 text-destructive">
             <Warning className="h-6 w-6 mb-2" /> 
             <p className="text-sm font-semibold">Error Loading Stencils</p>
             <p className="text-xs text-center">{error}</p>
         </div>
-      );
-  }
-
-  if (stencils.length === 0) {
-    return (
-        <div className="flex flex-col items-center justify-center h-full p-4 text-sidebar-foreground/70">
+    );
+  } else if (stencils.length === 0) {
+    stencilSection = (
+        <div className="flex flex-col items-center justify-center p-4 text-sidebar-foreground/70">
             <QuestionIcon className="h-8 w-8 mb-3" />
             <p className="text-sm text-center">No {title} available.</p>
             <p className="text-xs text-center mt-1">Please add some in Admin Panel.</p>
         </div>
     );
+  } else {
+    stencilSection = (
+        <div className="grid grid-cols-2 gap-2 group-data-[collapsible=icon]:grid-cols-1">
+          {stencils.map((stencil) => (
+            <DraggableComponent key={stencil.id} stencil={stencil} />
+          ))}
+        </div>
+    );
   }
 
 
@@ -107,11 +220,24 @@ export function SidebarComponentLibrary() {
     <ScrollArea className="h-full p-2">
        <div className="space-y-4">
          <h3 className="text-sm font-medium text-sidebar-foreground/80 px-2 group-data-[collapsible=icon]:hidden">{title}</h3>
-        <div className="grid grid-cols-2 gap-2 group-data-[collapsible=icon]:grid-cols-1">
-          {stencils.map((stencil) => (
-            <DraggableComponent key={stencil.id} stencil={stencil} />
-          ))}
-        </div>
+         {stencilSection}
+         <h3 className="text-sm font-medium text-sidebar-foreground/80 px-2 group-data-[collapsible=icon]:hidden">Templates</h3>
+         {templates.length === 0 ? (
+           <p className="text-xs text-sidebar-foreground/70 px-2 group-data-[collapsible=icon]:hidden">
+             Select components on the canvas and save them as a template to reuse them here.
+           </p>
+         ) : (
+           <div className="space-y-2">
+             {templates.map((template) => (
+               <DraggableTemplate
+                 key={template.id}
+                 template={template}
+                 canDelete={template.createdBy === currentUser?.uid}
+                 onDelete={handleDeleteTemplate}
+               />
+             ))}
+           </div>
+         )}
        </div>
     </ScrollArea>
   );
@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
 import type { Node, Edge } from '@xyflow/react'; 
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
@@ -9,8 +9,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from '@/hooks/use-toast';
-import { Trash, UsersThree } from '@phosphor-icons/react'; 
+import { Trash, UsersThree, CopySimple, Stack, ShieldWarning } from '@phosphor-icons/react'; 
 import { Checkbox } from '../ui/checkbox';
+import { getKnownThreats } from '@/lib/threat-utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getPropertyLabel, getStencilPropertySchema, normalizePropertyValue, validatePropertyValue } from '@/lib/property-schema';
+import type { PropertyDefinition, PropertyValue } from '@/types/stencil';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,6 +33,10 @@ interface SidebarPropertiesPanelProps {
   onDeleteElement: (elementId: string, isNode: boolean) => void; 
   multipleElementsSelected: boolean;
   onDeleteAllSelected: () => void;
+  onDuplicateSelected?: () => void;
+  onSaveAsTemplate?: () => void;
+  propertySchemas: ReadonlyMap<string, PropertyDefinition[]>; // By stencil ID
+  readOnly?: boolean; // For viewers, who may look at the properties but not change them
 }
 
 export function SidebarPropertiesPanel({
@@ -37,6 +45,10 @@ export function SidebarPropertiesPanel({
   onDeleteElement,
   multipleElementsSelected,
   onDeleteAllSelected,
+  onDuplicateSelected,
+  onSaveAsTemplate,
+  propertySchemas,
+  readOnly = false,
 }: SidebarPropertiesPanelProps) {
   const [localProperties, setLocalProperties] = useState<Record<string, any>>({});
   const { toast } = useToast();
@@ -121,7 +133,7 @@ export function SidebarPropertiesPanel({
   if (!selectedElement && !multipleElementsSelected) {
     return (
       <div className="flex items-center justify-center h-full text-muted-foreground p-4 text-center">
-        Select a component or connection on the canvas to view and edit its properties.
+        Select a component or connection on the canvas to view {readOnly ? '' : 'and edit '}its properties.
         <br/> (Ctrl/Cmd + Drag to select multiple)
       </div>
     );
@@ -134,28 +146,42 @@ export function SidebarPropertiesPanel({
                 <div className="flex flex-col items-center text-center">
                     <UsersThree size={32} className="mb-2 text-muted-foreground" />
                     <h3 className="text-lg font-semibold mb-1">Multiple Items Selected</h3>
-                    <p className="text-sm text-muted-foreground">Edit properties of individual items by selecting them one by one.</p>
+                    <p className="text-sm text-muted-foreground">{readOnly ? 'View' : 'Edit'} properties of individual items by selecting them one by one.</p>
                 </div>
-                 <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                        <Button variant="destructive" size="sm" className="w-full mt-4">
-                            <Trash className="mr-2 h-4 w-4" />
-                            Delete All Selected Items
-                        </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                        <AlertDialogHeader>
-                        <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                            This action cannot be undone. This will permanently delete all currently selected components and connections.
-                        </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction onClick={confirmDeleteElement} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">Delete All Selected</AlertDialogAction>
-                        </AlertDialogFooter>
-                    </AlertDialogContent>
-                </AlertDialog>
+                {onDuplicateSelected && (
+                    <Button variant="outline" size="sm" className="w-full mt-4" onClick={onDuplicateSelected}>
+                        <CopySimple className="mr-2 h-4 w-4" />
+                        Duplicate Selected Items
+                    </Button>
+                )}
+                {onSaveAsTemplate && (
+                    <Button variant="outline" size="sm" className="w-full mt-4" onClick={onSaveAsTemplate}>
+                        <Stack className="mr-2 h-4 w-4" />
+                        Save as Template
+                    </Button>
+                )}
+                {!readOnly && (
+                   <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                          <Button variant="destructive" size="sm" className="w-full mt-4">
+                              <Trash className="mr-2 h-4 w-4" />
+                              Delete All Selected Items
+                          </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                          <AlertDialogHeader>
+                          <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                              This action cannot be undone. This will permanently delete all currently selected components and connections.
+                          </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={confirmDeleteElement} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">Delete All Selected</AlertDialogAction>
+                          </AlertDialogFooter>
+                      </AlertDialogContent>
+                  </AlertDialog>
+                )}
             </div>
         </ScrollArea>
     );
@@ -173,6 +199,12 @@ export function SidebarPropertiesPanel({
     ? ((selectedElement as Node).data?.type || (selectedElement as Node).type || 'default') 
     : 'Data Flow';
   
+  const knownThreats = getKnownThreats(elementData.properties as Record<string, any> | undefined);
+
+  // Properties declared by the stencil get typed controls; the rest are edited as free text
+  const propertySchema = isNode ? getStencilPropertySchema(propertySchemas, elementData.stencilId as string | undefined) : [];
+  const schemaKeys = propertySchema.map(definition => definition.key);
+
   let elementName = localProperties.name || elementData.label || (elementData.properties?.name) ||elementType;
 
   let currentPropsToIterate = localProperties;
@@ -198,23 +230,25 @@ export function SidebarPropertiesPanel({
       <div className="space-y-6">
         <div>
           <h3 className="text-lg font-semibold mb-1">{isNode ? 'Component' : 'Connection'} Properties</h3>
-          <p className="text-sm text-muted-foreground">Edit details for '{elementName}' ({elementType})</p>
+          <p className="text-sm text-muted-foreground">{readOnly ? 'Details of' : 'Edit details for'} '{elementName}' ({elementType})</p>
         </div>
 
-        <div className="space-y-4">
+        {/* Disabling the fieldset disables every control in it */}
+        <fieldset disabled={readOnly} className="space-y-4">
           {Object.entries(currentPropsToIterate).map(([key, value]) => {
             const internalOrStructuralProps = [
                 'position', 'width', 'height', 'type', 'label', 
                 'resizable', 'minWidth', 'minHeight', 'parentNode', 
                 'selected', 'sourcePosition', 'targetPosition', 'dragging', 'extent',
                 'source', 'target', 'sourceHandle', 'targetHandle', 
-                'iconName', 'textColor', 'boundaryColor', 'isBoundary', 'stencilId', 
+                'iconName', 'textColor', 'boundaryColor', 'isBoundary', 'stencilId', 'knownThreats',
             ];
 
             if (internalOrStructuralProps.includes(key) && key !== 'name' && key !== 'description') { 
                  return null; 
             }
             if (key === 'isBiDirectional' && isNode) return null; 
+            if (schemaKeys.includes(key)) return null;
 
             const labelText = key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
 
@@ -280,43 +314,182 @@ export function SidebarPropertiesPanel({
                     'resizable', 'minWidth', 'minHeight', 'parentNode', 
                     'selected', 'sourcePosition', 'targetPosition', 'dragging', 'extent',
                     'source', 'target', 'sourceHandle', 'targetHandle',
-                    'iconName', 'textColor', 'boundaryColor', 'isBoundary', 'stencilId',
+                    'iconName', 'textColor', 'boundaryColor', 'isBoundary', 'stencilId', 'knownThreats',
                 ];
                 if (isNode && k === 'isBiDirectional') return false; 
+                if (schemaKeys.includes(k)) return false;
                 if (!internalOrStructuralProps.includes(k) || k === 'name' || k === 'description') return true;
                 return false;
-           }).length === 0 && (
+           }).length === 0 && propertySchema.length === 0 && (
                <p className="text-sm text-muted-foreground">No editable properties for this element.</p>
             )}
-        </div>
+           {propertySchema.map(definition => (
+               <SchemaPropertyField
+                   key={definition.key}
+                   definition={definition}
+                   value={localProperties[definition.key]}
+                   onEdit={(value) => setLocalProperties(prev => ({ ...prev, [definition.key]: value }))}
+                   onCommit={(value) => handleInputChange(definition.key, value)}
+               />
+           ))}
+        </fieldset>
          
-         <AlertDialog>
-             <AlertDialogTrigger asChild>
-                 <Button variant="destructive" size="sm" className="w-full mt-2">
-                     <Trash className="mr-2 h-4 w-4" />
-                     Delete {isNode ? 'Component' : 'Connection'}
-                 </Button>
-             </AlertDialogTrigger>
-             <AlertDialogContent>
-                 <AlertDialogHeader>
-                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                 <AlertDialogDescription>
-                     This action cannot be undone. This will permanently delete the {isNode ? 'component' : 'connection'} '{elementName}'
-                     and remove its data from the diagram.
-                 </AlertDialogDescription>
-                 </AlertDialogHeader>
-                 <AlertDialogFooter>
-                 <AlertDialogCancel>Cancel</AlertDialogCancel>
-                 <AlertDialogAction onClick={confirmDeleteElement} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">Delete</AlertDialogAction>
-                 </AlertDialogFooter>
-             </AlertDialogContent>
-         </AlertDialog>
+         {knownThreats.length > 0 && (
+             <div className="space-y-2">
+                 <Label>Known Threats</Label>
+                 <ul className="space-y-1">
+                     {knownThreats.map((threat, index) => (
+                         <li key={index} className="rounded-md border p-2 text-sm">
+                             <p className="flex items-center gap-1 font-medium"><ShieldWarning className="h-4 w-4 shrink-0" />{threat.title}</p>
+                             <p className="text-xs text-muted-foreground">{threat.category} · Likelihood {threat.likelihood}, Impact {threat.impact}</p>
+                             {threat.mitigation && <p className="text-xs mt-1">Mitigation: {threat.mitigation}</p>}
+                         </li>
+                     ))}
+                 </ul>
+                 <p className="text-xs text-muted-foreground">Included in every threat report of this model.</p>
+             </div>
+         )}
+
+         {isNode && onDuplicateSelected && (
+             <Button variant="outline" size="sm" className="w-full mt-2" onClick={onDuplicateSelected}>
+                 <CopySimple className="mr-2 h-4 w-4" />
+                 Duplicate Component
+             </Button>
+         )}
+         {isNode && onSaveAsTemplate && (
+             <Button variant="outline" size="sm" className="w-full mt-2" onClick={onSaveAsTemplate}>
+                 <Stack className="mr-2 h-4 w-4" />
+                 Save as Template
+             </Button>
+         )}
+         {!readOnly && (
+           <AlertDialog>
+               <AlertDialogTrigger asChild>
+                   <Button variant="destructive" size="sm" className="w-full mt-2">
+                       <Trash className="mr-2 h-4 w-4" />
+                       Delete {isNode ? 'Component' : 'Connection'}
+                   </Button>
+               </AlertDialogTrigger>
+               <AlertDialogContent>
+                   <AlertDialogHeader>
+                   <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                   <AlertDialogDescription>
+                       This action cannot be undone. This will permanently delete the {isNode ? 'component' : 'connection'} '{elementName}'
+                       and remove its data from the diagram.
+                   </AlertDialogDescription>
+                   </AlertDialogHeader>
+                   <AlertDialogFooter>
+                   <AlertDialogCancel>Cancel</AlertDialogCancel>
+                   <AlertDialogAction onClick={confirmDeleteElement} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">Delete</AlertDialogAction>
+                   </AlertDialogFooter>
+               </AlertDialogContent>
+           </AlertDialog>
+         )}
 
       </div>
     </ScrollArea>
   );
 }
 
+// "None" option of enum properties that are not required; Select items cannot have an empty value
+const NO_OPTION = '__none__';
+
+interface SchemaPropertyFieldProps {
+  definition: PropertyDefinition;
+  value: unknown;
+  onEdit: (value: string) => void; // While typing
+  onCommit: (value: PropertyValue | string) => void; // Values that cannot be normalized are kept, and shown as invalid
+}
+
+function SchemaPropertyField({ definition, value, onEdit, onCommit }: SchemaPropertyFieldProps) {
+  const id = `prop-${definition.key}`;
+  const normalized = normalizePropertyValue(definition, value);
+  const error = validatePropertyValue(definition, value);
+  const commitText = (text: string) => onCommit(normalizePropertyValue(definition, text) ?? text);
+
+  let control: ReactNode;
+  switch (definition.type) {
+    case 'boolean':
+      control = (
+        <div className="flex items-center space-x-2 mt-2">
+          <Checkbox id={id} checked={normalized === true} onCheckedChange={(checked) => onCommit(Boolean(checked))} />
+          <Label htmlFor={id} className="text-sm font-normal">{normalized === true ? 'Yes' : 'No'}</Label>
+        </div>
+      );
+      break;
+    case 'enum':
+      control = (
+        <Select
+          value={typeof normalized === 'string' ? normalized : ''}
+          onValueChange={(option) => onCommit(option === NO_OPTION ? null : option)}
+        >
+          <SelectTrigger id={id} className="text-sm">
+            <SelectValue placeholder={normalized === undefined ? String(value) : 'Select...'} />
+          </SelectTrigger>
+          <SelectContent>
+            {!definition.required && <SelectItem value={NO_OPTION}>None</SelectItem>}
+            {(definition.options || []).map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      );
+      break;
+    case 'multiSelect': {
+      const selected = Array.isArray(normalized) ? normalized : [];
+      control = (
+        <div className="space-y-1 mt-1">
+          {(definition.options || []).map(option => (
+            <div key={option} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${id}-${option}`}
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) => onCommit((definition.options || []).filter(candidate =>
+                  candidate === option ? checked === true : selected.includes(candidate)))}
+              />
+              <Label htmlFor={`${id}-${option}`} className="text-sm font-normal">{option}</Label>
+            </div>
+          ))}
+        </div>
+      );
+      break;
+    }
+    case 'date':
+      control = (
+        <Input
+          id={id}
+          type="date"
+          value={typeof normalized === 'string' ? normalized : ''}
+          onChange={(e) => onCommit(e.target.value || null)}
+          className="text-sm"
+        />
+      );
+      break;
+    default:
+      control = (
+        <Input
+          id={id}
+          type={definition.type === 'number' ? 'number' : 'text'}
+          value={String(value ?? '')}
+          onChange={(e) => onEdit(e.target.value)}
+          onBlur={(e) => commitText(e.target.value)}
+          className="text-sm"
+          placeholder={`Enter ${getPropertyLabel(definition)}...`}
+        />
+      );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>
+        {getPropertyLabel(definition)}
+        {definition.required && <span className="text-destructive"> *</span>}
+      </Label>
+      {control}
+      {definition.helpText && <p className="text-xs text-muted-foreground">{definition.helpText}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
 function debounce<F extends (...args: any[]) => any>(func: F, waitFor: number) {
   let timeout: ReturnType<typeof setTimeout> | null = null;
 
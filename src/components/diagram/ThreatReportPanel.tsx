@@ -1,34 +1,88 @@
 
 "use client";
 
-import { useState, type Dispatch, type SetStateAction, useEffect, useRef } from 'react';
+import { useState, type Dispatch, type SetStateAction, useEffect, useRef, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { generateThreatReport } from '@/ai/flows/generate-threat-report';
+import { generateRuleBasedThreatReport } from '@/lib/threat-engine';
 import { Spinner, Warning, ShieldCheck, Eye } from '@phosphor-icons/react'; // Corrected import
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import type { Diagram, ReportEntry } from '@/services/diagram';
+import type { Diagram, ReportEntry, ReportSource, ThreatDecisionMap } from '@/services/diagram';
+import type { Threat, ThreatDecision, ThreatStatus } from '@/types/threat';
+import { getEffectiveThreatStatus, getOrphanedThreatDecisions, getThreatRiskLevel, isThreatAcceptanceExpired, parseThreatId } from '@/lib/threat-utils';
+import { ThreatDecisionDialog } from '@/components/dialogs/ThreatDecisionDialog';
+import { useAuth } from '@/contexts/AuthContext';
 import { format } from 'date-fns';
+import type { ModelElements } from '@/lib/model-diff';
+
+const statusBadgeVariant = (status: ThreatStatus): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  switch (status) {
+    case 'Open': return 'destructive';
+    case 'Mitigated': return 'default';
+    case 'Accepted': return 'secondary';
+    default: return 'outline';
+  }
+};
 
 interface ThreatReportPanelProps {
   getCurrentDiagramData: () => Diagram | null;
+  elements: ModelElements; // The current diagram, for naming the elements of unmatched decisions
   setIsGenerating: Dispatch<SetStateAction<boolean>>;
   sessionReports: ReportEntry[];
   addSessionReport: (report: ReportEntry) => void;
+  threatDecisions: ThreatDecisionMap;
+  onUpdateThreatDecision: (decision: ThreatDecision) => void;
+  validationIssueCount?: number; // Findings of the diagram checks, shown before generating
+  onShowValidation?: () => void;
 }
 
 export function ThreatReportPanel({
     getCurrentDiagramData,
+    elements,
     setIsGenerating,
     sessionReports,
     addSessionReport,
+    threatDecisions,
+    onUpdateThreatDecision,
+    validationIssueCount = 0,
+    onShowValidation,
 }: ThreatReportPanelProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   const [html2pdf, setHtml2pdf] = useState<any>(null);
   const pdfRenderRef = useRef<HTMLDivElement>(null); // Ref for the hidden div
+  const { currentUser, userProfile } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<ThreatStatus | 'All'>('All');
+  const [activeThreat, setActiveThreat] = useState<Threat | null>(null);
+
+  // The threat register always reflects the most recent report; decisions are matched by threat ID.
+  const latestThreats = useMemo(
+    () => (sessionReports.length > 0 ? sessionReports[sessionReports.length - 1].threats || [] : []),
+    [sessionReports]
+  );
+  const filteredThreats = useMemo(
+    () => latestThreats.filter(threat =>
+      statusFilter === 'All' || getEffectiveThreatStatus(threat, threatDecisions[threat.id]) === statusFilter
+    ),
+    [latestThreats, threatDecisions, statusFilter]
+  );
+  // Decisions are kept when their threat is not found again, so they are listed rather than lost
+  const orphanedDecisions = useMemo(() => {
+    if (latestThreats.length === 0) return [];
+    const targets: { id: string; name?: string; label?: string; properties?: Record<string, any> }[] =
+      [...elements.components, ...elements.connections];
+    return getOrphanedThreatDecisions(latestThreats, threatDecisions).map(decision => {
+      const { targetId, category } = parseThreatId(decision.threatId);
+      const element = targets.find(candidate => candidate.id === targetId);
+      return { decision, category, targetName: element ? element.properties?.name || element.name || element.label || targetId : null };
+    });
+  }, [latestThreats, threatDecisions, elements]);
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -39,7 +93,8 @@ export function ThreatReportPanel({
   }, []);
 
 
-  const handleGenerateReport = async () => {
+  // 'rules' runs the deterministic STRIDE engine locally, without calling an AI provider.
+  const handleGenerateReport = async (engine: ReportSource) => {
     setIsLoading(true);
     setIsGenerating(true);
     setError(null);
@@ -62,17 +117,27 @@ export function ThreatReportPanel({
 
     toast({
       title: "Generating Report",
-      description: "AI is analyzing your current diagram...",
+      description: engine === 'rules' ? "Applying STRIDE rules to your current diagram..." : "AI is analyzing your current diagram...",
     });
 
     try {
-      const diagramJson = JSON.stringify(currentDiagram);
-
-      const result = await generateThreatReport({
-        diagramJson, 
-        modelName: modelNameForReport,
-        modelType: modelTypeForReport,
-      });
+      const result = engine === 'rules'
+        ? {
+            ...generateRuleBasedThreatReport({
+              ...currentDiagram.metadata,
+              modelName: modelNameForReport,
+              modelType: modelTypeForReport,
+              components: currentDiagram.components,
+              connections: currentDiagram.connections || [],
+            }),
+            generatedBy: 'rules' as const,
+          }
+        : await generateThreatReport({
+            diagramJson: JSON.stringify(currentDiagram),
+            ...currentDiagram.metadata,
+            modelName: modelNameForReport,
+            modelType: modelTypeForReport,
+          });
       
       if (!result || !result.report) {
         throw new Error("AI did not return a report string.");
@@ -82,13 +147,17 @@ export function ThreatReportPanel({
       const newReportEntry: ReportEntry = {
         reportName,
         reportData: result.report, 
+        threats: result.threats || [],
+        generatedBy: result.generatedBy,
         createdDate: new Date(),
       };
       addSessionReport(newReportEntry);
 
       toast({
         title: "Report Generated",
-        description: `Report "${reportName}" added to the list.`,
+        description: result.generatedBy === 'rules' && engine === 'ai'
+          ? `No AI provider is configured, so "${reportName}" was generated by the rule-based engine (${newReportEntry.threats.length} threats).`
+          : `Report "${reportName}" added to the list with ${newReportEntry.threats.length} threats.`,
         variant: "default",
       });
     } catch (err) {
@@ -186,7 +255,11 @@ export function ThreatReportPanel({
     <div className="space-y-4 h-full flex flex-col">
       <div className="flex justify-between items-center pt-1">
         <h3 className="text-lg font-semibold">Threat Reports</h3>
-        <Button onClick={handleGenerateReport} disabled={isLoading} size="sm">
+        <div className="flex gap-2">
+          <Button onClick={() => handleGenerateReport('rules')} disabled={isLoading} size="sm" variant="outline" title="Generate a reproducible report with the built-in STRIDE rules (no AI)">
+            Rule-Based
+          </Button>
+          <Button onClick={() => handleGenerateReport('ai')} disabled={isLoading} size="sm">
             {isLoading ? (
               <>
                 <Spinner className="mr-2 h-4 w-4 animate-spin" />
@@ -196,8 +269,21 @@ export function ThreatReportPanel({
               "Generate Report" 
             )}
           </Button>
+        </div>
       </div>
 
+      {validationIssueCount > 0 && (
+        <div className="flex items-center justify-between gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-sm">
+          <span className="flex items-center gap-1">
+            <Warning className="h-4 w-4 shrink-0 text-amber-500" />
+            The checks found {validationIssueCount} problem{validationIssueCount === 1 ? '' : 's'} in the diagram.
+          </span>
+          {onShowValidation && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={onShowValidation}>Review</Button>
+          )}
+        </div>
+      )}
+
       {error && (
         <Card className="border-destructive bg-destructive/10">
             <CardHeader className="pb-2">
@@ -224,26 +310,116 @@ export function ThreatReportPanel({
       )}
 
       {sessionReports.length > 0 && (
-        <ScrollArea className="flex-1 mt-2 border rounded-md bg-card">
-          <ul className="p-2 space-y-2">
-            {sessionReports.slice().reverse().map((report, index) => (
-              <li key={`${report.reportName}-${index}`} className="p-3 border rounded-md flex justify-between items-center bg-background hover:bg-secondary/30">
-                <div>
-                  <p className="font-medium">{report.reportName}</p>
+        <Tabs defaultValue="reports" className="flex flex-col flex-1 overflow-hidden">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="reports">Reports</TabsTrigger>
+            <TabsTrigger value="threats">Threats ({latestThreats.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="reports" className="flex-1 overflow-hidden mt-2">
+            <ScrollArea className="h-full border rounded-md bg-card">
+              <ul className="p-2 space-y-2">
+                {sessionReports.slice().reverse().map((report, index) => (
+                  <li key={`${report.reportName}-${index}`} className="p-3 border rounded-md flex justify-between items-center bg-background hover:bg-secondary/30">
+                    <div>
+                      <p className="font-medium">{report.reportName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Generated: {report.createdDate instanceof Date ? format(report.createdDate, 'PPpp') : String(report.createdDate)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Threats: {(report.threats || []).length}
+                        {report.generatedBy === 'rules' && ' · Rule-based'}
+                        {report.generatedBy === 'import' && ' · Imported'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="icon" onClick={() => handleViewInBrowser(report.reportData, report.reportName)} title="View in Browser">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="threats" className="flex-1 overflow-hidden mt-2 flex flex-col gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ThreatStatus | 'All')}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="All">All statuses</SelectItem>
+                <SelectItem value="Open">Open</SelectItem>
+                <SelectItem value="Mitigated">Mitigated</SelectItem>
+                <SelectItem value="Accepted">Accepted</SelectItem>
+                <SelectItem value="Not Applicable">Not Applicable</SelectItem>
+              </SelectContent>
+            </Select>
+            <ScrollArea className="flex-1 border rounded-md bg-card">
+              {filteredThreats.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground text-center">No threats match this filter.</p>
+              ) : (
+                <ul className="p-2 space-y-2">
+                  {filteredThreats.map(threat => {
+                    const decision = threatDecisions[threat.id];
+                    const effectiveStatus = getEffectiveThreatStatus(threat, decision);
+                    return (
+                      <li
+                        key={threat.id}
+                        className="p-3 border rounded-md bg-background hover:bg-secondary/30 cursor-pointer space-y-1"
+                        onClick={() => setActiveThreat(threat)}
+                      >
+                        <p className="font-medium text-sm">{threat.title}</p>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={statusBadgeVariant(effectiveStatus)}>{effectiveStatus}</Badge>
+                          <Badge variant="outline">{threat.category}</Badge>
+                          <Badge variant="outline">Risk: {getThreatRiskLevel(threat.likelihood, threat.impact)}</Badge>
+                        </div>
+                        {decision && isThreatAcceptanceExpired(decision) && (
+                          <p className="text-xs text-destructive">Risk acceptance expired.</p>
+                        )}
+                        {decision?.owner && (
+                          <p className="text-xs text-muted-foreground">Owner: {decision.owner}</p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {orphanedDecisions.length > 0 && (
+                <div className="p-2 space-y-2 border-t">
                   <p className="text-xs text-muted-foreground">
-                    Generated: {report.createdDate instanceof Date ? format(report.createdDate, 'PPpp') : String(report.createdDate)}
+                    {orphanedDecisions.length} decision{orphanedDecisions.length === 1 ? '' : 's'} no longer match{orphanedDecisions.length === 1 ? 'es' : ''} a
+                    threat of the latest report. Review them and record them again on the matching threat.
                   </p>
+                  <ul className="space-y-2">
+                    {orphanedDecisions.map(({ decision, category, targetName }) => (
+                      <li key={decision.threatId} className="p-3 border border-dashed rounded-md space-y-1">
+                        <p className="text-sm">{targetName ?? 'Removed element'}</p>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={statusBadgeVariant(decision.status)}>{decision.status}</Badge>
+                          {category && <Badge variant="outline">{category}</Badge>}
+                        </div>
+                        {decision.justification && <p className="text-xs text-muted-foreground">{decision.justification}</p>}
+                        {decision.updatedBy && (
+                          <p className="text-xs text-muted-foreground">Decided by {decision.updatedBy} on {format(decision.updatedDate, 'PP')}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-                <div className="flex gap-2">
-                  <Button variant="outline" size="icon" onClick={() => handleViewInBrowser(report.reportData, report.reportName)} title="View in Browser">
-                    <Eye className="h-4 w-4" />
-                  </Button>
-                </div>
-              </li>
-            ))}
-          </ul>
-        </ScrollArea>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
       )}
+      <ThreatDecisionDialog
+        isOpen={!!activeThreat}
+        onClose={() => setActiveThreat(null)}
+        threat={activeThreat}
+        decision={activeThreat ? threatDecisions[activeThreat.id] : undefined}
+        currentUserName={userProfile?.displayName || currentUser?.email || 'Unknown user'}
+        onSaveDecision={onUpdateThreatDecision}
+      />
       {/* Hidden div for html2pdf rendering */}
       <div ref={pdfRenderRef} style={{ position: 'absolute', left: '-9999px', top: '-9999px' }} />
     </div>
@@ -0,0 +1,57 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Warning, XCircle } from '@phosphor-icons/react';
+import { VALIDATION_RULE_LABELS, type ValidationFinding } from '@/lib/diagram-validation';
+
+interface ValidationPanelProps {
+  findings: ValidationFinding[];
+  onSelectFinding: (finding: ValidationFinding) => void;
+}
+
+export function ValidationPanel({ findings, onSelectFinding }: ValidationPanelProps) {
+  const errorCount = findings.filter(finding => finding.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  if (findings.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CheckCircle className="h-4 w-4 text-green-600" weight="fill" />
+        No problems found. The model is ready for a report.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {errorCount > 0 && `${errorCount} error${errorCount === 1 ? '' : 's'}`}
+        {errorCount > 0 && warningCount > 0 && ', '}
+        {warningCount > 0 && `${warningCount} warning${warningCount === 1 ? '' : 's'}`}
+        . Click a finding to select the element.
+      </p>
+      <ul className="space-y-2">
+        {findings.map(finding => (
+          <li key={finding.id}>
+            <button
+              type="button"
+              className="w-full rounded-md border p-2 text-left text-sm hover:bg-accent"
+              onClick={() => onSelectFinding(finding)}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1 font-medium">
+                  {finding.severity === 'error'
+                    ? <XCircle className="h-4 w-4 shrink-0 text-destructive" weight="fill" />
+                    : <Warning className="h-4 w-4 shrink-0 text-amber-500" weight="fill" />}
+                  {VALIDATION_RULE_LABELS[finding.rule]}
+                </span>
+                <Badge variant="outline">{finding.elementType === 'component' ? 'Component' : 'Data flow'}</Badge>
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground break-words">{finding.message}</p>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Spinner, Eye, ClockCounterClockwise, GitDiff } from '@phosphor-icons/react';
+import { formatDistanceToNow } from 'date-fns';
+import { getModelVersions, type ModelVersionInfo } from '@/services/diagram';
+
+interface VersionHistoryPanelProps {
+  modelId: string | null; // History starts with the first save
+  currentRevision?: number; // Reloads the list whenever the model is saved
+  previewVersionId: string | null;
+  canEdit: boolean;
+  onSaveVersion: (message: string) => Promise<void>;
+  onPreview: (version: ModelVersionInfo) => void;
+  onRestore: (version: ModelVersionInfo) => void;
+  onCompare: (from: ModelVersionInfo, to: ModelVersionInfo | null) => void; // A null `to` compares with the current diagram
+}
+
+const CURRENT_DIAGRAM = 'current';
+
+export function VersionHistoryPanel({
+  modelId,
+  currentRevision,
+  previewVersionId,
+  canEdit,
+  onSaveVersion,
+  onPreview,
+  onRestore,
+  onCompare,
+}: VersionHistoryPanelProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<ModelVersionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [compareFromId, setCompareFromId] = useState<string>("");
+  const [compareToId, setCompareToId] = useState<string>(CURRENT_DIAGRAM);
+
+  useEffect(() => {
+    if (!modelId) {
+      setVersions([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    getModelVersions(modelId)
+      .then(fetchedVersions => { if (!cancelled) setVersions(fetchedVersions); })
+      .catch(err => {
+        console.error("Error fetching versions:", err);
+        if (!cancelled) toast({ title: 'Error', description: 'Could not load the version history.', variant: 'destructive' });
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [modelId, currentRevision, toast]);
+
+  const handleSaveVersion = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveVersion(message);
+      setMessage("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCompare = () => {
+    const from = versions.find(version => version.id === compareFromId);
+    if (!from) return;
+    onCompare(from, versions.find(version => version.id === compareToId) ?? null);
+  };
+
+  if (!modelId) {
+    return <p className="text-sm text-muted-foreground">Save the model to start its version history.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <div className="space-y-2">
+          <Input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveVersion(); }}
+            placeholder="Describe your changes (optional)"
+            aria-label="Version message"
+          />
+          <Button size="sm" className="w-full" onClick={handleSaveVersion} disabled={isSaving}>
+            {isSaving && <Spinner className="mr-2 h-4 w-4 animate-spin" />}
+            Save Version
+          </Button>
+        </div>
+      )}
+      {versions.length > 0 && (
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="text-sm font-medium">Compare Versions</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={compareFromId} onValueChange={setCompareFromId}>
+              <SelectTrigger aria-label="Compare from"><SelectValue placeholder="From..." /></SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.id} value={version.id}>Revision {version.revision}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={compareToId} onValueChange={setCompareToId}>
+              <SelectTrigger aria-label="Compare to"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT_DIAGRAM}>Current diagram</SelectItem>
+                {versions.map(version => (
+                  <SelectItem key={version.id} value={version.id}>Revision {version.revision}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={handleCompare}
+            disabled={!compareFromId || compareFromId === compareToId}
+          >
+            <GitDiff className="mr-1 h-4 w-4" /> Compare
+          </Button>
+        </div>
+      )}
+      {isLoading && versions.length === 0 ? (
+        <div className="flex items-center justify-center text-sm text-muted-foreground py-4">
+          <Spinner className="mr-2 h-4 w-4 animate-spin" /> Loading history...
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No versions yet. Versions are recorded from the next save on.</p>
+      ) : (
+        <ul className="space-y-2">
+          {versions.map(version => (
+            <li
+              key={version.id}
+              className={`rounded-md border p-3 text-sm ${previewVersionId === version.id ? 'border-primary bg-accent' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">Revision {version.revision}</span>
+                {version.revision === currentRevision && <Badge variant="secondary">Current</Badge>}
+              </div>
+              {version.message && <p className="mt-1">{version.message}</p>}
+              <p className="mt-1 text-xs text-muted-foreground">
+                {version.authorName || 'Unknown author'}
+                {version.createdDate && ` · ${formatDistanceToNow(version.createdDate, { addSuffix: true })}`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {version.componentCount} components · {version.connectionCount} connections · {version.reportCount} reports
+              </p>
+              <div className="mt-2 flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => onPreview(version)}>
+                  <Eye className="mr-1 h-4 w-4" /> Preview
+                </Button>
+                {canEdit && version.revision !== currentRevision && (
+                  <Button variant="ghost" size="sm" onClick={() => onRestore(version)}>
+                    <ClockCounterClockwise className="mr-1 h-4 w-4" /> Restore
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
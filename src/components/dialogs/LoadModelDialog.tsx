@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState } from 'react';
+import { useRef, useState, type ChangeEvent } from 'react';
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -15,16 +15,31 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import type { SavedModelInfo } from '@/services/diagram'; // Assuming type is exported from diagram service
 import { formatDistanceToNow } from 'date-fns'; // For relative dates
+import { UploadSimple } from '@phosphor-icons/react';
+import { IMPORT_FILE_ACCEPT } from '@/lib/importers';
+import { Badge } from "@/components/ui/badge";
+import { COLLABORATOR_ROLE_LABELS } from '@/types/sharing';
 
 interface LoadModelDialogProps {
   isOpen: boolean;
   onClose: () => void;
   models: SavedModelInfo[];
   onLoadModel: (modelId: string) => void;
+  onImportFile: (file: File) => void;
 }
 
-export function LoadModelDialog({ isOpen, onClose, models, onLoadModel }: LoadModelDialogProps) {
+export function LoadModelDialog({ isOpen, onClose, models, onLoadModel, onImportFile }: LoadModelDialogProps) {
   const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (file) {
+      onImportFile(file);
+      onClose();
+    }
+  };
 
   const handleSelect = (modelId: string) => {
     setSelectedModelId(modelId);
@@ -43,7 +58,7 @@ export function LoadModelDialog({ isOpen, onClose, models, onLoadModel }: LoadMo
         <DialogHeader>
           <DialogTitle>Load Saved Threat Model</DialogTitle>
           <DialogDescription>
-            Select a model to load onto the canvas. Unsaved changes will be lost.
+            Select a model to load onto the canvas, or import one from a file (OWASP Threat Dragon JSON, Microsoft Threat Modeling Tool .tm7, Terraform plan JSON, or Kubernetes YAML manifests). Unsaved changes will be lost.
           </DialogDescription>
         </DialogHeader>
         <div className="py-4 max-h-[60vh]">
@@ -67,7 +82,12 @@ export function LoadModelDialog({ isOpen, onClose, models, onLoadModel }: LoadMo
                                     className="cursor-pointer"
                                     onClick={() => handleSelect(model.id)}
                                 >
-                                    <TableCell className="font-medium">{model.name}</TableCell>
+                                    <TableCell className="font-medium">
+                                        {model.name}
+                                        {model.role !== 'owner' && (
+                                            <Badge variant="secondary" className="ml-2">Shared · {COLLABORATOR_ROLE_LABELS[model.role]}</Badge>
+                                        )}
+                                    </TableCell>
                                     <TableCell>
                                         {model.modifiedDate
                                             ? formatDistanceToNow(model.modifiedDate, { addSuffix: true })
@@ -94,6 +114,17 @@ export function LoadModelDialog({ isOpen, onClose, models, onLoadModel }: LoadMo
             )}
         </div>
         <DialogFooter>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_FILE_ACCEPT}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="sm:mr-auto">
+            <UploadSimple className="mr-2 h-4 w-4" />
+            Import from File...
+          </Button>
           <Button variant="outline" onClick={onClose}>Cancel</Button>
           {/* Optionally keep the "Load Selected" button if direct button click isn't preferred */}
           {/* <Button onClick={handleLoad} disabled={!selectedModelId}>Load Selected</Button> */}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Spinner } from '@phosphor-icons/react';
+import { MODEL_METADATA_FIELDS, MODEL_METADATA_LABELS } from '@/lib/model-metadata';
+import type { ModelMetadata } from '@/services/diagram';
+
+const PLACEHOLDERS: Record<keyof ModelMetadata, string> = {
+  applicationDescription: 'What the application does, who uses it and which data it handles',
+  documentOwner: 'e.g., Jane Doe',
+  applicationVersion: 'e.g., 2.4.0',
+  participants: 'e.g., Jane Doe, John Smith',
+  reviewer: 'e.g., Security Team',
+};
+
+interface ModelSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  metadata: ModelMetadata;
+  canEdit: boolean;
+  onSaveMetadata: (metadata: ModelMetadata) => Promise<void>;
+}
+
+export function ModelSettingsDialog({ isOpen, onClose, metadata, canEdit, onSaveMetadata }: ModelSettingsDialogProps) {
+  const [values, setValues] = useState<ModelMetadata>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setValues(metadata);
+  }, [isOpen, metadata]);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveMetadata(values);
+      onClose();
+    } catch {
+      // Reported by onSaveMetadata; the dialog stays open so saving can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Model Settings</DialogTitle>
+          <DialogDescription>
+            These details appear in the Application Information section of every threat report.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {MODEL_METADATA_FIELDS.map(field => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`model-${field}`}>{MODEL_METADATA_LABELS[field]}</Label>
+              {field === 'applicationDescription' ? (
+                <Textarea
+                  id={`model-${field}`}
+                  value={values[field] || ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                  rows={4}
+                  placeholder={PLACEHOLDERS[field]}
+                  disabled={!canEdit}
+                />
+              ) : (
+                <Input
+                  id={`model-${field}`}
+                  value={values[field] || ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                  placeholder={PLACEHOLDERS[field]}
+                  disabled={!canEdit}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>{canEdit ? 'Cancel' : 'Close'}</Button>
+          {canEdit && (
+            <Button onClick={handleSubmit} disabled={isSaving}>
+              {isSaving && <Spinner className="mr-2 h-4 w-4 animate-spin" />}
+              Save Settings
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
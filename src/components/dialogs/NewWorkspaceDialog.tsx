@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from '@phosphor-icons/react';
+
+interface NewWorkspaceDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreateWorkspace: (name: string) => Promise<void>;
+}
+
+export function NewWorkspaceDialog({ isOpen, onClose, onCreateWorkspace }: NewWorkspaceDialogProps) {
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSubmit = async () => {
+    if (workspaceName.trim() === "") return;
+    setIsCreating(true);
+    try {
+      await onCreateWorkspace(workspaceName.trim());
+      setWorkspaceName("");
+      onClose();
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Create Workspace</DialogTitle>
+          <DialogDescription>
+            Workspaces let a team share models. You will be the workspace&apos;s first admin.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-4 items-center gap-4 py-4">
+          <Label htmlFor="workspace-name" className="text-right">
+            Name
+          </Label>
+          <Input
+            id="workspace-name"
+            value={workspaceName}
+            onChange={(e) => setWorkspaceName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+            className="col-span-3"
+            placeholder="e.g., Payments Team"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!workspaceName.trim() || isCreating}>
+            {isCreating && <Spinner className="mr-2 h-4 w-4 animate-spin" />}
+            Create Workspace
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
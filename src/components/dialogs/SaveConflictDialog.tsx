@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatDistanceToNow } from 'date-fns';
+import { formatFieldName, hasModelChanges, type ElementChangeStatus, type ModelDiff } from '@/lib/model-diff';
+
+// The diff is computed from the saved version to the user's version
+const STATUS_LABELS: Record<ElementChangeStatus, string> = {
+  added: 'Only in yours',
+  removed: 'Only in saved',
+  changed: 'Different',
+};
+
+const STATUS_VARIANTS: Record<ElementChangeStatus, 'default' | 'secondary' | 'outline'> = {
+  added: 'default',
+  removed: 'secondary',
+  changed: 'outline',
+};
+
+interface SaveConflictDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  modelName: string;
+  latestModifiedDate?: Date;
+  diff: ModelDiff; // From the latest saved version to the user's version
+  onReload: () => void;
+  onOverwrite: () => void;
+}
+
+export function SaveConflictDialog({
+  isOpen,
+  onClose,
+  modelName,
+  latestModifiedDate,
+  diff,
+  onReload,
+  onOverwrite,
+}: SaveConflictDialogProps) {
+  const [showDiff, setShowDiff] = useState(false);
+  const changes = [...diff.components, ...diff.connections];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>&quot;{modelName}&quot; Was Changed by Someone Else</DialogTitle>
+          <DialogDescription>
+            A newer version was saved {latestModifiedDate ? formatDistanceToNow(latestModifiedDate, { addSuffix: true }) : 'after you opened the model'}.
+            Reload to continue from the saved version and lose your unsaved changes, or overwrite it with your version.
+          </DialogDescription>
+        </DialogHeader>
+        {!hasModelChanges(diff) ? (
+          <p className="text-sm text-muted-foreground">
+            The components and connections are identical; only reports, threat decisions, the name or the model type differ.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <Button variant="link" className="h-auto p-0" onClick={() => setShowDiff(prev => !prev)}>
+              {showDiff ? 'Hide' : 'Show'} differences ({changes.length})
+            </Button>
+            {showDiff && (
+              <ScrollArea className="max-h-[40vh] border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Element</TableHead>
+                      <TableHead>Difference</TableHead>
+                      <TableHead>Fields</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map(change => (
+                      <TableRow key={`${change.kind}-${change.id}`}>
+                        <TableCell className="font-medium">
+                          {change.name}
+                          <span className="block text-xs text-muted-foreground capitalize">{change.kind}</span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[change.status]}>{STATUS_LABELS[change.status]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {change.fieldChanges.map(fieldChange => formatFieldName(fieldChange.field)).join(', ')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button variant="secondary" onClick={onReload}>Reload Saved Version</Button>
+          <Button variant="destructive" onClick={onOverwrite}>Overwrite</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
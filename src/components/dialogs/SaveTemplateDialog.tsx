@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Spinner, X } from '@phosphor-icons/react';
+import { useToast } from '@/hooks/use-toast';
+import { KNOWN_THREATS_PROPERTY, getKnownThreats } from '@/lib/threat-utils';
+import type { TemplateContent } from '@/lib/templates';
+import type { ModelType } from '@/services/diagram';
+import { STRIDE_CATEGORIES, type KnownThreat, type StrideCategory, type ThreatRating } from '@/types/threat';
+
+const THREAT_RATINGS: ThreatRating[] = ['Low', 'Medium', 'High'];
+
+interface ElementThreat extends KnownThreat {
+  elementId: string;
+}
+
+export interface TemplateDetails {
+  name: string;
+  description: string;
+  shareWithWorkspace: boolean;
+  content: TemplateContent; // The selected elements, with the known threats entered in the dialog
+}
+
+interface SaveTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  content: TemplateContent | null;
+  modelType: ModelType;
+  workspaceName?: string; // Set when the model belongs to a workspace the template can be shared with
+  onSaveTemplate: (details: TemplateDetails) => Promise<void>;
+}
+
+const EMPTY_THREAT: Omit<ElementThreat, 'elementId'> = {
+  title: '',
+  description: '',
+  category: 'Spoofing',
+  likelihood: 'Medium',
+  impact: 'Medium',
+  mitigation: '',
+};
+
+export function SaveTemplateDialog({ isOpen, onClose, content, modelType, workspaceName, onSaveTemplate }: SaveTemplateDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [shareWithWorkspace, setShareWithWorkspace] = useState(true);
+  const [threats, setThreats] = useState<ElementThreat[]>([]);
+  const [newThreat, setNewThreat] = useState<ElementThreat>({ ...EMPTY_THREAT, elementId: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const elements = content
+    ? [
+        ...content.components.filter(component => !component.isBoundary).map(component => ({
+          id: component.id,
+          label: component.properties.name || component.name || component.id,
+        })),
+        ...content.connections.map(connection => ({
+          id: connection.id,
+          label: connection.properties?.name || connection.label || 'Data Flow',
+        })),
+      ]
+    : [];
+
+  // Start from the threats the selected elements already carry
+  useEffect(() => {
+    if (!isOpen || !content) return;
+    setName("");
+    setDescription("");
+    setShareWithWorkspace(true);
+    setThreats([...content.components, ...content.connections].flatMap(element =>
+      getKnownThreats(element.properties).map(threat => ({ ...threat, elementId: element.id }))
+    ));
+    setNewThreat({ ...EMPTY_THREAT, elementId: '' });
+  }, [isOpen, content]);
+
+  if (!content) return null;
+
+  const elementLabel = (elementId: string) => elements.find(element => element.id === elementId)?.label || elementId;
+
+  const handleAddThreat = () => {
+    if (!newThreat.elementId || newThreat.title.trim() === "") {
+      toast({ title: "Threat Incomplete", description: "Choose an element and give the threat a title.", variant: "destructive" });
+      return;
+    }
+    setThreats(prev => [...prev, { ...newThreat, title: newThreat.title.trim() }]);
+    setNewThreat({ ...EMPTY_THREAT, elementId: newThreat.elementId });
+  };
+
+  const handleSubmit = async () => {
+    if (name.trim() === "") return;
+    const threatsFor = (elementId: string): KnownThreat[] =>
+      threats.filter(threat => threat.elementId === elementId).map(({ elementId: _elementId, ...threat }) => threat);
+    const withThreats = <T extends { id: string; properties?: Record<string, any> }>(element: T): T => {
+      const { [KNOWN_THREATS_PROPERTY]: _previous, ...properties } = element.properties || {};
+      const elementThreats = threatsFor(element.id);
+      return { ...element, properties: elementThreats.length > 0 ? { ...properties, [KNOWN_THREATS_PROPERTY]: elementThreats } : properties };
+    };
+    setIsSaving(true);
+    try {
+      await onSaveTemplate({
+        name: name.trim(),
+        description: description.trim(),
+        shareWithWorkspace: !!workspaceName && shareWithWorkspace,
+        content: { components: content.components.map(withThreats), connections: content.connections.map(withThreats) },
+      });
+      onClose();
+    } catch {
+      // Reported by onSaveTemplate; the dialog stays open so saving can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Saves the {content.components.length} selected components and {content.connections.length} connections to the
+            component library, so they can be dragged onto any {modelType} model.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Web Tier Behind WAF"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                placeholder="When to use this pattern (optional)"
+              />
+            </div>
+            {workspaceName && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="template-share"
+                  checked={shareWithWorkspace}
+                  onCheckedChange={(checked) => setShareWithWorkspace(Boolean(checked))}
+                />
+                <Label htmlFor="template-share" className="text-sm font-normal">
+                  Share with the members of {workspaceName}
+                </Label>
+              </div>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>Known Threats</Label>
+              <p className="text-xs text-muted-foreground">
+                Threats and mitigations written here come with the template and are included in every report of models that use it.
+              </p>
+              {threats.length > 0 && (
+                <ul className="space-y-1">
+                  {threats.map((threat, index) => (
+                    <li key={index} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium truncate">{threat.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {threat.category} · {elementLabel(threat.elementId)} · Likelihood {threat.likelihood}, Impact {threat.impact}
+                        </p>
+                        {threat.mitigation && <p className="text-xs mt-1">Mitigation: {threat.mitigation}</p>}
+                      </div>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setThreats(prev => prev.filter((_, i) => i !== index))} title="Remove threat">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                <Select value={newThreat.elementId} onValueChange={(value) => setNewThreat(prev => ({ ...prev, elementId: value }))}>
+                  <SelectTrigger aria-label="Element">
+                    <SelectValue placeholder="Element" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {elements.map(element => (
+                      <SelectItem key={element.id} value={element.id}>{element.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={newThreat.category} onValueChange={(value) => setNewThreat(prev => ({ ...prev, category: value as StrideCategory }))}>
+                  <SelectTrigger aria-label="STRIDE category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STRIDE_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-2"
+                  value={newThreat.title}
+                  onChange={(e) => setNewThreat(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="Threat title"
+                />
+                <Textarea
+                  className="col-span-2"
+                  value={newThreat.description}
+                  onChange={(e) => setNewThreat(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                  placeholder="Description"
+                />
+                <Textarea
+                  className="col-span-2"
+                  value={newThreat.mitigation}
+                  onChange={(e) => setNewThreat(prev => ({ ...prev, mitigation: e.target.value }))}
+                  rows={2}
+                  placeholder="Mitigation"
+                />
+                <Select value={newThreat.likelihood} onValueChange={(value) => setNewThreat(prev => ({ ...prev, likelihood: value as ThreatRating }))}>
+                  <SelectTrigger aria-label="Likelihood">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {THREAT_RATINGS.map(rating => (
+                      <SelectItem key={rating} value={rating}>Likelihood: {rating}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={newThreat.impact} onValueChange={(value) => setNewThreat(prev => ({ ...prev, impact: value as ThreatRating }))}>
+                  <SelectTrigger aria-label="Impact">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {THREAT_RATINGS.map(rating => (
+                      <SelectItem key={rating} value={rating}>Impact: {rating}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" className="col-span-2" onClick={handleAddThreat} disabled={elements.length === 0}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Threat
+                </Button>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!name.trim() || isSaving}>
+            {isSaving && <Spinner className="mr-2 h-4 w-4 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
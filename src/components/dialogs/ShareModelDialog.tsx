@@ -0,0 +1,187 @@
+
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash, Spinner } from '@phosphor-icons/react';
+import { useToast } from '@/hooks/use-toast';
+import { COLLABORATOR_ROLES, COLLABORATOR_ROLE_LABELS, type Collaborator, type CollaboratorRole } from '@/types/sharing';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ShareModelDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  modelName: string;
+  collaborators: Collaborator[];
+  canManage: boolean; // Only owners can change who has access
+  currentUserEmail?: string | null;
+  onShare: (email: string, role: CollaboratorRole) => Promise<void>;
+  onUnshare: (email: string) => Promise<void>;
+}
+
+export function ShareModelDialog({
+  isOpen,
+  onClose,
+  modelName,
+  collaborators,
+  canManage,
+  currentUserEmail,
+  onShare,
+  onUnshare,
+}: ShareModelDialogProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<CollaboratorRole>('viewer');
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null); // Collaborator currently being updated
+
+  const runUpdate = async (targetEmail: string, update: () => Promise<void>, successMessage: string) => {
+    setPendingEmail(targetEmail);
+    try {
+      await update();
+      toast({ title: 'Sharing Updated', description: successMessage });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Could not update sharing.';
+      toast({ title: 'Error Updating Sharing', description: errorMessage, variant: 'destructive' });
+    } finally {
+      setPendingEmail(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      toast({ title: 'Invalid Email', description: 'Enter the email address the collaborator signs in with.', variant: 'destructive' });
+      return;
+    }
+    if (currentUserEmail && normalizedEmail === currentUserEmail.toLowerCase()) {
+      toast({ title: 'Already Shared', description: 'You already have access to this model.' });
+      return;
+    }
+    await runUpdate(normalizedEmail, () => onShare(normalizedEmail, role), `Shared with ${normalizedEmail} as ${COLLABORATOR_ROLE_LABELS[role]}.`);
+    setEmail("");
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Share &quot;{modelName}&quot;</DialogTitle>
+          <DialogDescription>
+            Viewers can open the model, editors can also change and save it, and owners can additionally manage who has access.
+          </DialogDescription>
+        </DialogHeader>
+        {canManage && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="share-email">Email</Label>
+              <Input
+                id="share-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                placeholder="colleague@example.com"
+              />
+            </div>
+            <Select value={role} onValueChange={(value) => setRole(value as CollaboratorRole)}>
+              <SelectTrigger className="w-[120px]" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COLLABORATOR_ROLES.map(r => (
+                  <SelectItem key={r} value={r}>{COLLABORATOR_ROLE_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={!email.trim() || pendingEmail !== null}>Share</Button>
+          </div>
+        )}
+        <div className="py-2">
+          {collaborators.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">This model has not been shared with anyone yet.</p>
+          ) : (
+            <ScrollArea className="max-h-[40vh] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Collaborator</TableHead>
+                    <TableHead>Role</TableHead>
+                    {canManage && <TableHead className="text-right">Remove</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {collaborators.map(collaborator => (
+                    <TableRow key={collaborator.email}>
+                      <TableCell className="font-medium">
+                        {collaborator.email}
+                        {collaborator.addedBy && (
+                          <span className="block text-xs text-muted-foreground">Added by {collaborator.addedBy}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canManage ? (
+                          <Select
+                            value={collaborator.role}
+                            disabled={pendingEmail !== null}
+                            onValueChange={(value) => runUpdate(
+                              collaborator.email,
+                              () => onShare(collaborator.email, value as CollaboratorRole),
+                              `${collaborator.email} is now ${COLLABORATOR_ROLE_LABELS[value as CollaboratorRole]}.`
+                            )}
+                          >
+                            <SelectTrigger className="h-8 w-[110px]" aria-label={`Role of ${collaborator.email}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {COLLABORATOR_ROLES.map(r => (
+                                <SelectItem key={r} value={r}>{COLLABORATOR_ROLE_LABELS[r]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          COLLABORATOR_ROLE_LABELS[collaborator.role]
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={pendingEmail !== null}
+                            onClick={() => runUpdate(collaborator.email, () => onUnshare(collaborator.email), `Removed ${collaborator.email}.`)}
+                          >
+                            {pendingEmail === collaborator.email
+                              ? <Spinner className="h-4 w-4 animate-spin" />
+                              : <Trash className="h-4 w-4" />}
+                            <span className="sr-only">Remove {collaborator.email}</span>
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
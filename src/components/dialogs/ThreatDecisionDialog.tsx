@@ -0,0 +1,172 @@
+
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import type { Threat, ThreatDecision, ThreatStatus } from '@/types/threat';
+
+const THREAT_STATUSES: ThreatStatus[] = ['Open', 'Mitigated', 'Accepted', 'Not Applicable'];
+
+interface ThreatDecisionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  threat: Threat | null;
+  decision?: ThreatDecision;
+  currentUserName: string;
+  onSaveDecision: (decision: ThreatDecision) => void;
+}
+
+export function ThreatDecisionDialog({ isOpen, onClose, threat, decision, currentUserName, onSaveDecision }: ThreatDecisionDialogProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ThreatStatus>('Open');
+  const [justification, setJustification] = useState("");
+  const [expiresAt, setExpiresAt] = useState(""); // yyyy-MM-dd, as used by the date input
+  const [owner, setOwner] = useState("");
+  const [newComment, setNewComment] = useState("");
+
+  // Reset the form whenever a different threat is opened
+  useEffect(() => {
+    if (!threat) return;
+    setStatus(decision?.status || threat.status);
+    setJustification(decision?.justification || "");
+    setExpiresAt(decision?.expiresAt ? format(decision.expiresAt, 'yyyy-MM-dd') : "");
+    setOwner(decision?.owner || "");
+    setNewComment("");
+  }, [threat, decision, isOpen]);
+
+  if (!threat) return null;
+
+  const handleSubmit = () => {
+    if (status === 'Accepted' && justification.trim() === "") {
+      toast({ title: "Justification Required", description: "Please justify why this risk is accepted.", variant: "destructive" });
+      return;
+    }
+
+    const comments = [...(decision?.comments || [])];
+    if (newComment.trim() !== "") {
+      comments.push({
+        id: `comment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        author: currentUserName,
+        text: newComment.trim(),
+        createdDate: new Date(),
+      });
+    }
+
+    onSaveDecision({
+      threatId: threat.id,
+      status,
+      justification: justification.trim() || undefined,
+      expiresAt: status === 'Accepted' && expiresAt ? new Date(`${expiresAt}T23:59:59`) : undefined,
+      owner: owner.trim() || undefined,
+      comments,
+      updatedBy: currentUserName,
+      updatedDate: new Date(),
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>{threat.title}</DialogTitle>
+          <DialogDescription>
+            {threat.category} threat. Record the decision taken for this threat.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <p className="text-sm text-muted-foreground">{threat.description}</p>
+          {threat.mitigation && (
+            <p className="text-sm"><strong>Suggested mitigation:</strong> {threat.mitigation}</p>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="threat-status">Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ThreatStatus)}>
+              <SelectTrigger id="threat-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {THREAT_STATUSES.map(s => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {status === 'Accepted' && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="threat-justification">Justification</Label>
+                <Textarea
+                  id="threat-justification"
+                  value={justification}
+                  onChange={(e) => setJustification(e.target.value)}
+                  rows={3}
+                  placeholder="Why is this risk accepted?"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="threat-expiry">Acceptance Expires</Label>
+                <Input
+                  id="threat-expiry"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="threat-owner">Owner</Label>
+            <Input
+              id="threat-owner"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              placeholder="Who is responsible for this threat?"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Comments</Label>
+            {(decision?.comments || []).length > 0 && (
+              <ScrollArea className="max-h-32 border rounded-md">
+                <ul className="p-2 space-y-2">
+                  {(decision?.comments || []).map(comment => (
+                    <li key={comment.id} className="text-sm">
+                      <span className="font-medium">{comment.author}</span>{' '}
+                      <span className="text-xs text-muted-foreground">{format(comment.createdDate, 'PPp')}</span>
+                      <p>{comment.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+            <Textarea
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              rows={2}
+              placeholder="Add a comment..."
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit}>Save Decision</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash, Spinner } from '@phosphor-icons/react';
+import { useToast } from '@/hooks/use-toast';
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS, type Workspace, type WorkspaceRole } from '@/types/workspace';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface WorkspaceMembersDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workspace: Workspace;
+  canManage: boolean; // Only workspace admins can manage members
+  onSetMember: (email: string, role: WorkspaceRole) => Promise<void>;
+  onRemoveMember: (email: string) => Promise<void>;
+}
+
+export function WorkspaceMembersDialog({
+  isOpen,
+  onClose,
+  workspace,
+  canManage,
+  onSetMember,
+  onRemoveMember,
+}: WorkspaceMembersDialogProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>('member');
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null); // Member currently being updated
+
+  const adminCount = workspace.members.filter(member => member.role === 'admin').length;
+  // A workspace must always keep at least one admin who can manage it
+  const isLastAdmin = (memberEmail: string) =>
+    adminCount === 1 && workspace.members.some(member => member.email === memberEmail && member.role === 'admin');
+
+  const runUpdate = async (targetEmail: string, update: () => Promise<void>, successMessage: string) => {
+    setPendingEmail(targetEmail);
+    try {
+      await update();
+      toast({ title: 'Members Updated', description: successMessage });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Could not update workspace members.';
+      toast({ title: 'Error Updating Members', description: errorMessage, variant: 'destructive' });
+    } finally {
+      setPendingEmail(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      toast({ title: 'Invalid Email', description: 'Enter the email address the member signs in with.', variant: 'destructive' });
+      return;
+    }
+    if (isLastAdmin(normalizedEmail) && role !== 'admin') {
+      toast({ title: 'Admin Required', description: 'A workspace needs at least one admin.', variant: 'destructive' });
+      return;
+    }
+    await runUpdate(normalizedEmail, () => onSetMember(normalizedEmail, role), `Added ${normalizedEmail} as ${WORKSPACE_ROLE_LABELS[role]}.`);
+    setEmail("");
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>&quot;{workspace.name}&quot; Members</DialogTitle>
+          <DialogDescription>
+            Viewers can open the workspace&apos;s models, members can also create and edit them, and admins can manage all models and members.
+          </DialogDescription>
+        </DialogHeader>
+        {canManage && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="member-email">Email</Label>
+              <Input
+                id="member-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                placeholder="colleague@example.com"
+              />
+            </div>
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="w-[120px]" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKSPACE_ROLES.map(r => (
+                  <SelectItem key={r} value={r}>{WORKSPACE_ROLE_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={!email.trim() || pendingEmail !== null}>Add</Button>
+          </div>
+        )}
+        <div className="py-2">
+          <ScrollArea className="max-h-[40vh] border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  {canManage && <TableHead className="text-right">Remove</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {workspace.members.map(member => (
+                  <TableRow key={member.email}>
+                    <TableCell className="font-medium">{member.email}</TableCell>
+                    <TableCell>
+                      {canManage ? (
+                        <Select
+                          value={member.role}
+                          disabled={pendingEmail !== null || isLastAdmin(member.email)}
+                          onValueChange={(value) => runUpdate(
+                            member.email,
+                            () => onSetMember(member.email, value as WorkspaceRole),
+                            `${member.email} is now ${WORKSPACE_ROLE_LABELS[value as WorkspaceRole]}.`
+                          )}
+                        >
+                          <SelectTrigger className="h-8 w-[110px]" aria-label={`Role of ${member.email}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WORKSPACE_ROLES.map(r => (
+                              <SelectItem key={r} value={r}>{WORKSPACE_ROLE_LABELS[r]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        WORKSPACE_ROLE_LABELS[member.role]
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={pendingEmail !== null || isLastAdmin(member.email)}
+                          onClick={() => runUpdate(member.email, () => onRemoveMember(member.email), `Removed ${member.email}.`)}
+                        >
+                          {pendingEmail === member.email
+                            ? <Spinner className="h-4 w-4 animate-spin" />
+                            : <Trash className="h-4 w-4" />}
+                          <span className="sr-only">Remove {member.email}</span>
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
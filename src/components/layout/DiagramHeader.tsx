@@ -5,20 +5,40 @@ import React, { useState, useEffect, useCallback, type FocusEvent, type Keyboard
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { ShareNetwork, PlusCircle, FolderOpen, FloppyDisk, Spinner } from "@phosphor-icons/react";
-import { useToast } from "@/hooks/use-toast";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ShareNetwork, PlusCircle, FolderOpen, FloppyDisk, Spinner, DownloadSimple, UploadSimple, CloudCheck, CloudSlash, Circle, ArrowCounterClockwise, ArrowClockwise, GearSix, ChatCircleDots } from "@phosphor-icons/react";
 import { useProjectContext } from '@/contexts/ProjectContext';
+import { IMPORT_FILE_ACCEPT, type ExportFormat } from '@/lib/importers';
+import type { SaveStatus } from '@/hooks/use-autosave';
+
+const SAVE_STATUS_DETAILS: Record<SaveStatus, { label: string; description: string }> = {
+  saved: { label: 'Saved', description: 'All changes are saved' },
+  unsaved: { label: 'Unsaved changes', description: 'Saved models are saved automatically a few seconds after each change' },
+  saving: { label: 'Saving...', description: 'Saving your changes' },
+  offline: { label: 'Offline', description: 'Your changes are kept on this device and will be saved when the connection is back' },
+};
 
 interface DiagramHeaderProps {
   projectId: string;
   onNewModelClick: () => void;
   onSave: () => void;
   onLoad: () => void;
+  onExport: (format: ExportFormat) => void;
+  onImportFile: (file: File) => void;
+  onShare: () => void;
+  onOpenSettings?: () => void;
+  onOpenComments?: () => void;
+  unresolvedCommentCount?: number;
   isSaving: boolean;
+  saveStatus?: SaveStatus;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
 }
 
-export function DiagramHeader({ projectId, onNewModelClick, onSave, onLoad, isSaving }: DiagramHeaderProps) {
-  const { toast } = useToast();
+export function DiagramHeader({ projectId, onNewModelClick, onSave, onLoad, onExport, onImportFile, onShare, onOpenSettings, onOpenComments, unresolvedCommentCount = 0, isSaving, saveStatus, onUndo, onRedo, canUndo, canRedo }: DiagramHeaderProps) {
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { modelName, setModelName } = useProjectContext();
   const [currentInputName, setCurrentInputName] = useState(modelName);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -79,11 +99,10 @@ export function DiagramHeader({ projectId, onNewModelClick, onSave, onLoad, isSa
     }
   };
 
-  const handleShare = () => {
-    toast({
-      title: "Sharing Options",
-      description: "Sharing functionality not yet implemented.",
-    });
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (file) onImportFile(file);
   };
 
   return (
@@ -100,8 +119,44 @@ export function DiagramHeader({ projectId, onNewModelClick, onSave, onLoad, isSa
             aria-label="Diagram Name"
             placeholder="Untitled Model"
           />
+          {saveStatus && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap" aria-live="polite">
+                  {saveStatus === 'saved' && <CloudCheck className="h-4 w-4" />}
+                  {saveStatus === 'unsaved' && <Circle weight="fill" className="h-2 w-2 text-amber-500" />}
+                  {saveStatus === 'saving' && <Spinner className="h-4 w-4 animate-spin" />}
+                  {saveStatus === 'offline' && <CloudSlash className="h-4 w-4 text-destructive" />}
+                  {SAVE_STATUS_DETAILS[saveStatus].label}
+                </span>
+              </TooltipTrigger>
+              <TooltipContent>{SAVE_STATUS_DETAILS[saveStatus].description}</TooltipContent>
+            </Tooltip>
+          )}
         </div>
         <div className="flex items-center gap-2">
+          {onUndo && onRedo && (
+            <>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo}>
+                    <ArrowCounterClockwise className="h-4 w-4" />
+                    <span className="sr-only">Undo</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Undo (Ctrl+Z)</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" onClick={onRedo} disabled={!canRedo}>
+                    <ArrowClockwise className="h-4 w-4" />
+                    <span className="sr-only">Redo</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Redo (Ctrl+Shift+Z)</TooltipContent>
+              </Tooltip>
+            </>
+          )}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button variant="outline" size="sm" onClick={onNewModelClick}>
@@ -129,14 +184,78 @@ export function DiagramHeader({ projectId, onNewModelClick, onSave, onLoad, isSa
             </TooltipTrigger>
             <TooltipContent>Save the current threat model</TooltipContent>
           </Tooltip>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={IMPORT_FILE_ACCEPT}
+            className="hidden"
+            onChange={handleImportFileChange}
+          />
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                <UploadSimple className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Import a model from a file (model backup, Threat Dragon, .tm7, Terraform plan JSON or Kubernetes YAML)</TooltipContent>
+          </Tooltip>
+          <DropdownMenu>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <DownloadSimple className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+              </TooltipTrigger>
+              <TooltipContent>Export the current threat model to a file</TooltipContent>
+            </Tooltip>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export as</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => onExport('model-file')}>
+                Model File (JSON backup)
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => onExport('threat-dragon')}>
+                OWASP Threat Dragon (JSON)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {onOpenComments && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="outline" size="sm" onClick={onOpenComments}>
+                  <ChatCircleDots className="mr-2 h-4 w-4" />
+                  {unresolvedCommentCount}
+                  <span className="sr-only">Unresolved comments</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {unresolvedCommentCount === 1 ? '1 unresolved comment thread' : `${unresolvedCommentCount} unresolved comment threads`}
+              </TooltipContent>
+            </Tooltip>
+          )}
+          {onOpenSettings && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="outline" size="icon" onClick={onOpenSettings}>
+                  <GearSix className="h-4 w-4" />
+                  <span className="sr-only">Model Settings</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Description, owner, version and reviewers for reports</TooltipContent>
+            </Tooltip>
+          )}
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="outline" size="icon" onClick={handleShare}>
+              <Button variant="outline" size="icon" onClick={onShare}>
                 <ShareNetwork className="h-4 w-4" />
                 <span className="sr-only">Share</span>
               </Button>
             </TooltipTrigger>
-            <TooltipContent>Share</TooltipContent>
+            <TooltipContent>Share with collaborators</TooltipContent>
           </Tooltip>
         </div>
       </header>
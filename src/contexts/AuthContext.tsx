@@ -5,7 +5,7 @@ import type { ReactNode, Dispatch, SetStateAction } from 'react';
 import { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { onAuthStateChanged, type User as FirebaseUser, signOut as firebaseSignOut } from 'firebase/auth';
 import { auth, initializationError, ensureFirebaseInitialized, db } from '@/lib/firebase/firebase'; // Import db
-import { getUserProfile, createUserProfile } from '@/services/userService';
+import { getUserProfile, createUserProfile, publishPublicProfile } from '@/services/userService';
 import type { UserProfile } from '@/types/user';
 import { usePathname, useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast'; // Import useToast
@@ -83,6 +83,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             }
             setUserProfile(profile); // Set profile regardless of whether it was fetched or created
 
+            // Lets others who know the email assign this user as a reviewer or mention them
+            if (user.email && user.emailVerified) {
+              publishPublicProfile(user.uid, user.email, user.displayName)
+                .catch(err => console.error(`Error publishing public profile for ${user.uid}:`, err));
+            }
+
              // Admin area access check
              const isAdminUser = profile?.role === 'admin';
              if (pathname.startsWith('/admin') && !isAdminUser) {
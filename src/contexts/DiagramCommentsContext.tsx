@@ -0,0 +1,23 @@
+"use client";
+
+import { createContext, useContext } from 'react';
+import type { CommentThread } from '@/types/comment';
+
+export type CommentFocus = { elementId: string } | { threadId: string };
+
+interface DiagramCommentsContextType {
+  threads: CommentThread[];
+  unresolvedCounts: Map<string, number>; // Unresolved threads per element ID, shown as badges on the canvas
+  openComments: (focus: CommentFocus) => void;
+}
+
+// Canvas components read the comments from context, so they never become part of the node and edge data that is saved
+const DiagramCommentsContext = createContext<DiagramCommentsContextType>({
+  threads: [],
+  unresolvedCounts: new Map(),
+  openComments: () => {},
+});
+
+export const DiagramCommentsProvider = DiagramCommentsContext.Provider;
+
+export const useDiagramComments = () => useContext(DiagramCommentsContext);
@@ -3,7 +3,7 @@
 
 import type { ModelType } from '@/services/diagram';
 import type { Dispatch, ReactNode, SetStateAction } from 'react';
-import { createContext, useContext, useState } from 'react';
+import { createContext, useCallback, useContext, useState } from 'react';
 
 interface ProjectContextType {
   modelType: ModelType;
@@ -11,6 +11,8 @@ interface ProjectContextType {
   modelName: string;
   setModelName: Dispatch<SetStateAction<string>>;
   projectId: string; // Keep projectId here for context if needed elsewhere
+  templatesVersion: number; // Changes whenever templates were added or removed, so the library reloads them
+  refreshTemplates: () => void;
 }
 
 const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
@@ -23,12 +25,15 @@ export function ProjectProvider({ children, initialProjectId, initialModelName,
 }) {
   const [modelType, setModelType] = useState<ModelType>(initialModelType || 'infrastructure');
   const [modelName, setModelName] = useState<string>(initialModelName || 'Untitled Model');
+  const [templatesVersion, setTemplatesVersion] = useState(0);
+  const refreshTemplates = useCallback(() => setTemplatesVersion(version => version + 1), []);
   
   return (
     <ProjectContext.Provider value={{ 
         modelType, setModelType, 
         modelName, setModelName,
-        projectId: initialProjectId 
+        projectId: initialProjectId,
+        templatesVersion, refreshTemplates,
     }}>
       {children}
     </ProjectContext.Provider>
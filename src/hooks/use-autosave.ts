@@ -0,0 +1,260 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Viewport } from '@xyflow/react';
+import { ModelNotFoundError, saveThreatModel, SaveConflictError } from '@/services/diagram';
+import { deleteDraft, getDraft, getPendingDrafts, saveDraft, type ModelDraft } from '@/services/drafts';
+import { debounce } from '@/lib/diagram-utils';
+import { isSameModelContent, type ModelContent } from '@/lib/model-diff';
+
+const AUTOSAVE_DELAY_MS = 5000;
+const DRAFT_DELAY_MS = 500;
+const SYNC_RETRY_MS = 30000; // Retry interval for failed saves, in case Firestore is unreachable without the browser going offline
+
+export type SaveOutcome = 'saved' | 'conflict' | 'failed';
+
+export type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'offline';
+
+interface UseAutosaveOptions {
+  user: { uid: string; email: string | null; displayName: string | null } | null;
+  modelId: string | null; // Only saved models are autosaved; new models are kept as drafts until their first save
+  canEdit: boolean;
+  content: ModelContent;
+  savedContent: ModelContent | null; // Content as last loaded or saved; null while loading
+  viewport?: Viewport;
+  workspaceId?: string;
+  revision?: number; // Revision the unsaved changes are based on
+  isSaving: boolean;
+  isPaused: boolean; // E.g. while previewing a version or resolving a save conflict
+  save: () => Promise<SaveOutcome>;
+}
+
+const getIsOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Saves that fail like this fail again on every retry, e.g. once access to the model was revoked
+const isPermanentSaveError = (err: unknown): boolean =>
+  err instanceof ModelNotFoundError || ['permission-denied', 'not-found'].includes((err as { code?: string } | null)?.code ?? '');
+
+/**
+ * Saves changes to the open model shortly after they are made, and keeps unsaved changes in an
+ * IndexedDB draft (see `@/services/drafts`) so they survive closing the tab or going offline.
+ *
+ * Saves that fail are queued by marking their draft for syncing. They are retried when the browser
+ * comes back online, and drafts of other models are synced in the background. A draft found when
+ * opening a model is offered for recovery through `recoverableDraft`.
+ */
+export function useAutosave({
+  user,
+  modelId,
+  canEdit,
+  content,
+  savedContent,
+  viewport,
+  workspaceId,
+  revision,
+  isSaving,
+  isPaused,
+  save,
+}: UseAutosaveOptions) {
+  const [isOnline, setIsOnline] = useState(getIsOnline);
+  const [hasPendingSync, setHasPendingSync] = useState(false); // Any of the user's drafts is queued for syncing
+  const [lastSaveFailed, setLastSaveFailed] = useState(false);
+  const [recoverableDraft, setRecoverableDraft] = useState<ModelDraft | null>(null);
+  const [checkedDraftKey, setCheckedDraftKey] = useState<string | null>(null); // Drafts are only written once the stored one was checked
+
+  const isDirty = useMemo(
+    () => canEdit && !!savedContent && !isSameModelContent(content, savedContent),
+    [canEdit, content, savedContent]
+  );
+
+  const userId = user?.uid ?? null;
+  const draftKey = `${userId}:${modelId}`;
+  const isDraftChecked = checkedDraftKey === draftKey;
+
+  const autosaveRunningRef = useRef(false);
+  const lastDraftRef = useRef<{ modelId: string | null; content: ModelContent } | null>(null);
+  const latestRef = useRef({
+    user, modelId, canEdit, content, savedContent, viewport, workspaceId, revision,
+    isDirty, isPaused, isOnline, isDraftChecked, recoverableDraft, save,
+  });
+  latestRef.current = {
+    user, modelId, canEdit, content, savedContent, viewport, workspaceId, revision,
+    isDirty, isPaused, isOnline, isDraftChecked, recoverableDraft, save,
+  };
+
+  const writeDraft = useCallback(async (pendingSync: boolean) => {
+    const current = latestRef.current;
+    if (!current.user || !current.isDirty || !current.isDraftChecked || current.recoverableDraft) return;
+    lastDraftRef.current = { modelId: current.modelId, content: current.content };
+    await saveDraft({
+      ...current.content,
+      userId: current.user.uid,
+      modelId: current.modelId,
+      viewport: current.viewport,
+      workspaceId: current.workspaceId,
+      baseRevision: current.revision,
+      pendingSync,
+      updatedAt: new Date(),
+    });
+    if (pendingSync) setHasPendingSync(true);
+  }, []);
+
+  const debouncedWriteDraft = useMemo(
+    () => debounce(() => {
+      writeDraft(false).catch(err => console.error("Error saving draft:", err));
+    }, DRAFT_DELAY_MS),
+    [writeDraft]
+  );
+
+  const autosave = useCallback(async () => {
+    const current = latestRef.current;
+    if (!current.modelId || !current.canEdit || !current.isDirty || current.isPaused || current.recoverableDraft) return;
+    if (autosaveRunningRef.current) return;
+    autosaveRunningRef.current = true;
+    try {
+      // Offline saves would only fail; keep the changes queued until the connection is back
+      const outcome = current.isOnline ? await current.save() : 'failed';
+      setLastSaveFailed(outcome === 'failed');
+      if (outcome === 'failed') await writeDraft(true);
+    } catch (err) {
+      console.error("Error autosaving:", err);
+    } finally {
+      autosaveRunningRef.current = false;
+    }
+  }, [writeDraft]);
+
+  const debouncedAutosave = useMemo(() => debounce(autosave, AUTOSAVE_DELAY_MS), [autosave]);
+
+  // Saves the queued drafts of other models; the open model is synced by autosave
+  const syncPendingDrafts = useCallback(async () => {
+    const current = latestRef.current;
+    if (!current.user) return;
+    const drafts = await getPendingDrafts(current.user.uid);
+    for (const draft of drafts) {
+      if (!draft.modelId || draft.modelId === current.modelId) continue;
+      try {
+        await saveThreatModel(
+          draft.userId,
+          draft.modelId,
+          draft.name,
+          draft.modelType,
+          draft.components,
+          draft.connections,
+          draft.viewport,
+          draft.reports,
+          draft.threatDecisions,
+          draft.workspaceId,
+          {
+            expectedRevision: draft.baseRevision,
+            authorName: current.user.displayName || current.user.email || undefined,
+          }
+        );
+        await deleteDraft(draft.userId, draft.modelId);
+      } catch (err) {
+        if (err instanceof SaveConflictError) {
+          // Someone else saved the model in the meantime; the draft is offered for recovery when it is opened
+          await saveDraft({ ...draft, pendingSync: false });
+          continue;
+        }
+        // One failing draft must not hold up the others
+        console.error(`Error syncing queued save of model ${draft.modelId}:`, err);
+        // Kept as a draft, but no longer retried
+        if (isPermanentSaveError(err)) await saveDraft({ ...draft, pendingSync: false });
+      }
+    }
+    setHasPendingSync((await getPendingDrafts(current.user.uid)).length > 0);
+  }, []);
+
+  const syncNow = useCallback(() => {
+    if (!getIsOnline()) return;
+    autosave();
+    syncPendingDrafts().catch(err => console.error("Error syncing queued saves:", err));
+  }, [autosave, syncPendingDrafts]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  // Queued saves from an earlier session
+  useEffect(() => {
+    if (!userId) return;
+    getPendingDrafts(userId)
+      .then(drafts => { if (drafts.length > 0) setHasPendingSync(true); })
+      .catch(err => console.error("Error reading queued saves:", err));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!hasPendingSync) return;
+    syncNow();
+    const timer = setInterval(syncNow, SYNC_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [hasPendingSync, syncNow]);
+
+  // Looks for a draft of the model once it has loaded
+  const isLoaded = !!savedContent;
+  useEffect(() => {
+    setRecoverableDraft(null);
+    setCheckedDraftKey(null);
+    if (!userId || !isLoaded) return;
+    let cancelled = false;
+    getDraft(userId, modelId)
+      .then(async draft => {
+        if (cancelled) return;
+        const loadedContent = latestRef.current.savedContent;
+        if (draft && loadedContent && isSameModelContent(draft, loadedContent)) {
+          await deleteDraft(userId, modelId); // Saved after all, e.g. by a background sync
+        } else if (draft) {
+          setRecoverableDraft(draft);
+        }
+      })
+      .catch(err => console.error("Error reading draft:", err))
+      .finally(() => { if (!cancelled) setCheckedDraftKey(`${userId}:${modelId}`); });
+    return () => { cancelled = true; };
+  }, [userId, modelId, isLoaded]);
+
+  // Also runs when autosave is resumed, so changes made while it was paused are saved
+  useEffect(() => {
+    if (!isDirty || !isDraftChecked || isPaused || recoverableDraft) return;
+    debouncedWriteDraft();
+    debouncedAutosave();
+  }, [content, isDirty, isDraftChecked, isPaused, recoverableDraft, debouncedWriteDraft, debouncedAutosave]);
+
+  // Once the changes are saved, their draft is no longer needed. A draft of a new model is
+  // recognised by its content, since saving gives the model its ID.
+  useEffect(() => {
+    const lastDraft = lastDraftRef.current;
+    if (!isDirty) setLastSaveFailed(false);
+    if (!userId || isDirty || !savedContent || !lastDraft) return;
+    if (lastDraft.modelId !== modelId && !isSameModelContent(lastDraft.content, savedContent)) return;
+    lastDraftRef.current = null;
+    deleteDraft(userId, lastDraft.modelId)
+      .then(() => getPendingDrafts(userId))
+      .then(drafts => setHasPendingSync(drafts.length > 0))
+      .catch(err => console.error("Error removing draft:", err));
+  }, [userId, modelId, isDirty, savedContent]);
+
+  // Call after applying the recovered draft, or to keep the saved version and ignore the draft for now
+  const dismissDraft = useCallback(() => setRecoverableDraft(null), []);
+
+  const discardDraft = useCallback(async () => {
+    setRecoverableDraft(null);
+    if (userId) await deleteDraft(userId, modelId);
+  }, [userId, modelId]);
+
+  let status: SaveStatus = 'saved';
+  if (isSaving) status = 'saving';
+  else if (isDirty && (!isOnline || lastSaveFailed)) status = 'offline';
+  else if (isDirty) status = 'unsaved';
+
+  return { status, isDirty, recoverableDraft, dismissDraft, discardDraft };
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import { useCallback, useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
+import type { Node, Edge } from '@xyflow/react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PASTE_OFFSET,
+  createClipboardPayload,
+  parseClipboardPayload,
+  preparePaste,
+  serializeClipboardPayload,
+  type ClipboardPayload,
+} from '@/lib/clipboard';
+import { componentToNode, connectionToEdge, edgeToConnection, nodeToComponent } from '@/lib/diagram-utils';
+import { isEditableTarget } from '@/lib/utils';
+
+// Lets the browser handle copying text the user selected on the page
+const hasTextSelection = (): boolean => !!window.getSelection()?.toString();
+
+interface UseDiagramClipboardOptions {
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: Dispatch<SetStateAction<Node[]>>;
+  setEdges: Dispatch<SetStateAction<Edge[]>>;
+  enabled: boolean;
+}
+
+/**
+ * Copy (Ctrl+C), paste (Ctrl+V) and duplicate (Ctrl+D) of the selected components and connections.
+ *
+ * Copies go to the system clipboard as text (see `@/lib/clipboard`), so they can be pasted into
+ * other models and browser tabs. Pasted elements get new IDs and are offset from the originals.
+ */
+export function useDiagramClipboard({ nodes, edges, setNodes, setEdges, enabled }: UseDiagramClipboardOptions) {
+  const { toast } = useToast();
+  const latestRef = useRef({ nodes, edges, enabled });
+  latestRef.current = { nodes, edges, enabled };
+  const lastPasteRef = useRef<{ text: string; count: number } | null>(null); // Repeated pastes move further away
+
+  const createPayloadFromSelection = useCallback((): ClipboardPayload | null => {
+    const { nodes: currentNodes, edges: currentEdges } = latestRef.current;
+    const selectedIds = new Set([...currentNodes, ...currentEdges].filter(element => element.selected).map(element => element.id));
+    if (selectedIds.size === 0) return null;
+    return createClipboardPayload(currentNodes.map(node => nodeToComponent(node)), currentEdges.map(edge => edgeToConnection(edge)), selectedIds);
+  }, []);
+
+  const pastePayload = useCallback((payload: ClipboardPayload, text: string) => {
+    const count = lastPasteRef.current?.text === text ? lastPasteRef.current.count + 1 : 1;
+    lastPasteRef.current = { text, count };
+    const pasted = preparePaste(payload, { x: PASTE_OFFSET * count, y: PASTE_OFFSET * count });
+    // Boundaries first, so parents precede their children
+    const pastedNodes = [...pasted.components]
+      .sort((a, b) => Number(!!b.isBoundary) - Number(!!a.isBoundary))
+      .map(component => componentToNode(component, true));
+    setNodes(prev => prev.map(node => node.selected ? { ...node, selected: false } : node).concat(pastedNodes));
+    setEdges(prev => prev.map(edge => edge.selected ? { ...edge, selected: false } : edge)
+      .concat(pasted.connections.map(connection => connectionToEdge(connection, true))));
+    toast({
+      title: 'Pasted',
+      description: `Added ${pasted.components.length} components and ${pasted.connections.length} connections.`,
+    });
+  }, [setNodes, setEdges, toast]);
+
+  const duplicateSelection = useCallback(() => {
+    if (!enabled) return;
+    const payload = createPayloadFromSelection();
+    if (payload) pastePayload(payload, serializeClipboardPayload(payload));
+  }, [enabled, createPayloadFromSelection, pastePayload]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target) || hasTextSelection() || !event.clipboardData) return;
+      const payload = createPayloadFromSelection();
+      if (!payload) return;
+      const text = serializeClipboardPayload(payload);
+      event.clipboardData.setData('text/plain', text);
+      event.preventDefault();
+      lastPasteRef.current = { text, count: 0 };
+      toast({
+        title: 'Copied',
+        description: `Copied ${payload.components.length} components and ${payload.connections.length} connections.`,
+      });
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target) || !event.clipboardData) return;
+      const text = event.clipboardData.getData('text/plain');
+      const payload = parseClipboardPayload(text);
+      if (!payload) return;
+      event.preventDefault();
+      pastePayload(payload, text);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.altKey || event.key.toLowerCase() !== 'd') return;
+      if (isEditableTarget(event.target)) return;
+      event.preventDefault(); // Instead of bookmarking the page
+      duplicateSelection();
+    };
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled, createPayloadFromSelection, pastePayload, duplicateSelection, toast]);
+
+  return { duplicateSelection };
+}
@@ -0,0 +1,309 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Node, Edge } from '@xyflow/react';
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+import {
+  publishLiveElements,
+  removePresence,
+  subscribeToLiveElements,
+  subscribeToPresence,
+  updatePresence,
+  type LiveElementUpdate,
+} from '@/services/collaboration';
+import {
+  applyLocalChange,
+  createHybridClock,
+  isSameValue,
+  latestStamp,
+  materializeLiveElement,
+  mergeLiveElementStates,
+  type LiveElement,
+  type LiveElementKind,
+  type LiveElementState,
+} from '@/lib/crdt';
+import { applyComponentChanges, applyConnectionChanges, debounce, edgeToConnection, nodeToComponent } from '@/lib/diagram-utils';
+import type { CollaboratorPresence, CursorPosition } from '@/types/collaboration';
+
+const PUBLISH_DEBOUNCE_MS = 150;
+const CURSOR_THROTTLE_MS = 80;
+const PRESENCE_HEARTBEAT_MS = 15000;
+const PRESENCE_STALE_MS = 45000; // Presence of tabs that closed without cleaning up expires after missed heartbeats
+// Live elements cleared per save; the save transaction also writes the model and its version (500 writes at most)
+const MAX_CLEARED_LIVE_ELEMENTS = 400;
+
+const PRESENCE_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d'];
+
+const colorForUser = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+const createClientId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : Math.random().toString(36).slice(2);
+
+interface UseLiveCollaborationOptions {
+  modelId: string | null; // Live editing starts once the model has been saved
+  revision?: number; // Revision of the loaded or last saved model; older live state is already part of it
+  user: { uid: string; email: string | null; displayName: string | null } | null;
+  canEdit: boolean; // Viewers receive changes but never publish them
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: Dispatch<SetStateAction<Node[]>>;
+  setEdges: Dispatch<SetStateAction<Edge[]>>;
+  selectedIds: string[];
+}
+
+/**
+ * Keeps the diagram in sync with everyone else editing the same model, and shares the current
+ * user's cursor and selection with them.
+ *
+ * Elements are replicated through the `liveElements` subcollection of the model as per-field
+ * last-writer-wins registers (see `@/lib/crdt`), so concurrent edits merge without conflicts.
+ * Saving the model still writes the whole document; since every client holds the merged state,
+ * saves no longer discard each other's edits. Each save clears the live elements it includes (see
+ * getLiveElementIdsToClear) and re-seeds them with the saved revision, so deleted elements do not
+ * pile up and live state left from before the loaded revision is ignored.
+ */
+export function useLiveCollaboration({
+  modelId,
+  revision,
+  user,
+  canEdit,
+  nodes,
+  edges,
+  setNodes,
+  setEdges,
+  selectedIds,
+}: UseLiveCollaborationOptions) {
+  const [clientId] = useState(createClientId);
+  const clock = useMemo(() => createHybridClock(clientId), [clientId]);
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+  const [isLive, setIsLive] = useState(false);
+
+  const knownStatesRef = useRef(new Map<string, LiveElementState>());
+  const activeModelIdRef = useRef<string | null>(null);
+  const revisionRef = useRef(revision ?? 0); // Newest revision the live state is known to build on
+  const isSyncedRef = useRef(false); // Local edits are only published once the initial snapshot was merged
+  const remoteApplyPendingRef = useRef(false); // Set until remote changes have been rendered into nodes and edges
+  const latestRef = useRef({ nodes, edges, canEdit, revision });
+  latestRef.current = { nodes, edges, canEdit, revision };
+
+  const presenceRef = useRef<{ cursor: CursorPosition | null; selectedIds: string[] }>({ cursor: null, selectedIds: [] });
+  const lastPresenceUpdateRef = useRef(0);
+  const presenceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Diffs the rendered diagram against the replicated state and records the differences as local edits
+  const collectLocalChanges = useCallback((): LiveElementState[] => {
+    if (!isSyncedRef.current || remoteApplyPendingRef.current || !latestRef.current.canEdit) return [];
+    const known = knownStatesRef.current;
+    const stamp = clock.now();
+    const changes: LiveElementState[] = [];
+    const present = new Set<string>();
+    const record = (kind: LiveElementKind, id: string, element: LiveElement | null) => {
+      const next = applyLocalChange(known.get(id), kind, id, element, stamp);
+      if (next) {
+        known.set(id, next);
+        changes.push(next);
+      }
+    };
+    latestRef.current.nodes.forEach(node => {
+      present.add(node.id);
+      record('component', node.id, nodeToComponent(node));
+    });
+    latestRef.current.edges.forEach(edge => {
+      present.add(edge.id);
+      record('connection', edge.id, edgeToConnection(edge));
+    });
+    known.forEach((state, id) => {
+      if (!present.has(id)) record(state.kind, id, null);
+    });
+    return changes;
+  }, [clock]);
+
+  const publishLocalChanges = useCallback(() => {
+    const targetModelId = activeModelIdRef.current;
+    if (!targetModelId) return;
+    const changes = collectLocalChanges();
+    if (changes.length === 0) return;
+    publishLiveElements(targetModelId, changes, revisionRef.current).catch(err => console.error("Error publishing live changes:", err));
+  }, [collectLocalChanges]);
+
+  const debouncedPublish = useMemo(() => debounce(publishLocalChanges, PUBLISH_DEBOUNCE_MS), [publishLocalChanges]);
+
+  const applyRemoteStates = useCallback((updates: LiveElementUpdate[]) => {
+    const known = knownStatesRef.current;
+    const componentChanges = new Map<string, DiagramComponent | null>();
+    const connectionChanges = new Map<string, DiagramConnection | null>();
+    for (const { state: remote, revision: remoteRevision } of updates) {
+      clock.observe(latestStamp(remote));
+      // Someone saved a newer revision and re-seeded the live state with it
+      revisionRef.current = Math.max(revisionRef.current, remoteRevision);
+      const previous = known.get(remote.id);
+      const merged = mergeLiveElementStates(previous, remote);
+      // Our own writes echo back through the listener; skip anything that did not change
+      if (previous && isSameValue(previous, merged)) continue;
+      known.set(remote.id, merged);
+      const element = materializeLiveElement(merged);
+      if (merged.kind === 'component') componentChanges.set(remote.id, element as DiagramComponent | null);
+      else connectionChanges.set(remote.id, element as DiagramConnection | null);
+    }
+    if (componentChanges.size > 0) {
+      remoteApplyPendingRef.current = true;
+      setNodes(prev => applyComponentChanges(prev, componentChanges));
+    }
+    if (connectionChanges.size > 0) {
+      remoteApplyPendingRef.current = true;
+      setEdges(prev => applyConnectionChanges(prev, connectionChanges));
+    }
+  }, [clock, setNodes, setEdges]);
+
+  useEffect(() => {
+    revisionRef.current = Math.max(revisionRef.current, revision ?? 0);
+  }, [revision]);
+
+  useEffect(() => {
+    knownStatesRef.current = new Map();
+    revisionRef.current = latestRef.current.revision ?? 0;
+    isSyncedRef.current = false;
+    remoteApplyPendingRef.current = false;
+    activeModelIdRef.current = modelId;
+    setIsLive(false);
+    if (!modelId || !user) return;
+
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = subscribeToLiveElements(
+        modelId,
+        (updates, isInitial) => {
+          // Publish pending local edits first, so the remote merge does not overwrite them on screen
+          if (!isInitial) publishLocalChanges();
+          // Live state older than the loaded model is already part of it, or was discarded by a later save
+          const loadedRevision = revisionRef.current;
+          applyRemoteStates(isInitial ? updates.filter(update => update.revision >= loadedRevision) : updates);
+          if (isInitial) {
+            isSyncedRef.current = true;
+            setIsLive(true);
+            // Seeds the live state from the loaded model, or publishes elements only this client has
+            debouncedPublish();
+          }
+        },
+        () => setIsLive(false)
+      );
+    } catch (err) {
+      console.error("Live collaboration unavailable:", err);
+    }
+    return () => {
+      unsubscribe?.();
+      if (activeModelIdRef.current === modelId) activeModelIdRef.current = null;
+      isSyncedRef.current = false;
+    };
+  }, [modelId, user, applyRemoteStates, publishLocalChanges, debouncedPublish]);
+
+  useEffect(() => {
+    remoteApplyPendingRef.current = false;
+    debouncedPublish();
+  }, [nodes, edges, debouncedPublish]);
+
+  const publishPresence = useCallback(() => {
+    if (!modelId || !user) return;
+    lastPresenceUpdateRef.current = Date.now();
+    updatePresence(modelId, {
+      clientId,
+      userId: user.uid,
+      displayName: user.displayName || user.email || 'Anonymous',
+      color: colorForUser(user.uid),
+      cursor: presenceRef.current.cursor,
+      selectedIds: presenceRef.current.selectedIds,
+    }).catch(err => console.error("Error updating presence:", err));
+  }, [modelId, user, clientId]);
+
+  // Throttles presence writes while keeping the latest state: a trailing write follows a burst of updates
+  const schedulePresence = useCallback(() => {
+    if (presenceTimeoutRef.current) return;
+    const wait = Math.max(0, CURSOR_THROTTLE_MS - (Date.now() - lastPresenceUpdateRef.current));
+    presenceTimeoutRef.current = setTimeout(() => {
+      presenceTimeoutRef.current = null;
+      publishPresence();
+    }, wait);
+  }, [publishPresence]);
+
+  useEffect(() => {
+    if (!modelId || !user) {
+      setCollaborators([]);
+      return;
+    }
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = subscribeToPresence(modelId, presences => {
+        const now = Date.now();
+        setCollaborators(presences.filter(presence =>
+          presence.clientId !== clientId && now - (presence.updatedAt?.getTime() || 0) < PRESENCE_STALE_MS
+        ));
+      });
+    } catch (err) {
+      console.error("Presence unavailable:", err);
+      return;
+    }
+    publishPresence();
+    const heartbeat = setInterval(publishPresence, PRESENCE_HEARTBEAT_MS);
+    const handleUnload = () => { removePresence(modelId, clientId).catch(() => {}); };
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      unsubscribe?.();
+      clearInterval(heartbeat);
+      if (presenceTimeoutRef.current) {
+        clearTimeout(presenceTimeoutRef.current);
+        presenceTimeoutRef.current = null;
+      }
+      window.removeEventListener('beforeunload', handleUnload);
+      handleUnload();
+    };
+  }, [modelId, user, clientId, publishPresence]);
+
+  const selectionKey = selectedIds.join('|');
+  useEffect(() => {
+    presenceRef.current.selectedIds = selectionKey ? selectionKey.split('|') : [];
+    schedulePresence();
+  }, [selectionKey, schedulePresence]);
+
+  const updateCursor = useCallback((cursor: CursorPosition | null) => {
+    presenceRef.current.cursor = cursor;
+    schedulePresence();
+  }, [schedulePresence]);
+
+  /**
+   * The live elements a save should clear in its transaction: deleted elements first, so they do not
+   * pile up, then the rest. Pass the same IDs to reseedLiveElements once the save succeeded.
+   */
+  const getLiveElementIdsToClear = useCallback((): string[] => {
+    if (!isSyncedRef.current || !latestRef.current.canEdit) return [];
+    const states = Array.from(knownStatesRef.current.values());
+    return [...states.filter(state => state.deleted.value), ...states.filter(state => !state.deleted.value)]
+      .slice(0, MAX_CLEARED_LIVE_ELEMENTS)
+      .map(state => state.id);
+  }, []);
+
+  /**
+   * Publishes the elements a save cleared again, with the saved revision, together with any pending
+   * local edits. Deleted elements are not published again.
+   */
+  const reseedLiveElements = useCallback((savedRevision: number, clearedIds: string[]) => {
+    revisionRef.current = Math.max(revisionRef.current, savedRevision);
+    const targetModelId = activeModelIdRef.current;
+    if (!targetModelId || !isSyncedRef.current) return;
+    const known = knownStatesRef.current;
+    const states = new Map(collectLocalChanges().map(state => [state.id, state]));
+    for (const id of clearedIds) {
+      const state = known.get(id);
+      if (state?.deleted.value) known.delete(id);
+      else if (state && !states.has(id)) states.set(id, state);
+    }
+    if (states.size === 0) return;
+    publishLiveElements(targetModelId, Array.from(states.values()), revisionRef.current)
+      .catch(err => console.error("Error re-seeding live elements:", err));
+  }, [collectLocalChanges]);
+
+  return { collaborators, isLive, updateCursor, getLiveElementIdsToClear, reseedLiveElements };
+}
@@ -0,0 +1,188 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Node, Edge, NodeChange, EdgeChange } from '@xyflow/react';
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+import { isSameValue, toLiveFields, type LiveElement } from '@/lib/crdt';
+import { applyComponentChanges, applyConnectionChanges, edgeToConnection, nodeToComponent } from '@/lib/diagram-utils';
+import { isEditableTarget } from '@/lib/utils';
+
+const MAX_HISTORY_STEPS = 100;
+const COALESCE_MS = 1000; // Changes with the same key are merged into one step while they keep coming within this interval
+
+interface HistoryEntry<T> {
+  before: T | null; // Null if the step added the element
+  after: T | null; // Null if the step removed the element
+}
+
+/**
+ * One undoable step. Only the elements the step changed are recorded, so undoing it leaves
+ * concurrent changes to other elements (e.g. by live collaborators) in place.
+ */
+interface HistoryStep {
+  key?: string;
+  updatedAt: number;
+  components: Map<string, HistoryEntry<DiagramComponent>>;
+  connections: Map<string, HistoryEntry<DiagramConnection>>;
+}
+
+interface DiagramSnapshot {
+  components: Map<string, DiagramComponent>;
+  connections: Map<string, DiagramConnection>;
+}
+
+const takeSnapshot = (nodes: Node[], edges: Edge[]): DiagramSnapshot => ({
+  components: new Map(nodes.map(node => [node.id, nodeToComponent(node)])),
+  connections: new Map(edges.map(edge => [edge.id, edgeToConnection(edge)])),
+});
+
+// Selection is not part of the history
+const isSameElement = (a: LiveElement | null, b: LiveElement | null): boolean =>
+  a === null || b === null ? a === b : isSameValue(toLiveFields(a), toLiveFields(b));
+
+const recordEntries = <T extends LiveElement>(
+  entries: Map<string, HistoryEntry<T>>,
+  before: Map<string, T>,
+  after: Map<string, T>
+) => {
+  const ids = new Set([...before.keys(), ...after.keys()]);
+  ids.forEach(id => {
+    const beforeElement = before.get(id) ?? null;
+    const afterElement = after.get(id) ?? null;
+    if (isSameElement(beforeElement, afterElement)) return;
+    const existing = entries.get(id);
+    entries.set(id, { before: existing ? existing.before : beforeElement, after: afterElement });
+  });
+};
+
+const toChanges = <T>(entries: Map<string, HistoryEntry<T>>, side: keyof HistoryEntry<T>): Map<string, T | null> =>
+  new Map(Array.from(entries, ([id, entry]) => [id, entry[side]]));
+
+interface UseUndoHistoryOptions {
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: Dispatch<SetStateAction<Node[]>>;
+  setEdges: Dispatch<SetStateAction<Edge[]>>;
+  enabled: boolean; // Disables undo, redo and their shortcuts, e.g. while the canvas is read-only
+}
+
+/**
+ * Undo and redo for edits to the diagram, with Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) as shortcuts.
+ *
+ * Call `recordChange` right before changing nodes or edges; the difference to the next render
+ * becomes the step. Passing the same key for a continuous gesture, such as the position changes of
+ * one drag or the keystrokes in a property field, merges it into a single step.
+ */
+export function useUndoHistory({ nodes, edges, setNodes, setEdges, enabled }: UseUndoHistoryOptions) {
+  const undoStackRef = useRef<HistoryStep[]>([]);
+  const redoStackRef = useRef<HistoryStep[]>([]);
+  const openStepRef = useRef<HistoryStep | null>(null); // Step that changes with the same key are merged into
+  const baselineRef = useRef<DiagramSnapshot | null>(null); // Diagram before the recorded change, until it renders
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+  const latestRef = useRef({ nodes, edges, enabled });
+  latestRef.current = { nodes, edges, enabled };
+
+  const updateHistorySize = useCallback(() => {
+    setHistorySize({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+
+  const recordChange = useCallback((key?: string) => {
+    const now = Date.now();
+    const openStep = openStepRef.current;
+    if (!key || !openStep || openStep.key !== key || now - openStep.updatedAt > COALESCE_MS) {
+      openStepRef.current = { key, updatedAt: now, components: new Map(), connections: new Map() };
+    } else {
+      openStep.updatedAt = now;
+    }
+    if (!baselineRef.current) baselineRef.current = takeSnapshot(latestRef.current.nodes, latestRef.current.edges);
+  }, []);
+
+  /**
+   * Records the React Flow changes that edit the diagram; selection and measurement changes are ignored.
+   */
+  const recordFlowChanges = useCallback((changes: (NodeChange | EdgeChange)[]) => {
+    const layoutIds: string[] = [];
+    let hasStructuralChange = false;
+    for (const change of changes) {
+      if (change.type === 'add' || change.type === 'remove' || change.type === 'replace') hasStructuralChange = true;
+      else if (change.type === 'position' || (change.type === 'dimensions' && change.resizing)) layoutIds.push(change.id);
+    }
+    if (hasStructuralChange) recordChange();
+    else if (layoutIds.length > 0) recordChange(`layout:${Array.from(new Set(layoutIds)).sort().join(',')}`);
+  }, [recordChange]);
+
+  useEffect(() => {
+    const baseline = baselineRef.current;
+    const step = openStepRef.current;
+    if (!baseline || !step) return;
+    baselineRef.current = null;
+    const current = takeSnapshot(nodes, edges);
+    const wasEmpty = step.components.size === 0 && step.connections.size === 0;
+    recordEntries(step.components, baseline.components, current.components);
+    recordEntries(step.connections, baseline.connections, current.connections);
+    if (wasEmpty && (step.components.size > 0 || step.connections.size > 0)) {
+      undoStackRef.current = [...undoStackRef.current, step].slice(-MAX_HISTORY_STEPS);
+      redoStackRef.current = [];
+      updateHistorySize();
+    }
+  }, [nodes, edges, updateHistorySize]);
+
+  const applyStep = useCallback((step: HistoryStep, side: keyof HistoryEntry<unknown>) => {
+    openStepRef.current = null;
+    baselineRef.current = null;
+    if (step.components.size > 0) setNodes(prev => applyComponentChanges(prev, toChanges(step.components, side)));
+    if (step.connections.size > 0) setEdges(prev => applyConnectionChanges(prev, toChanges(step.connections, side)));
+  }, [setNodes, setEdges]);
+
+  const undo = useCallback(() => {
+    const step = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!step || !latestRef.current.enabled) return;
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    redoStackRef.current = [...redoStackRef.current, step];
+    applyStep(step, 'before');
+    updateHistorySize();
+  }, [applyStep, updateHistorySize]);
+
+  const redo = useCallback(() => {
+    const step = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!step || !latestRef.current.enabled) return;
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    undoStackRef.current = [...undoStackRef.current, step];
+    applyStep(step, 'after');
+    updateHistorySize();
+  }, [applyStep, updateHistorySize]);
+
+  // Call when a different model is opened
+  const clearHistory = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    openStepRef.current = null;
+    baselineRef.current = null;
+    updateHistorySize();
+  }, [updateHistorySize]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      // Text fields keep their own undo
+      if ((key !== 'z' && key !== 'y') || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, undo, redo]);
+
+  return {
+    recordChange,
+    recordFlowChanges,
+    undo,
+    redo,
+    clearHistory,
+    canUndo: enabled && historySize.undo > 0,
+    canRedo: enabled && historySize.redo > 0,
+  };
+}
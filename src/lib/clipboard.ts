@@ -0,0 +1,117 @@
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+
+const CLIPBOARD_FORMAT = 'threat-model-selection';
+const CLIPBOARD_VERSION = 1;
+
+export const PASTE_OFFSET = 24; // Each paste of the same content is shifted by this much more, so copies do not stack
+
+/**
+ * Copied diagram elements as written to the system clipboard. Being plain JSON text, it can be
+ * pasted into another model, also in another browser tab.
+ */
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  components: DiagramComponent[];
+  connections: DiagramConnection[];
+}
+
+const createElementId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Child positions are relative to their boundary; this adds up the positions of its ancestors
+const getAbsolutePosition = (component: DiagramComponent, byId: Map<string, DiagramComponent>): { x: number; y: number } => {
+  const position = component.properties?.position ?? { x: 0, y: 0 };
+  const parent = component.properties?.parentNode ? byId.get(component.properties.parentNode) : undefined;
+  if (!parent || parent === component) return position;
+  const parentPosition = getAbsolutePosition(parent, byId);
+  return { x: parentPosition.x + position.x, y: parentPosition.y + position.y };
+};
+
+/**
+ * Collects the selected elements for copying. Boundaries bring their children along, and only
+ * connections whose ends are both copied are kept, together with any connections between copied
+ * components. Children copied without their boundary are detached from it and keep their place.
+ */
+export const createClipboardPayload = (
+  components: DiagramComponent[],
+  connections: DiagramConnection[],
+  selectedIds: Set<string>
+): ClipboardPayload | null => {
+  const byId = new Map(components.map(component => [component.id, component]));
+  const copiedIds = new Set(components.filter(component => selectedIds.has(component.id)).map(component => component.id));
+  components.forEach(component => {
+    const parentId = component.properties?.parentNode;
+    if (parentId && copiedIds.has(parentId)) copiedIds.add(component.id);
+  });
+
+  const copiedComponents = components
+    .filter(component => copiedIds.has(component.id))
+    .map(component => {
+      const { parentNode, selected: _selected, ...properties } = component.properties || {};
+      if (parentNode && copiedIds.has(parentNode)) return { ...component, properties: { ...properties, parentNode } };
+      return { ...component, properties: { ...properties, position: getAbsolutePosition(component, byId) } };
+    });
+  const copiedConnections = connections
+    .filter(connection => copiedIds.has(connection.source) && copiedIds.has(connection.target))
+    .map(({ selected: _selected, ...connection }) => connection);
+
+  if (copiedComponents.length === 0 && copiedConnections.length === 0) return null;
+  return { format: CLIPBOARD_FORMAT, version: CLIPBOARD_VERSION, components: copiedComponents, connections: copiedConnections };
+};
+
+export const serializeClipboardPayload = (payload: ClipboardPayload): string => JSON.stringify(payload);
+
+/**
+ * Reads clipboard text, returning null unless it holds copied diagram elements.
+ */
+export const parseClipboardPayload = (text: string): ClipboardPayload | null => {
+  try {
+    const parsed = JSON.parse(text);
+    if (
+      parsed?.format !== CLIPBOARD_FORMAT ||
+      typeof parsed.version !== 'number' || parsed.version > CLIPBOARD_VERSION ||
+      !Array.isArray(parsed.components) || !Array.isArray(parsed.connections)
+    ) {
+      return null;
+    }
+    return parsed as ClipboardPayload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Prepares copied elements for pasting: every element gets a new ID, boundary children and
+ * connection ends are remapped to them, and the top-level components are shifted by `offset`.
+ * Pasted elements are selected.
+ */
+export const preparePaste = (
+  payload: Pick<ClipboardPayload, 'components' | 'connections'>,
+  offset: { x: number; y: number }
+): { components: DiagramComponent[]; connections: DiagramConnection[] } => {
+  const idMap = new Map(payload.components.map(component => [component.id, createElementId(component.type || 'component')]));
+  const components = payload.components.map(component => {
+    const parentNode = component.properties?.parentNode;
+    const remappedParent = parentNode ? idMap.get(parentNode) : undefined;
+    const position = component.properties?.position ?? { x: 0, y: 0 };
+    const properties: DiagramComponent['properties'] = {
+      ...component.properties,
+      selected: true,
+      position: remappedParent ? position : { x: position.x + offset.x, y: position.y + offset.y },
+    };
+    if (remappedParent) properties.parentNode = remappedParent;
+    else delete properties.parentNode;
+    return { ...component, id: idMap.get(component.id)!, properties };
+  });
+  const connections = payload.connections
+    .filter(connection => idMap.has(connection.source) && idMap.has(connection.target))
+    .map(connection => ({
+      ...connection,
+      id: createElementId('edge'),
+      source: idMap.get(connection.source)!,
+      target: idMap.get(connection.target)!,
+      selected: true,
+    }));
+  return { components, connections };
+};
@@ -0,0 +1,77 @@
+import type { CommentThread, MentionCandidate } from '@/types/comment';
+
+/**
+ * The unresolved threads per component or data flow, keyed by element ID.
+ */
+export const countUnresolvedThreadsByElement = (threads: CommentThread[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const thread of threads) {
+    if (thread.resolved || thread.anchor.type === 'canvas') continue;
+    counts.set(thread.anchor.elementId, (counts.get(thread.anchor.elementId) || 0) + 1);
+  }
+  return counts;
+};
+
+export const countUnresolvedThreads = (threads: CommentThread[]): number => threads.filter(thread => !thread.resolved).length;
+
+/**
+ * The "@query" being typed at the caret, if any. A mention starts at the beginning of the text or after whitespace.
+ */
+export const findMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+export const filterMentionCandidates = (candidates: MentionCandidate[], query: string): MentionCandidate[] => {
+  const normalized = query.toLowerCase();
+  return candidates.filter(candidate =>
+    candidate.displayName.toLowerCase().includes(normalized) || candidate.email.includes(normalized)
+  );
+};
+
+/**
+ * Replaces the "@query" that starts at `start` with the candidate's mention, followed by a space.
+ *
+ * @returns The new text and the caret position after the mention.
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  candidate: MentionCandidate
+): { text: string; caret: number } => {
+  const mention = `@${candidate.displayName} `;
+  return { text: text.slice(0, start) + mention + text.slice(caret), caret: start + mention.length };
+};
+
+/**
+ * Splits a comment into plain text and mentions, so mentions can be highlighted.
+ */
+export const splitMentions = (text: string, names: string[]): { text: string; isMention: boolean }[] => {
+  const mentions = new Set(names.map(name => `@${name}`));
+  if (mentions.size === 0) return [{ text, isMention: false }];
+  // Longest names first, so "@Ann Lee" is not matched as "@Ann"
+  const pattern = Array.from(mentions)
+    .sort((a, b) => b.length - a.length)
+    .map(mention => mention.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+  return text
+    .split(new RegExp(`(${pattern})`))
+    .filter(part => part !== '')
+    .map(part => ({ text: part, isMention: mentions.has(part) }));
+};
+
+/**
+ * The candidates mentioned in a text.
+ */
+export const extractMentions = (text: string, candidates: MentionCandidate[]): MentionCandidate[] => {
+  const mentioned = new Set(
+    splitMentions(text, candidates.map(candidate => candidate.displayName))
+      .filter(part => part.isMention)
+      .map(part => part.text.slice(1))
+  );
+  return candidates.filter((candidate, index) =>
+    mentioned.has(candidate.displayName) && candidates.findIndex(other => other.email === candidate.email) === index
+  );
+};
@@ -0,0 +1,174 @@
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+
+/*
+ * Conflict-free replicated state for live diagram editing.
+ *
+ * Every diagram element is replicated as a map of last-writer-wins registers, one per field
+ * (`label`, `source`, `properties.position`, `properties.description`, ...), plus a register for
+ * deletion. Concurrent edits of different fields of the same element both survive; concurrent
+ * edits of the same field resolve to the edit with the highest stamp on every client. Merging is
+ * commutative, associative and idempotent, so replicas converge regardless of delivery order.
+ */
+
+export type LiveElementKind = 'component' | 'connection';
+
+/** Hybrid logical timestamp: wall-clock milliseconds, bumped past any stamp seen, with the client ID as tie-breaker. */
+export interface LwwStamp {
+  time: number;
+  clientId: string;
+}
+
+export interface LwwRegister<T = unknown> {
+  value: T; // null marks a field that was removed
+  stamp: LwwStamp;
+}
+
+export interface LiveElementState {
+  id: string;
+  kind: LiveElementKind;
+  fields: Record<string, LwwRegister>;
+  deleted: LwwRegister<boolean>;
+}
+
+export type LiveElement = DiagramComponent | DiagramConnection;
+
+const PROPERTY_FIELD_PREFIX = 'properties.';
+
+// Selection is local UI state and must not be replicated
+const LOCAL_ONLY_FIELDS = new Set(['id', 'properties', 'selected']);
+const LOCAL_ONLY_PROPERTIES = new Set(['selected']);
+
+export const compareStamps = (a: LwwStamp, b: LwwStamp): number =>
+  a.time !== b.time ? a.time - b.time : a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+
+const maxStamp = (a: LwwStamp, b: LwwStamp): LwwStamp => (compareStamps(a, b) >= 0 ? a : b);
+
+/**
+ * Creates a hybrid logical clock. Stamps are strictly increasing for the client and always newer
+ * than any remote stamp it has observed, so local edits win over edits they were made on top of.
+ */
+export function createHybridClock(clientId: string) {
+  let last = 0;
+  return {
+    now(): LwwStamp {
+      last = Math.max(Date.now(), last + 1);
+      return { time: last, clientId };
+    },
+    observe(stamp: LwwStamp) {
+      last = Math.max(last, stamp.time);
+    },
+  };
+}
+
+// Key-order independent serialization, so values round-tripped through Firestore compare equal
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const isSameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+/**
+ * Flattens an element into its replicated fields.
+ */
+export const toLiveFields = (element: LiveElement): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(element)) {
+    if (!LOCAL_ONLY_FIELDS.has(key) && value !== undefined) fields[key] = value;
+  }
+  for (const [key, value] of Object.entries(element.properties || {})) {
+    if (!LOCAL_ONLY_PROPERTIES.has(key) && value !== undefined) fields[`${PROPERTY_FIELD_PREFIX}${key}`] = value;
+  }
+  return fields;
+};
+
+/**
+ * Rebuilds an element from its replicated state, or returns null if it was deleted.
+ */
+export const materializeLiveElement = (state: LiveElementState): LiveElement | null => {
+  if (state.deleted.value) return null;
+  const element: Record<string, any> = { id: state.id, properties: {} };
+  for (const [field, register] of Object.entries(state.fields)) {
+    if (register.value === null || register.value === undefined) continue;
+    if (field.startsWith(PROPERTY_FIELD_PREFIX)) {
+      element.properties[field.slice(PROPERTY_FIELD_PREFIX.length)] = register.value;
+    } else {
+      element[field] = register.value;
+    }
+  }
+  return element as LiveElement;
+};
+
+/**
+ * Records a local edit. Fields whose value changed get the new stamp; fields that disappeared are
+ * removed with it. Passing a null element records a deletion.
+ *
+ * @returns The updated state, or null if the element did not change.
+ */
+export const applyLocalChange = (
+  previous: LiveElementState | undefined,
+  kind: LiveElementKind,
+  id: string,
+  element: LiveElement | null,
+  stamp: LwwStamp
+): LiveElementState | null => {
+  if (!element) {
+    if (!previous || previous.deleted.value) return null;
+    return { ...previous, deleted: { value: true, stamp } };
+  }
+
+  const nextFields = toLiveFields(element);
+  const fields: Record<string, LwwRegister> = { ...(previous?.fields || {}) };
+  let changed = !previous || previous.deleted.value;
+
+  for (const [field, value] of Object.entries(nextFields)) {
+    if (!fields[field] || !isSameValue(fields[field].value, value)) {
+      fields[field] = { value, stamp };
+      changed = true;
+    }
+  }
+  for (const [field, register] of Object.entries(fields)) {
+    if (!(field in nextFields) && register.value !== null) {
+      fields[field] = { value: null, stamp };
+      changed = true;
+    }
+  }
+
+  if (!changed) return null;
+  return {
+    id,
+    kind,
+    fields,
+    deleted: previous?.deleted.value || !previous ? { value: false, stamp } : previous.deleted,
+  };
+};
+
+/**
+ * Merges two replicas of the same element, keeping the newest value of every field.
+ */
+export const mergeLiveElementStates = (a: LiveElementState | undefined, b: LiveElementState): LiveElementState => {
+  if (!a) return b;
+  const fields: Record<string, LwwRegister> = { ...a.fields };
+  for (const [field, register] of Object.entries(b.fields)) {
+    const current = fields[field];
+    if (!current || compareStamps(register.stamp, current.stamp) > 0) fields[field] = register;
+  }
+  return {
+    id: a.id,
+    kind: a.kind,
+    fields,
+    deleted: compareStamps(b.deleted.stamp, a.deleted.stamp) > 0 ? b.deleted : a.deleted,
+  };
+};
+
+/**
+ * Returns the newest stamp in a state, so a clock can observe remote edits.
+ */
+export const latestStamp = (state: LiveElementState): LwwStamp =>
+  Object.values(state.fields).reduce((latest, register) => maxStamp(latest, register.stamp), state.deleted.stamp);
@@ -0,0 +1,441 @@
+
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+import { createContainingBoundaryLookup } from '@/lib/diagram-utils';
+
+/**
+ * Automatic layout of diagram components, used when a diagram is generated rather than drawn
+ * (e.g. imported from infrastructure-as-code) and by the canvas "Auto-layout" command.
+ *
+ * Each boundary is laid out on its own, innermost first, and then sized to enclose its children,
+ * so children stay inside their boundary. Positions are absolute; containment is detected from geometry.
+ */
+
+export type LayoutAlgorithm = 'layered' | 'force';
+
+const GRID_SPACING = 60;
+const LAYER_SPACING = 120; // Between the columns of a layered layout, leaving room for edge labels
+const BOUNDARY_PADDING = 40;
+const BOUNDARY_HEADER_HEIGHT = 40; // Room for the boundary label
+const DEFAULT_NODE_SIZE = 80;
+const MIN_BOUNDARY_WIDTH = 200;
+const MIN_BOUNDARY_HEIGHT = 150;
+const DUMMY_NODE_SIZE = 20; // Placeholder for an edge passing through a layer
+const ORDERING_SWEEPS = 12;
+const FORCE_ITERATIONS = 300;
+const OVERLAP_PASSES = 100;
+
+interface LayoutBox {
+  id: string;
+  width: number;
+  height: number;
+  children: LayoutBox[];
+  // Offsets of the children relative to this box, set once the box is measured
+  childOffsets: Map<string, { x: number; y: number }>;
+}
+
+interface Arrangement {
+  offsets: Map<string, { x: number; y: number }>;
+  width: number;
+  height: number;
+}
+
+type LayoutEdge = [source: string, target: string];
+
+type Arranger = (boxes: LayoutBox[], edges: LayoutEdge[]) => Arrangement;
+
+/**
+ * Arranges boxes in a roughly square grid and returns their offsets and the overall size.
+ */
+const arrangeInGrid = (boxes: LayoutBox[]): Arrangement => {
+  const offsets = new Map<string, { x: number; y: number }>();
+  const columns = Math.max(1, Math.ceil(Math.sqrt(boxes.length)));
+  let y = 0;
+  let width = 0;
+  for (let rowStart = 0; rowStart < boxes.length; rowStart += columns) {
+    const row = boxes.slice(rowStart, rowStart + columns);
+    let x = 0;
+    for (const box of row) {
+      offsets.set(box.id, { x, y });
+      x += box.width + GRID_SPACING;
+    }
+    width = Math.max(width, x - GRID_SPACING);
+    y += Math.max(...row.map(box => box.height)) + GRID_SPACING;
+  }
+  return { offsets, width, height: Math.max(0, y - GRID_SPACING) };
+};
+
+/**
+ * Places boxes without any edges in a grid below the connected part of a layout.
+ */
+const appendUnconnected = (arrangement: Arrangement, unconnected: LayoutBox[]): Arrangement => {
+  if (unconnected.length === 0) return arrangement;
+  const grid = arrangeInGrid(unconnected);
+  const top = arrangement.offsets.size > 0 ? arrangement.height + GRID_SPACING : 0;
+  grid.offsets.forEach((offset, id) => arrangement.offsets.set(id, { x: offset.x, y: offset.y + top }));
+  return { offsets: arrangement.offsets, width: Math.max(arrangement.width, grid.width), height: top + grid.height };
+};
+
+const splitByConnectivity = (boxes: LayoutBox[], edges: LayoutEdge[]): { connected: LayoutBox[]; unconnected: LayoutBox[] } => {
+  const linked = new Set(edges.flat());
+  return {
+    connected: boxes.filter(box => linked.has(box.id)),
+    unconnected: boxes.filter(box => !linked.has(box.id)),
+  };
+};
+
+/**
+ * Counts the crossings between the edges of two adjacent layers.
+ */
+const countCrossings = (upper: string[], lower: string[], edges: LayoutEdge[]): number => {
+  const upperIndex = new Map(upper.map((id, index) => [id, index]));
+  const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+  const between = edges
+    .filter(([source, target]) => upperIndex.has(source) && lowerIndex.has(target))
+    .map(([source, target]) => [upperIndex.get(source)!, lowerIndex.get(target)!]);
+  let crossings = 0;
+  for (let i = 0; i < between.length; i++) {
+    for (let j = i + 1; j < between.length; j++) {
+      if ((between[i][0] - between[j][0]) * (between[i][1] - between[j][1]) < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+/**
+ * Layered (Sugiyama style) layout flowing left to right: cycles are broken, boxes are assigned to
+ * columns by longest path, and each column is ordered with the barycenter heuristic to reduce edge crossings.
+ */
+const arrangeLayered: Arranger = (boxes, edges) => {
+  const { connected, unconnected } = splitByConnectivity(boxes, edges);
+  const ids = connected.map(box => box.id);
+
+  // Break cycles by reversing the edges that point back to a box on the current DFS path
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(([source, target]) => outgoing.get(source)!.push(target));
+  const acyclic: LayoutEdge[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const target of outgoing.get(id)!) {
+      if (state.get(target) === 'visiting') {
+        acyclic.push([target, id]);
+      } else {
+        acyclic.push([id, target]);
+        if (!state.has(target)) visit(target);
+      }
+    }
+    state.set(id, 'done');
+  };
+  ids.forEach(id => { if (!state.has(id)) visit(id); });
+
+  // Longest path layering, in topological order
+  const layerOf = new Map<string, number>(ids.map(id => [id, 0]));
+  const incoming = new Map<string, number>(ids.map(id => [id, 0]));
+  acyclic.forEach(([, target]) => incoming.set(target, incoming.get(target)! + 1));
+  const queue = ids.filter(id => incoming.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const [source, target] of acyclic) {
+      if (source !== id) continue;
+      layerOf.set(target, Math.max(layerOf.get(target)!, layerOf.get(id)! + 1));
+      incoming.set(target, incoming.get(target)! - 1);
+      if (incoming.get(target) === 0) queue.push(target);
+    }
+  }
+
+  // Edges spanning several layers pass through dummy boxes, so they take part in the ordering
+  const sizes = new Map<string, { width: number; height: number }>(connected.map(box => [box.id, box]));
+  const layerEdges: LayoutEdge[] = [];
+  acyclic.forEach(([source, target], edgeIndex) => {
+    let previous = source;
+    for (let layer = layerOf.get(source)! + 1; layer < layerOf.get(target)!; layer++) {
+      const dummy = `__dummy_${edgeIndex}_${layer}`;
+      layerOf.set(dummy, layer);
+      sizes.set(dummy, { width: DUMMY_NODE_SIZE, height: DUMMY_NODE_SIZE });
+      layerEdges.push([previous, dummy]);
+      previous = dummy;
+    }
+    if (previous !== target) layerEdges.push([previous, target]);
+  });
+
+  const layerCount = Math.max(...Array.from(layerOf.values())) + 1;
+  let layers: string[][] = Array.from({ length: layerCount }, () => []);
+  layerOf.forEach((layer, id) => layers[layer].push(id));
+
+  const totalCrossings = (candidate: string[][]) =>
+    candidate.slice(1).reduce((sum, layer, index) => sum + countCrossings(candidate[index], layer, layerEdges), 0);
+  const reorder = (layer: string[], fixed: string[], useSources: boolean): string[] => {
+    const fixedIndex = new Map(fixed.map((id, index) => [id, index]));
+    const barycenters = new Map(layer.map((id, index) => {
+      const neighbours = layerEdges
+        .filter(edge => edge[useSources ? 1 : 0] === id && fixedIndex.has(edge[useSources ? 0 : 1]))
+        .map(edge => fixedIndex.get(edge[useSources ? 0 : 1])!);
+      return [id, neighbours.length > 0 ? neighbours.reduce((a, b) => a + b, 0) / neighbours.length : index];
+    }));
+    return [...layer].sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+  };
+
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = totalCrossings(best);
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const forward = sweep % 2 === 0;
+    layers = layers.map(layer => [...layer]);
+    if (forward) {
+      for (let i = 1; i < layers.length; i++) layers[i] = reorder(layers[i], layers[i - 1], true);
+    } else {
+      for (let i = layers.length - 2; i >= 0; i--) layers[i] = reorder(layers[i], layers[i + 1], false);
+    }
+    const crossings = totalCrossings(layers);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  // Columns left to right, each centred vertically
+  const columnHeights = best.map(layer =>
+    layer.reduce((sum, id) => sum + sizes.get(id)!.height, 0) + GRID_SPACING * Math.max(0, layer.length - 1)
+  );
+  const height = Math.max(0, ...columnHeights);
+  const offsets = new Map<string, { x: number; y: number }>();
+  let x = 0;
+  best.forEach((layer, index) => {
+    let y = (height - columnHeights[index]) / 2;
+    const columnWidth = Math.max(0, ...layer.map(id => sizes.get(id)!.width));
+    for (const id of layer) {
+      const size = sizes.get(id)!;
+      if (!id.startsWith('__dummy_')) offsets.set(id, { x: x + (columnWidth - size.width) / 2, y });
+      y += size.height + GRID_SPACING;
+    }
+    x += columnWidth + LAYER_SPACING;
+  });
+
+  return appendUnconnected({ offsets, width: Math.max(0, x - LAYER_SPACING), height }, unconnected);
+};
+
+/**
+ * Pushes overlapping boxes apart along the axis of least overlap.
+ */
+const removeOverlaps = (boxes: LayoutBox[], positions: Map<string, { x: number; y: number }>) => {
+  const margin = GRID_SPACING / 2;
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false;
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        const a = positions.get(boxes[i].id)!;
+        const b = positions.get(boxes[j].id)!;
+        const overlapX = Math.min(a.x + boxes[i].width, b.x + boxes[j].width) + margin - Math.max(a.x, b.x);
+        const overlapY = Math.min(a.y + boxes[i].height, b.y + boxes[j].height) + margin - Math.max(a.y, b.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (overlapX / 2) * (a.x <= b.x ? 1 : -1);
+          a.x -= shift;
+          b.x += shift;
+        } else {
+          const shift = (overlapY / 2) * (a.y <= b.y ? 1 : -1);
+          a.y -= shift;
+          b.y += shift;
+        }
+      }
+    }
+    if (!moved) return;
+  }
+};
+
+/**
+ * Force-directed (Fruchterman-Reingold) layout: connected boxes attract, all boxes repel.
+ * Starts from a circle so the result is the same every time.
+ */
+const arrangeForceDirected: Arranger = (boxes, edges) => {
+  const { connected, unconnected } = splitByConnectivity(boxes, edges);
+  if (connected.length === 0) return appendUnconnected({ offsets: new Map(), width: 0, height: 0 }, unconnected);
+
+  const idealDistance = connected.reduce((sum, box) => sum + Math.max(box.width, box.height), 0) / connected.length + GRID_SPACING * 2;
+  const radius = (idealDistance * connected.length) / (2 * Math.PI);
+  const centres = new Map(connected.map((box, index) => {
+    const angle = (2 * Math.PI * index) / connected.length;
+    return [box.id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) }];
+  }));
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const temperature = idealDistance * (1 - iteration / FORCE_ITERATIONS);
+    const displacement = new Map(connected.map(box => [box.id, { x: 0, y: 0 }]));
+    for (let i = 0; i < connected.length; i++) {
+      for (let j = i + 1; j < connected.length; j++) {
+        const a = centres.get(connected[i].id)!;
+        const b = centres.get(connected[j].id)!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const force = (idealDistance * idealDistance) / distance;
+        const da = displacement.get(connected[i].id)!;
+        const db = displacement.get(connected[j].id)!;
+        da.x += (dx / distance) * force; da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force; db.y -= (dy / distance) * force;
+      }
+    }
+    for (const [source, target] of edges) {
+      const a = centres.get(source)!;
+      const b = centres.get(target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (distance * distance) / idealDistance;
+      const ds = displacement.get(source)!;
+      const dt = displacement.get(target)!;
+      ds.x -= (dx / distance) * force; ds.y -= (dy / distance) * force;
+      dt.x += (dx / distance) * force; dt.y += (dy / distance) * force;
+    }
+    displacement.forEach((d, id) => {
+      const length = Math.max(Math.hypot(d.x, d.y), 1);
+      const centre = centres.get(id)!;
+      centre.x += (d.x / length) * Math.min(length, temperature);
+      centre.y += (d.y / length) * Math.min(length, temperature);
+    });
+  }
+
+  const positions = new Map(connected.map(box => {
+    const centre = centres.get(box.id)!;
+    return [box.id, { x: centre.x - box.width / 2, y: centre.y - box.height / 2 }];
+  }));
+  removeOverlaps(connected, positions);
+
+  const minX = Math.min(...connected.map(box => positions.get(box.id)!.x));
+  const minY = Math.min(...connected.map(box => positions.get(box.id)!.y));
+  const offsets = new Map<string, { x: number; y: number }>();
+  let width = 0;
+  let height = 0;
+  for (const box of connected) {
+    const position = positions.get(box.id)!;
+    const offset = { x: Math.round(position.x - minX), y: Math.round(position.y - minY) };
+    offsets.set(box.id, offset);
+    width = Math.max(width, offset.x + box.width);
+    height = Math.max(height, offset.y + box.height);
+  }
+  return appendUnconnected({ offsets, width, height }, unconnected);
+};
+
+const ARRANGERS: Record<LayoutAlgorithm, Arranger> = {
+  layered: arrangeLayered,
+  force: arrangeForceDirected,
+};
+
+/**
+ * Lays out the children of each box bottom-up and sizes boundaries to enclose them plus padding.
+ */
+const measure = (box: LayoutBox, edgesByBox: Map<string, LayoutEdge[]>, arrange: Arranger): void => {
+  if (box.children.length === 0) return;
+  box.children.forEach(child => measure(child, edgesByBox, arrange));
+  const arrangement = arrange(box.children, edgesByBox.get(box.id) || []);
+  box.childOffsets = arrangement.offsets;
+  box.width = Math.max(box.width, arrangement.width + BOUNDARY_PADDING * 2);
+  box.height = Math.max(box.height, arrangement.height + BOUNDARY_PADDING * 2 + BOUNDARY_HEADER_HEIGHT);
+};
+
+const place = (box: LayoutBox, x: number, y: number, positions: Map<string, { x: number; y: number; width: number; height: number }>) => {
+  positions.set(box.id, { x, y, width: box.width, height: box.height });
+  for (const child of box.children) {
+    const offset = box.childOffsets.get(child.id) || { x: 0, y: 0 };
+    place(child, x + BOUNDARY_PADDING + offset.x, y + BOUNDARY_PADDING + BOUNDARY_HEADER_HEIGHT + offset.y, positions);
+  }
+};
+
+/**
+ * Finds the innermost boundary each component currently sits inside (component ID -> boundary ID).
+ * A boundary can only sit inside a larger boundary.
+ */
+export const getParentBoundaryIds = (components: DiagramComponent[]): Map<string, string> => {
+  const area = (component: DiagramComponent) => (component.properties?.width || 0) * (component.properties?.height || 0);
+  const componentsById = new Map(components.map(component => [component.id, component]));
+  const getBoundaryIds = createContainingBoundaryLookup(components);
+  const parents = new Map<string, string>();
+  for (const component of components) {
+    const containing = getBoundaryIds(component)
+      .map(id => componentsById.get(id)!)
+      .filter(boundary => !component.isBoundary || area(boundary) > area(component))
+      .sort((a, b) => area(a) - area(b));
+    if (containing.length > 0) parents.set(component.id, containing[0].id);
+  }
+  return parents;
+};
+
+/**
+ * Lays components out with the given algorithm, nesting each component inside the boundary given by
+ * `parentBoundaryIds` (component ID -> boundary ID; by default the boundary it currently sits inside).
+ * Components nested in a boundary (`parentNode`) stay nested in it, with their position relative to it.
+ * Boundaries may themselves be nested. Returns updated copies of the components.
+ */
+export function applyAutoLayout(
+  components: DiagramComponent[],
+  connections: DiagramConnection[],
+  algorithm: LayoutAlgorithm = 'layered',
+  parentBoundaryIds: Map<string, string> = getParentBoundaryIds(components)
+): DiagramComponent[] {
+  const boxes = new Map<string, LayoutBox>(components.map(component => [component.id, {
+    id: component.id,
+    width: component.isBoundary ? MIN_BOUNDARY_WIDTH : component.properties?.width || DEFAULT_NODE_SIZE,
+    height: component.isBoundary ? MIN_BOUNDARY_HEIGHT : component.properties?.height || DEFAULT_NODE_SIZE,
+    children: [],
+    childOffsets: new Map(),
+  }]));
+
+  // The boundary a component is nested in wins over the one its center happens to lie in
+  const nestedParentIds = new Map(components
+    .filter(component => component.properties?.parentNode && boxes.has(component.properties.parentNode))
+    .map(component => [component.id, component.properties.parentNode!]));
+  const getParentId = (id: string) => nestedParentIds.get(id) ?? parentBoundaryIds.get(id);
+
+  // Ancestor chains, guarding against boundaries that (invalidly) contain each other
+  const root: LayoutBox = { id: '__root__', width: 0, height: 0, children: [], childOffsets: new Map() };
+  const chains = new Map<string, string[]>();
+  const getChain = (id: string): string[] => {
+    if (chains.has(id)) return chains.get(id)!;
+    const chain = [id];
+    let parentId = getParentId(id);
+    while (parentId && boxes.has(parentId) && !chain.includes(parentId)) {
+      chain.push(parentId);
+      parentId = getParentId(parentId);
+    }
+    chain.push(root.id);
+    chains.set(id, chain);
+    return chain;
+  };
+  for (const component of components) {
+    const [, parentId] = getChain(component.id);
+    (boxes.get(parentId) || root).children.push(boxes.get(component.id)!);
+  }
+
+  // Each connection is laid out in the innermost boundary holding both ends, between the boxes containing them
+  const edgesByBox = new Map<string, LayoutEdge[]>();
+  const seen = new Set<string>();
+  for (const connection of connections) {
+    if (!boxes.has(connection.source) || !boxes.has(connection.target)) continue;
+    const sourceChain = getChain(connection.source);
+    const targetChain = getChain(connection.target);
+    const commonIndex = sourceChain.findIndex(id => targetChain.includes(id));
+    const container = sourceChain[commonIndex];
+    const source = sourceChain[commonIndex - 1];
+    const target = targetChain[targetChain.indexOf(container) - 1];
+    const key = `${source}->${target}`;
+    if (!source || !target || source === target || seen.has(key)) continue;
+    seen.add(key);
+    edgesByBox.set(container, [...(edgesByBox.get(container) || []), [source, target]]);
+  }
+
+  measure(root, edgesByBox, ARRANGERS[algorithm]);
+  const positions = new Map<string, { x: number; y: number; width: number; height: number }>();
+  place(root, -BOUNDARY_PADDING, -BOUNDARY_PADDING - BOUNDARY_HEADER_HEIGHT, positions);
+
+  return components.map(component => {
+    const rect = positions.get(component.id);
+    if (!rect) return component;
+    const { parentNode, ...properties } = component.properties || {};
+    const parentRect = parentNode ? positions.get(parentNode) : undefined;
+    const position = parentRect ? { x: rect.x - parentRect.x, y: rect.y - parentRect.y } : { x: rect.x, y: rect.y };
+    return {
+      ...component,
+      properties: { ...properties, ...(parentRect && { parentNode }), position, width: rect.width, height: rect.height },
+    };
+  });
+}
@@ -75,7 +75,7 @@ export const componentToNode = (component: DiagramComponent, isSelectedOverride?
     resizable: true, 
     minWidth: minWidth,
     minHeight: minHeight,
-    stencilId: component.id, 
+    stencilId: component.stencilId, 
     isBoundary: isActualBoundary,
     stencilType: component.stencilType, 
   };
@@ -145,6 +145,7 @@ export const nodeToComponent = (node: Node): DiagramComponent => {
     id: node.id, 
     type: node.type || 'Package', 
     properties: propertiesToSave,
+    ...(typeof node.data.stencilId === 'string' && { stencilId: node.data.stencilId }),
   };
   
   const componentName = propertiesToSave.name; 
@@ -409,6 +410,59 @@ export const getTopmostNodeAtClick = (
 };
 
 
+/**
+ * Replaces, adds or removes the nodes of changed components, e.g. changes made by other users or
+ * undone edits. A null component removes its node. Nodes keep their selection, and the node being
+ * dragged is left alone until the drag ends.
+ */
+export const applyComponentChanges = (nodes: Node[], changes: Map<string, DiagramComponent | null>): Node[] => {
+  const next: Node[] = [];
+  for (const node of nodes) {
+    if (!changes.has(node.id)) {
+      next.push(node);
+      continue;
+    }
+    const component = changes.get(node.id);
+    if (!component) continue;
+    if (node.dragging) {
+      next.push(node);
+      continue;
+    }
+    const changedNode = componentToNode(component, node.selected);
+    // Keep measured dimensions in step with the new size, since nodeToComponent prefers them
+    if (node.measured) {
+      changedNode.measured = {
+        width: component.properties?.width ?? node.measured.width,
+        height: component.properties?.height ?? node.measured.height,
+      };
+    }
+    next.push(changedNode);
+  }
+  const existingIds = new Set(nodes.map(node => node.id));
+  // Boundaries first, so parents precede their children
+  const added = Array.from(changes.values())
+    .filter((component): component is DiagramComponent => !!component && !existingIds.has(component.id))
+    .sort((a, b) => Number(!!b.isBoundary) - Number(!!a.isBoundary));
+  return next.concat(added.map(component => componentToNode(component, false)));
+};
+
+export const applyConnectionChanges = (edges: Edge[], changes: Map<string, DiagramConnection | null>): Edge[] => {
+  const next: Edge[] = [];
+  for (const edge of edges) {
+    if (!changes.has(edge.id)) {
+      next.push(edge);
+      continue;
+    }
+    const connection = changes.get(edge.id);
+    if (connection) next.push(connectionToEdge(connection, edge.selected));
+  }
+  const existingIds = new Set(edges.map(edge => edge.id));
+  for (const connection of changes.values()) {
+    if (connection && !existingIds.has(connection.id)) next.push(connectionToEdge(connection, false));
+  }
+  return next;
+};
+
 export function debounce<F extends (...args: any[]) => any>(func: F, waitFor: number) {
   let timeout: ReturnType<typeof setTimeout> | null = null;
   const debounced = (...args: Parameters<F>) => {
@@ -424,3 +478,91 @@ export function isPointInsideBounds(point: XYPosition, bounds: Bounds): boolean
 }
 
     
+
+
+export interface ConnectionBoundaryInfo {
+  connectionId: string;
+  sourceBoundaryIds: string[]; // Boundaries the source component sits inside
+  targetBoundaryIds: string[]; // Boundaries the target component sits inside
+  crossedBoundaryIds: string[]; // Boundaries containing exactly one end of the connection
+}
+
+const getComponentBounds = (component: DiagramComponent, componentsById: Map<string, DiagramComponent>): Bounds | null => {
+  const position = component.properties?.position;
+  const width = component.properties?.width;
+  const height = component.properties?.height;
+  if (!position || typeof width !== 'number' || typeof height !== 'number') return null;
+
+  // Positions of nested nodes are relative to their parent node.
+  const parent = component.properties?.parentNode ? componentsById.get(component.properties.parentNode) : undefined;
+  const parentPosition = parent?.properties?.position || { x: 0, y: 0 };
+  return { x: position.x + parentPosition.x, y: position.y + parentPosition.y, width, height };
+};
+
+/**
+ * Prepares the boundaries of a diagram once, for looking up the boundaries of many of its components.
+ * The lookup returns the IDs of the boundaries a component sits inside, either because it is nested
+ * in the boundary (`parentNode`) or because its center lies within the boundary's bounds.
+ */
+export const createContainingBoundaryLookup = (components: DiagramComponent[]): ((component: DiagramComponent) => string[]) => {
+  const componentsById = new Map(components.map(c => [c.id, c]));
+  const boundaries = components
+    .filter(c => c.isBoundary === true)
+    .map(boundary => ({ id: boundary.id, bounds: getComponentBounds(boundary, componentsById) }));
+
+  return component => {
+    const bounds = getComponentBounds(component, componentsById);
+    const center = bounds ? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 } : null;
+    return boundaries
+      .filter(boundary => boundary.id !== component.id && (
+        component.properties?.parentNode === boundary.id ||
+        (!!center && !!boundary.bounds && isPointInsideBounds(center, boundary.bounds))
+      ))
+      .map(boundary => boundary.id);
+  };
+};
+
+/**
+ * Determines, for every connection, which boundaries its source and target sit inside
+ * and which trust boundaries the connection crosses.
+ */
+export const analyzeTrustBoundaries = (components: DiagramComponent[], connections: DiagramConnection[]): ConnectionBoundaryInfo[] => {
+  const getBoundaryIds = createContainingBoundaryLookup(components);
+  const boundaryIdsByComponent = new Map(
+    components.filter(c => c.isBoundary !== true).map(c => [c.id, getBoundaryIds(c)])
+  );
+
+  return connections.map(connection => {
+    const sourceBoundaryIds = boundaryIdsByComponent.get(connection.source) || [];
+    const targetBoundaryIds = boundaryIdsByComponent.get(connection.target) || [];
+    return {
+      connectionId: connection.id,
+      sourceBoundaryIds,
+      targetBoundaryIds,
+      crossedBoundaryIds: [
+        ...sourceBoundaryIds.filter(id => !targetBoundaryIds.includes(id)),
+        ...targetBoundaryIds.filter(id => !sourceBoundaryIds.includes(id)),
+      ],
+    };
+  });
+};
+
+export const getBoundaryCrossings = (components: DiagramComponent[], connections: DiagramConnection[]): ConnectionBoundaryInfo[] =>
+  analyzeTrustBoundaries(components, connections).filter(info => info.crossedBoundaryIds.length > 0);
+
+/**
+ * A key that only changes with what boundary crossings depend on: the position, size and nesting of
+ * nodes, which nodes are boundaries and which nodes each edge links. Selecting or renaming leaves it unchanged.
+ */
+export const getBoundaryGeometryKey = (nodes: Node[], edges: Edge[]): string => [
+  ...nodes.map(node => [
+    node.id,
+    node.position.x,
+    node.position.y,
+    node.measured?.width ?? node.width ?? node.style?.width,
+    node.measured?.height ?? node.height ?? node.style?.height,
+    (node as Node & { parentNode?: string }).parentNode, // Set by componentToNode
+    node.data.isBoundary === true,
+  ].join(',')),
+  ...edges.map(edge => `${edge.id}:${edge.source}>${edge.target}`),
+].join('|');
@@ -0,0 +1,173 @@
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+import type { PropertyDefinition } from '@/types/stencil';
+import { getElementKind } from '@/lib/threat-engine';
+import { placeholderInfrastructureStencils, placeholderProcessStencils } from '@/lib/placeholder-stencils';
+import { getStencilPropertySchema, validatePropertyValue } from '@/lib/property-schema';
+
+/**
+ * Structural checks that tell whether a model is well-formed enough to generate a report from.
+ * Findings point at the element they are about, so the panel can select it.
+ */
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationRule =
+  | 'danglingFlow'
+  | 'orphanComponent'
+  | 'missingFlowDetails'
+  | 'externalOnlyDataStore'
+  | 'defaultName'
+  | 'processWithoutOutput'
+  | 'invalidProperty';
+
+export interface ValidationFinding {
+  id: string; // Rule and element, stable across runs
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  elementId: string;
+  elementType: 'component' | 'connection';
+  elementName: string;
+  message: string;
+}
+
+export const VALIDATION_RULE_LABELS: Record<ValidationRule, string> = {
+  danglingFlow: 'Dangling data flow',
+  orphanComponent: 'Unconnected component',
+  missingFlowDetails: 'Incomplete data flow',
+  externalOnlyDataStore: 'Data store reached only by external entities',
+  defaultName: 'Default name',
+  processWithoutOutput: 'Process step without outgoing flow',
+  invalidProperty: 'Invalid property',
+};
+
+// Names elements get when they are placed, which say nothing about what the element is
+const DEFAULT_NAMES = new Set(
+  ['Data Flow', ...placeholderInfrastructureStencils.map(stencil => stencil.name), ...placeholderProcessStencils.map(stencil => stencil.name)]
+    .map(name => name.toLowerCase())
+);
+
+// Data type that new flows get until someone fills it in
+const PLACEHOLDER_DATA_TYPE = 'generic';
+
+// Process shapes that may end a flow: terminators and notes
+const PROCESS_END_TYPES = ['Circle', 'StickyNote'];
+
+const componentName = (component: DiagramComponent): string =>
+  component.properties?.name || component.name || component.id;
+
+const connectionName = (connection: DiagramConnection): string =>
+  connection.properties?.name || connection.label || connection.id;
+
+const isBlank = (value: unknown): boolean => typeof value !== 'string' || value.trim() === '';
+
+const hasDefaultName = (name: string, element: DiagramComponent | DiagramConnection): boolean => {
+  const normalized = name.trim().toLowerCase();
+  if (normalized === '' || name === element.id || DEFAULT_NAMES.has(normalized)) return true;
+  // Components named after their icon, e.g. "Database"
+  return 'type' in element && [element.type, element.iconName].some(type => type?.toLowerCase() === normalized);
+};
+
+const finding = (
+  rule: ValidationRule,
+  severity: ValidationSeverity,
+  elementType: 'component' | 'connection',
+  elementId: string,
+  elementName: string,
+  message: string
+): ValidationFinding => ({ id: `${rule}:${elementId}`, rule, severity, elementId, elementType, elementName, message });
+
+/**
+ * Checks a diagram for dangling and incomplete data flows, unconnected components, data stores that
+ * only external entities reach, default names, process steps that lead nowhere, and property values
+ * that do not match the property schema of the component's stencil.
+ *
+ * @param propertySchemas The property schemas by stencil ID, see `createPropertySchemaMap`.
+ * @returns The findings, errors first, in diagram order otherwise.
+ */
+export function validateDiagram(
+  components: DiagramComponent[],
+  connections: DiagramConnection[],
+  propertySchemas: ReadonlyMap<string, PropertyDefinition[]> = new Map()
+): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  const componentsById = new Map(components.map(component => [component.id, component]));
+  const connectionsByComponent = new Map<string, DiagramConnection[]>();
+  for (const connection of connections) {
+    for (const end of new Set([connection.source, connection.target])) {
+      connectionsByComponent.set(end, [...(connectionsByComponent.get(end) || []), connection]);
+    }
+  }
+
+  for (const connection of connections) {
+    const name = connectionName(connection);
+    const missingEnds = [
+      !componentsById.has(connection.source) && 'source',
+      !componentsById.has(connection.target) && 'target',
+    ].filter(Boolean);
+    if (missingEnds.length > 0) {
+      findings.push(finding('danglingFlow', 'error', 'connection', connection.id, name,
+        `"${name}" has no ${missingEnds.join(' or ')} component. Delete it or connect it again.`));
+    }
+
+    const dataType = connection.properties?.dataType;
+    const missingDetails = [
+      isBlank(connection.properties?.protocol) && 'protocol',
+      (isBlank(dataType) || dataType.trim().toLowerCase() === PLACEHOLDER_DATA_TYPE) && 'data type',
+    ].filter(Boolean);
+    if (missingDetails.length > 0) {
+      findings.push(finding('missingFlowDetails', 'warning', 'connection', connection.id, name,
+        `"${name}" does not say its ${missingDetails.join(' or ')}.`));
+    }
+
+    if (hasDefaultName(name, connection)) {
+      findings.push(finding('defaultName', 'warning', 'connection', connection.id, name,
+        `Data flow "${name}" still has its default name. Name it after the data it carries.`));
+    }
+  }
+
+  for (const component of components) {
+    const kind = getElementKind(component);
+    if (kind === 'boundary') continue;
+    const name = componentName(component);
+    const attached = connectionsByComponent.get(component.id) || [];
+
+    if (attached.length === 0) {
+      findings.push(finding('orphanComponent', 'warning', 'component', component.id, name,
+        `"${name}" is not connected to anything.`));
+    }
+
+    if (kind === 'dataStore' && attached.length > 0) {
+      const peers = attached.map(connection =>
+        componentsById.get(connection.source === component.id ? connection.target : connection.source));
+      if (peers.every(peer => peer && getElementKind(peer) === 'externalEntity')) {
+        findings.push(finding('externalOnlyDataStore', 'warning', 'component', component.id, name,
+          `"${name}" is only reached by external entities. Add the process that mediates access to it.`));
+      }
+    }
+
+    if (hasDefaultName(name, component)) {
+      findings.push(finding('defaultName', 'warning', 'component', component.id, name,
+        `"${name}" still has its default name.`));
+    }
+
+    const propertyErrors = getStencilPropertySchema(propertySchemas, component.stencilId)
+      .map(definition => validatePropertyValue(definition, component.properties?.[definition.key]))
+      .filter((error): error is string => error !== null);
+    if (propertyErrors.length > 0) {
+      findings.push(finding('invalidProperty', 'warning', 'component', component.id, name,
+        `"${name}": ${propertyErrors.join(' ')}`));
+    }
+
+    const isProcessStep = component.stencilType === 'process' && !PROCESS_END_TYPES.includes(component.iconName || component.type);
+    if (isProcessStep && attached.length > 0) {
+      const hasOutgoing = attached.some(connection =>
+        connection.source === component.id || connection.properties?.isBiDirectional === true);
+      if (!hasOutgoing) {
+        findings.push(finding('processWithoutOutput', 'warning', 'component', component.id, name,
+          `Process step "${name}" has no outgoing flow.`));
+      }
+    }
+  }
+
+  return findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
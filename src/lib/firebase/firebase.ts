@@ -1,8 +1,8 @@
 
 import { initializeApp, getApps, getApp, type FirebaseApp } from 'firebase/app';
-import { getAuth, type Auth } from 'firebase/auth';
+import { getAuth, connectAuthEmulator, type Auth } from 'firebase/auth';
 // Modify Firestore imports to include initializeFirestore and memoryLocalCache
-import { getFirestore, initializeFirestore, memoryLocalCache, type Firestore } from 'firebase/firestore';
+import { getFirestore, initializeFirestore, memoryLocalCache, connectFirestoreEmulator, type Firestore } from 'firebase/firestore';
 
 // --- Configuration ---
 const firebaseConfig = {
@@ -15,6 +15,12 @@ const firebaseConfig = {
   measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID, // Optional
 };
 
+// Set to run against the local Firebase emulators (see firebase.json), e.g. to test live collaboration
+// with several browser sessions without touching a real project.
+const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST;
+const FIRESTORE_EMULATOR_PORT = 8080;
+const AUTH_EMULATOR_PORT = 9099;
+
 const requiredKeys: (keyof typeof firebaseConfig)[] = [
   'apiKey', 'authDomain', 'projectId', 'storageBucket', 'messagingSenderId', 'appId'
 ];
@@ -69,6 +75,11 @@ if (!valid) {
         console.log("Initializing Firestore for client environment.");
         db = getFirestore(app);
       }
+      if (emulatorHost) {
+        console.log(`Connecting Firebase Auth and Firestore to the emulators on ${emulatorHost}.`);
+        connectAuthEmulator(auth, `http://${emulatorHost}:${AUTH_EMULATOR_PORT}`, { disableWarnings: true });
+        connectFirestoreEmulator(db, emulatorHost, FIRESTORE_EMULATOR_PORT);
+      }
       console.log("Firebase Auth and Firestore services initialized.");
     } catch (e) {
       const serviceInitError = `Error initializing Firebase services (Auth/Firestore): ${e instanceof Error ? e.message : String(e)}`;
@@ -0,0 +1,138 @@
+
+import type { Component } from '@/services/diagram';
+import type { StrideCategory, ThreatRating, ThreatStatus } from '@/types/threat';
+import type { StencilData } from '@/types/stencil';
+import { placeholderInfrastructureStencils } from '@/lib/placeholder-stencils';
+
+/**
+ * Helpers shared by the importers, so elements from every source format look the same on the canvas.
+ */
+
+export type ImportedElementKind = 'externalEntity' | 'process' | 'dataStore' | 'boundary';
+
+interface ImportedBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const ELEMENT_VISUALS: Record<ImportedElementKind, { iconName: string; textColor: string; width: number; height: number }> = {
+  externalEntity: { iconName: 'User', textColor: '#EF4444', width: 80, height: 80 },
+  process: { iconName: 'Server', textColor: '#3B82F6', width: 80, height: 80 },
+  dataStore: { iconName: 'Database', textColor: '#10B981', width: 80, height: 80 },
+  boundary: { iconName: 'ShieldCheck', textColor: '#4F46E5', width: 400, height: 300 },
+};
+
+const BOUNDARY_COLOR = '#4F46E5';
+const MIN_BOUNDARY_WIDTH = 200;
+const MIN_BOUNDARY_HEIGHT = 150;
+
+/**
+ * Creates an infrastructure component of the given kind, using the same icons and colors as the
+ * built-in stencils. Missing bounds fall back to the stencil's default size at the origin.
+ */
+export const createImportedComponent = (
+  id: string,
+  kind: ImportedElementKind,
+  name: string,
+  properties: Record<string, any>,
+  bounds?: Partial<ImportedBounds>
+): Component => {
+  const visual = ELEMENT_VISUALS[kind];
+  const isBoundary = kind === 'boundary';
+  return {
+    id,
+    type: isBoundary ? 'Boundary' : visual.iconName,
+    name,
+    stencilType: 'infrastructure',
+    iconName: visual.iconName,
+    textColor: visual.textColor,
+    ...(isBoundary && { boundaryColor: BOUNDARY_COLOR }),
+    isBoundary,
+    properties: {
+      ...properties,
+      name,
+      position: { x: bounds?.x ?? 0, y: bounds?.y ?? 0 },
+      width: bounds?.width || visual.width,
+      height: bounds?.height || visual.height,
+    },
+  };
+};
+
+/**
+ * Looks up a stencil by name, preferring the admin-managed stencils over the built-in placeholders.
+ */
+export const findStencil = (name: string, stencils: StencilData[] = []): StencilData | undefined => {
+  const matches = (stencil: StencilData) => stencil.name.toLowerCase() === name.toLowerCase();
+  return stencils.find(matches) || placeholderInfrastructureStencils.find(matches);
+};
+
+/**
+ * Creates a component from a stencil, copying its visual details the same way dropping it on the canvas does.
+ * The stencil's example properties are not copied, as they do not describe the imported element.
+ */
+export const createStencilComponent = (
+  id: string,
+  stencil: StencilData,
+  name: string,
+  properties: Record<string, any>
+): Component => {
+  const isBoundary = stencil.stencilType === 'infrastructure' && stencil.isBoundary === true;
+  return {
+    id,
+    type: isBoundary ? 'Boundary' : stencil.iconName,
+    name,
+    stencilId: stencil.id,
+    stencilType: stencil.stencilType,
+    iconName: stencil.iconName,
+    textColor: stencil.textColor,
+    ...(isBoundary && { boundaryColor: stencil.boundaryColor }),
+    isBoundary,
+    properties: { ...properties, name },
+  };
+};
+
+/**
+ * Line-shaped trust boundaries have no area, so they are imported as boxes spanning their end points.
+ */
+export const boundsFromLine = (start: { x: number; y: number }, end: { x: number; y: number }): ImportedBounds => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.max(Math.abs(start.x - end.x), MIN_BOUNDARY_WIDTH),
+  height: Math.max(Math.abs(start.y - end.y), MIN_BOUNDARY_HEIGHT),
+});
+
+const STRIDE_BY_NAME: Record<string, StrideCategory> = {
+  'spoofing': 'Spoofing',
+  'tampering': 'Tampering',
+  'repudiation': 'Repudiation',
+  'information disclosure': 'Information Disclosure',
+  'denial of service': 'Denial of Service',
+  'elevation of privilege': 'Elevation of Privilege',
+  // CIA categories, used by some tools instead of STRIDE
+  'confidentiality': 'Information Disclosure',
+  'integrity': 'Tampering',
+  'availability': 'Denial of Service',
+};
+
+/**
+ * Maps a category name from another tool onto STRIDE, ignoring case and spacing.
+ * Returns null for categories with no STRIDE equivalent.
+ */
+export const parseStrideCategory = (value: string | undefined | null): StrideCategory | null =>
+  STRIDE_BY_NAME[String(value || '').trim().toLowerCase().replace(/\s+/g, ' ')] || null;
+
+export const parseThreatRating = (value: string | undefined | null): ThreatRating => {
+  const normalized = String(value || '').trim().toLowerCase();
+  if (normalized === 'high' || normalized === 'critical') return 'High';
+  if (normalized === 'low') return 'Low';
+  return 'Medium';
+};
+
+export const parseThreatStatus = (value: string | undefined | null): ThreatStatus => {
+  const normalized = String(value || '').trim().toLowerCase().replace(/[\s_-]+/g, '');
+  if (normalized === 'mitigated') return 'Mitigated';
+  if (normalized === 'na' || normalized === 'notapplicable') return 'Not Applicable';
+  return 'Open';
+};
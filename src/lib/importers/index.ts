@@ -0,0 +1,76 @@
+
+import type { LoadedThreatModel, ReportEntry } from '@/services/diagram';
+import { renderThreatRegisterHtml } from '@/lib/threat-engine';
+import { exportThreatDragonFile, importThreatDragonModel, isThreatDragonModel } from './threat-dragon';
+import { importTm7Model, isTm7Document } from './tm7';
+import { importTerraformModel, isTerraformJson } from './terraform';
+import { importKubernetesManifests, isKubernetesManifest } from './kubernetes';
+import { exportModelFile, importModelFile, isModelFile } from '@/lib/model-file';
+import type { ExportedFile, ImportedThreatModel, ImportOptions } from './types';
+
+export type { ExportedFile, ImportedThreatModel, ImportOptions } from './types';
+
+export type ExportFormat = 'model-file' | 'threat-dragon';
+
+/**
+ * File types accepted by the import file picker.
+ */
+export const IMPORT_FILE_ACCEPT = '.json,.tm7,.yaml,.yml';
+
+/**
+ * Detects the format of an imported file and converts it into a threat model.
+ */
+export function importThreatModelFile(fileName: string, content: string, options: ImportOptions = {}): ImportedThreatModel {
+  if (fileName.toLowerCase().endsWith('.tm7') || isTm7Document(content)) {
+    return importTm7Model(content);
+  }
+  if (/\.ya?ml$/i.test(fileName) || (!content.trim().startsWith('{') && isKubernetesManifest(content))) {
+    return importKubernetesManifests(content, options);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    throw new Error(`"${fileName}" is not a supported threat model file.`);
+  }
+  if (isModelFile(data)) {
+    return importModelFile(data as Record<string, any>);
+  }
+  if (isThreatDragonModel(data)) {
+    return importThreatDragonModel(data);
+  }
+  if (isTerraformJson(data)) {
+    return importTerraformModel(data, options);
+  }
+  throw new Error(`"${fileName}" is not in a recognised threat model format.`);
+}
+
+export function exportThreatModelFile(model: LoadedThreatModel, format: ExportFormat): ExportedFile {
+  switch (format) {
+    case 'model-file':
+      return exportModelFile(model);
+    case 'threat-dragon':
+      return exportThreatDragonFile(model);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+/**
+ * Wraps threats carried over from another tool in a report, so they show up in the threat register.
+ */
+export function createImportedReport(imported: ImportedThreatModel): ReportEntry {
+  const createdDate = new Date();
+  return {
+    reportName: `${imported.name} - Imported from ${imported.sourceFormat}`,
+    reportData: renderThreatRegisterHtml(
+      { ...imported, applicationDescription: imported.description, ...imported.metadata, modelName: imported.name, generatedAt: createdDate },
+      imported.threats,
+      `These threats were imported from ${imported.sourceFormat}.`
+    ),
+    threats: imported.threats,
+    generatedBy: 'import',
+    createdDate,
+  };
+}
@@ -0,0 +1,330 @@
+
+import { parseAllDocuments } from 'yaml';
+import type { Component, Connection } from '@/services/diagram';
+import { applyAutoLayout } from '@/lib/diagram-layout';
+import type { ImportedThreatModel, ImportOptions } from './types';
+import { createStencilComponent, findStencil } from './common';
+
+/**
+ * Generates a diagram from Kubernetes YAML manifests (one or more documents, or `kind: List`).
+ *
+ * Workloads, Services and Ingresses become components, namespaces become boundaries, and
+ * Service selectors, Ingress rules and NetworkPolicies become connections carrying their
+ * protocol and port.
+ */
+
+interface KubernetesObject {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: { name?: string; namespace?: string; labels?: Record<string, string> };
+  spec?: Record<string, any>;
+  items?: KubernetesObject[];
+}
+
+interface LabelSelector {
+  matchLabels?: Record<string, string>;
+  matchExpressions?: { key: string; operator: string; values?: string[] }[];
+}
+
+interface Workload {
+  id: string;
+  namespace: string;
+  podLabels: Record<string, string>;
+}
+
+const WORKLOAD_STENCILS: Record<string, string> = {
+  Deployment: 'Server',
+  DaemonSet: 'Server',
+  ReplicaSet: 'Server',
+  Job: 'Server',
+  CronJob: 'Server',
+  Pod: 'Server',
+  StatefulSet: 'Database', // StatefulSets usually run data stores
+};
+const SERVICE_STENCIL = 'Router';
+const INGRESS_STENCIL = 'Router';
+const NAMESPACE_STENCIL = 'Trust Boundary';
+
+const DEFAULT_NAMESPACE = 'default';
+const INTERNET_ID = 'k8s-internet';
+const PUBLIC_CIDRS = ['0.0.0.0/0', '::/0'];
+const PUBLIC_SERVICE_TYPES = ['LoadBalancer', 'NodePort'];
+
+const getNamespace = (object: KubernetesObject): string => object.metadata?.namespace || DEFAULT_NAMESPACE;
+
+const getObjectId = (object: KubernetesObject): string =>
+  `${getNamespace(object)}/${object.kind}/${object.metadata?.name}`.toLowerCase();
+
+const getNamespaceId = (namespace: string): string => `namespace/${namespace}`.toLowerCase();
+
+/**
+ * Returns the pod template of a workload; CronJobs nest it inside their job template.
+ */
+const getPodSpec = (object: KubernetesObject): { labels: Record<string, string>; spec: Record<string, any> } => {
+  if (object.kind === 'Pod') return { labels: object.metadata?.labels || {}, spec: object.spec || {} };
+  const template = object.kind === 'CronJob' ? object.spec?.jobTemplate?.spec?.template : object.spec?.template;
+  return { labels: template?.metadata?.labels || {}, spec: template?.spec || {} };
+};
+
+/**
+ * Matches labels against a Kubernetes label selector. A missing selector matches nothing, an empty one matches everything.
+ */
+const matchesSelector = (labels: Record<string, string>, selector: LabelSelector | undefined | null): boolean => {
+  if (!selector) return false;
+  const matchLabels = Object.entries(selector.matchLabels || {}).every(([key, value]) => labels[key] === value);
+  const matchExpressions = (selector.matchExpressions || []).every(({ key, operator, values = [] }) => {
+    switch (operator) {
+      case 'In': return values.includes(labels[key]);
+      case 'NotIn': return !values.includes(labels[key]);
+      case 'Exists': return key in labels;
+      case 'DoesNotExist': return !(key in labels);
+      default: return false;
+    }
+  });
+  return matchLabels && matchExpressions;
+};
+
+const describePort = (port: Record<string, any> | undefined): { protocol?: string; port?: string } => {
+  if (!port) return {};
+  const value = port.port ?? port.number ?? port.name;
+  return {
+    protocol: port.appProtocol || port.protocol || undefined,
+    port: value === undefined ? undefined : String(port.endPort ? `${value}-${port.endPort}` : value),
+  };
+};
+
+/**
+ * Extracts the security relevant settings of a workload's containers into component properties.
+ */
+const getWorkloadProperties = (object: KubernetesObject): Record<string, any> => {
+  const { spec } = getPodSpec(object);
+  const containers: Record<string, any>[] = [...(spec.initContainers || []), ...(spec.containers || [])];
+  const securityContexts = containers.map(container => ({ ...spec.securityContext, ...container.securityContext }));
+  return {
+    kind: object.kind,
+    namespace: getNamespace(object),
+    images: containers.map(container => container.image).filter(Boolean).join(', '),
+    ...(object.spec?.replicas !== undefined && { replicas: object.spec.replicas }),
+    ...(spec.serviceAccountName && { serviceAccount: spec.serviceAccountName }),
+    privileged: securityContexts.some(context => context.privileged === true),
+    runAsNonRoot: containers.length > 0 && securityContexts.every(context => context.runAsNonRoot === true),
+    ...(spec.hostNetwork && { hostNetwork: true }),
+  };
+};
+
+const parseManifests = (content: string): KubernetesObject[] => {
+  const documents = parseAllDocuments(content);
+  const objects: KubernetesObject[] = [];
+  for (const document of Array.isArray(documents) ? documents : [documents]) {
+    if (document.errors.length > 0) {
+      throw new Error(`The YAML could not be parsed: ${document.errors[0].message}`);
+    }
+    const value = document.toJS() as KubernetesObject | null;
+    if (!value || typeof value !== 'object') continue;
+    if (value.kind === 'List' || value.kind?.endsWith('List')) objects.push(...(value.items || []));
+    else objects.push(value);
+  }
+  return objects.filter(object => object && object.kind && object.metadata?.name);
+};
+
+export const isKubernetesManifest = (content: string): boolean =>
+  /^\s*apiVersion\s*:/m.test(content) && /^\s*kind\s*:/m.test(content);
+
+/**
+ * Converts Kubernetes manifests into a laid-out diagram.
+ */
+export function importKubernetesManifests(content: string, options: ImportOptions = {}): ImportedThreatModel {
+  const objects = parseManifests(content);
+  if (objects.length === 0) {
+    throw new Error('The file does not contain any Kubernetes objects.');
+  }
+
+  const warnings: string[] = [];
+  const components: Component[] = [];
+  const parentBoundaryIds = new Map<string, string>();
+  const addComponent = (id: string, stencilName: string, name: string, properties: Record<string, any>, namespace?: string) => {
+    const stencil = findStencil(stencilName, options.stencils);
+    if (!stencil) {
+      warnings.push(`No "${stencilName}" stencil is available; ${name} was skipped.`);
+      return;
+    }
+    components.push(createStencilComponent(id, stencil, name, properties));
+    if (namespace) parentBoundaryIds.set(id, getNamespaceId(namespace));
+  };
+
+  // Namespaces, including those only referenced by other objects
+  const namespaces = new Set(objects.filter(object => object.kind === 'Namespace').map(object => object.metadata!.name!));
+  objects.filter(object => object.kind! in WORKLOAD_STENCILS || ['Service', 'Ingress'].includes(object.kind!))
+    .forEach(object => namespaces.add(getNamespace(object)));
+  const namespaceLabels = new Map<string, Record<string, string>>(
+    objects.filter(object => object.kind === 'Namespace').map(object => [object.metadata!.name!, object.metadata?.labels || {}])
+  );
+  for (const namespace of Array.from(namespaces).sort()) {
+    addComponent(getNamespaceId(namespace), NAMESPACE_STENCIL, namespace, { kind: 'Namespace' });
+  }
+  // Namespaces are also selectable by their automatic name label
+  const getNamespaceLabels = (namespace: string) => ({ 'kubernetes.io/metadata.name': namespace, ...namespaceLabels.get(namespace) });
+
+  const workloads: Workload[] = [];
+  const skippedKinds = new Set<string>();
+  for (const object of objects) {
+    const name = object.metadata!.name!;
+    const namespace = getNamespace(object);
+    const id = getObjectId(object);
+    if (object.kind! in WORKLOAD_STENCILS) {
+      addComponent(id, WORKLOAD_STENCILS[object.kind!], name, getWorkloadProperties(object), namespace);
+      workloads.push({ id, namespace, podLabels: getPodSpec(object).labels });
+    } else if (object.kind === 'Service') {
+      const type = object.spec?.type || 'ClusterIP';
+      addComponent(id, SERVICE_STENCIL, name, { kind: 'Service', namespace, serviceType: type, publicAccess: PUBLIC_SERVICE_TYPES.includes(type) }, namespace);
+    } else if (object.kind === 'Ingress') {
+      const tlsHosts: string[] = (object.spec?.tls || []).flatMap((tls: Record<string, any>) => tls.hosts || []);
+      addComponent(id, INGRESS_STENCIL, name, {
+        kind: 'Ingress',
+        namespace,
+        publicAccess: true,
+        encryption: tlsHosts.length > 0,
+        ...(object.spec?.ingressClassName && { ingressClass: object.spec.ingressClassName }),
+      }, namespace);
+    } else if (!['Namespace', 'NetworkPolicy'].includes(object.kind!)) {
+      skippedKinds.add(object.kind!);
+    }
+  }
+  const componentIds = new Set(components.map(component => component.id));
+
+  const connectionsByKey = new Map<string, Connection>();
+  const addConnection = (source: string, target: string, name: string, properties: Record<string, any>) => {
+    if (source === target || !componentIds.has(source) || !componentIds.has(target)) return;
+    const key = `${source}->${target}`;
+    if (connectionsByKey.has(key)) return;
+    connectionsByKey.set(key, {
+      id: `k8s-${key}`,
+      source,
+      target,
+      label: name,
+      properties: { name, ...properties, isBiDirectional: false },
+    });
+  };
+  const ensureInternet = () => {
+    if (componentIds.has(INTERNET_ID)) return;
+    addComponent(INTERNET_ID, 'User', 'Internet', { description: 'Traffic from outside the cluster.' });
+    componentIds.add(INTERNET_ID);
+  };
+  const describeTraffic = ({ protocol, port }: { protocol?: string; port?: string }) =>
+    [protocol, port].filter(Boolean).join(' ') || 'Traffic';
+
+  // Services route to the workloads their selector matches
+  for (const service of objects.filter(object => object.kind === 'Service')) {
+    const serviceId = getObjectId(service);
+    const ports: Record<string, any>[] = service.spec?.ports || [];
+    const traffic = describePort(ports[0] && { ...ports[0], port: ports[0].targetPort ?? ports[0].port });
+    const properties = {
+      ...(traffic.protocol && { protocol: traffic.protocol }),
+      ...(traffic.port && { port: traffic.port }),
+      ...(ports.length > 1 && { ports: ports.map(port => `${port.port}->${port.targetPort ?? port.port}/${port.protocol || 'TCP'}`).join(', ') }),
+    };
+    if (service.spec?.selector) {
+      workloads
+        .filter(workload => workload.namespace === getNamespace(service) && matchesSelector(workload.podLabels, { matchLabels: service.spec!.selector }))
+        .forEach(workload => addConnection(serviceId, workload.id, describeTraffic(traffic), properties));
+    }
+    if (PUBLIC_SERVICE_TYPES.includes(service.spec?.type)) {
+      ensureInternet();
+      const exposed = describePort(ports[0]);
+      addConnection(INTERNET_ID, serviceId, describeTraffic(exposed), exposed);
+    }
+  }
+
+  // Ingresses are reachable from outside the cluster and route to their backend services
+  for (const ingress of objects.filter(object => object.kind === 'Ingress')) {
+    const ingressId = getObjectId(ingress);
+    const tlsHosts: string[] = (ingress.spec?.tls || []).flatMap((tls: Record<string, any>) => tls.hosts || []);
+    const rules: Record<string, any>[] = ingress.spec?.rules || [];
+    ensureInternet();
+    addConnection(INTERNET_ID, ingressId, tlsHosts.length > 0 ? 'HTTPS' : 'HTTP', {
+      protocol: tlsHosts.length > 0 ? 'HTTPS' : 'HTTP',
+      port: tlsHosts.length > 0 ? '443' : '80',
+      ...(rules.some(rule => rule.host) && { hosts: rules.map(rule => rule.host).filter(Boolean).join(', ') }),
+    });
+    const backends: { host?: string; path?: string; backend: Record<string, any> }[] = [
+      ...(ingress.spec?.defaultBackend ? [{ backend: ingress.spec.defaultBackend }] : []),
+      ...rules.flatMap(rule => (rule.http?.paths || []).map((path: Record<string, any>) => ({ host: rule.host, path: path.path, backend: path.backend || {} }))),
+    ];
+    for (const { host, path, backend } of backends) {
+      const service = backend.service || (backend.serviceName && { name: backend.serviceName, port: { number: backend.servicePort } }); // networking.k8s.io/v1beta1
+      if (!service?.name) continue;
+      const serviceId = `${getNamespace(ingress)}/service/${service.name}`.toLowerCase();
+      const port = describePort(service.port);
+      addConnection(ingressId, serviceId, describeTraffic({ protocol: 'HTTP', port: port.port }), {
+        protocol: 'HTTP',
+        ...(port.port && { port: port.port }),
+        ...(host && { host }),
+        ...(path && { path }),
+      });
+    }
+  }
+
+  // NetworkPolicies allow traffic between the pods they select
+  for (const policy of objects.filter(object => object.kind === 'NetworkPolicy')) {
+    const namespace = getNamespace(policy);
+    const selected = workloads.filter(workload => workload.namespace === namespace && matchesSelector(workload.podLabels, policy.spec?.podSelector || {}));
+    // A rule without peers allows every peer, so it is drawn from all workloads and the Internet
+    const getPeers = (peers: Record<string, any>[] | undefined): string[] => {
+      if (!peers || peers.length === 0) {
+        if (selected.length === 0) return [];
+        ensureInternet();
+        return [...workloads.map(workload => workload.id), INTERNET_ID];
+      }
+      return peers.flatMap(peer => {
+        if (peer.ipBlock) {
+          if (!PUBLIC_CIDRS.includes(peer.ipBlock.cidr)) return [];
+          ensureInternet();
+          return [INTERNET_ID];
+        }
+        return workloads
+          .filter(workload => peer.namespaceSelector
+            ? matchesSelector(getNamespaceLabels(workload.namespace), peer.namespaceSelector)
+            : workload.namespace === namespace)
+          .filter(workload => matchesSelector(workload.podLabels, peer.podSelector || {}))
+          .map(workload => workload.id);
+      });
+    };
+    const getTraffic = (rule: Record<string, any>) => {
+      const traffic = describePort((rule.ports || [])[0]);
+      return {
+        name: describeTraffic(traffic),
+        properties: { ...traffic, description: `Allowed by NetworkPolicy ${namespace}/${policy.metadata!.name}` },
+      };
+    };
+    for (const rule of policy.spec?.ingress || []) {
+      const { name, properties } = getTraffic(rule);
+      for (const source of getPeers(rule.from)) {
+        selected.forEach(workload => addConnection(source, workload.id, name, properties));
+      }
+    }
+    for (const rule of policy.spec?.egress || []) {
+      const { name, properties } = getTraffic(rule);
+      for (const target of getPeers(rule.to)) {
+        selected.forEach(workload => addConnection(workload.id, target, name, properties));
+      }
+    }
+  }
+
+  if (skippedKinds.size > 0) {
+    warnings.push(`${skippedKinds.size} kind(s) are not drawn: ${Array.from(skippedKinds).sort().join(', ')}.`);
+  }
+
+  const connections = Array.from(connectionsByKey.values());
+  return {
+    name: 'Kubernetes Workloads',
+    modelType: 'infrastructure',
+    components: applyAutoLayout(components, connections, 'layered', parentBoundaryIds),
+    connections: connections.map(connection => ({
+      ...connection,
+      properties: Object.fromEntries(Object.entries(connection.properties || {}).filter(([, value]) => value !== undefined)),
+    })),
+    threats: [],
+    warnings,
+    sourceFormat: 'Kubernetes',
+  };
+}
@@ -0,0 +1,429 @@
+
+import type { Component, Connection } from '@/services/diagram';
+import { applyAutoLayout } from '@/lib/diagram-layout';
+import type { ImportedThreatModel, ImportOptions } from './types';
+import { createStencilComponent, findStencil } from './common';
+
+/**
+ * Generates an infrastructure diagram from Terraform JSON (`terraform show -json` of a plan or state).
+ *
+ * Resources become components using the matching stencils, VPCs/subnets (and their Azure/GCP
+ * equivalents) become boundaries, and security group rules and references between resources
+ * become connections. References are read from the plan's `configuration` section; for state
+ * files, which have no configuration, attribute values are matched against resource IDs instead.
+ */
+
+interface TerraformResource {
+  address: string;
+  mode?: string;
+  type: string;
+  name: string;
+  values?: Record<string, any>;
+}
+
+interface TerraformModule {
+  resources?: TerraformResource[];
+  child_modules?: TerraformModule[];
+}
+
+interface TerraformConfigResource {
+  address: string;
+  mode?: string;
+  type: string;
+  name: string;
+  expressions?: Record<string, any>;
+}
+
+interface TerraformConfigModule {
+  resources?: TerraformConfigResource[];
+  module_calls?: Record<string, { module?: TerraformConfigModule }>;
+}
+
+export interface TerraformJson {
+  format_version?: string;
+  terraform_version?: string;
+  planned_values?: { root_module?: TerraformModule };
+  values?: { root_module?: TerraformModule };
+  configuration?: { root_module?: TerraformConfigModule };
+}
+
+// Resource types are matched in order; the first match decides the stencil.
+const STENCIL_BY_RESOURCE_TYPE: { pattern: RegExp; stencil: string }[] = [
+  { pattern: /^(aws_(default_)?vpc|aws_(default_)?subnet|google_compute_(sub)?network|azurerm_(virtual_network|subnet))$/, stencil: 'Trust Boundary' },
+  { pattern: /(_db_instance|_rds_cluster$|dynamodb_table$|elasticache_(cluster|replication_group)$|redshift_cluster$|docdb_cluster$|neptune_cluster$|sql_database_instance$|mssql_server$|postgresql_(flexible_)?server$|mysql_(flexible_)?server$|cosmosdb_account$|bigtable_instance$|spanner_instance$)/, stencil: 'Database' },
+  { pattern: /(^aws_s3_bucket$|storage_bucket$|storage_account$|lambda_function$|sqs_queue$|sns_topic$|cloudfunctions2?_function$|function_app$|kinesis_stream$|secretsmanager_secret$|ecr_repository$|pubsub_topic$)/, stencil: 'Cloud Service' },
+  { pattern: /(^aws_(lb|alb|elb)$|api_gateway_rest_api$|apigatewayv2_api$|internet_gateway$|nat_gateway$|cloudfront_distribution$|application_gateway$|compute_router$|lb$|api_management$)/, stencil: 'Router' },
+  { pattern: /(wafv2_web_acl$|waf_web_acl$|networkfirewall_firewall$|azurerm_firewall$)/, stencil: 'Firewall' },
+  { pattern: /(^aws_instance$|ecs_service$|eks_cluster$|eks_node_group$|autoscaling_group$|virtual_machine$|compute_instance$|container_cluster$|cloud_run_(v2_)?service$|app_service$|kubernetes_cluster$|beanstalk_environment$)/, stencil: 'Server' },
+];
+
+const SECURITY_GROUP_TYPES = ['aws_security_group', 'aws_default_security_group'];
+const SECURITY_GROUP_RULE_TYPES = ['aws_security_group_rule', 'aws_vpc_security_group_ingress_rule'];
+const SUBNET_GROUP_PATTERN = /subnet_group$/;
+// Resources that only configure another resource; they are read but not drawn
+const SUPPORTING_RESOURCE_PATTERN = /(subnet_group$|^aws_s3_bucket_(server_side_encryption_configuration|public_access_block|acl|logging)$)/;
+const SUBNET_PATTERN = /(subnet|subnetwork)$/;
+
+// Attributes that place a resource inside a network boundary rather than connecting it to something
+const CONTAINMENT_ATTRIBUTES = ['vpc_id', 'subnet_id', 'subnet_ids', 'subnets', 'db_subnet_group_name', 'subnet_group_name', 'network', 'subnetwork', 'virtual_network_name', 'subnet_mapping'];
+const SECURITY_GROUP_ATTRIBUTES = ['vpc_security_group_ids', 'security_groups', 'security_group_ids'];
+
+const INTERNET_ID = 'terraform-internet';
+const PUBLIC_CIDRS = ['0.0.0.0/0', '::/0'];
+
+const stripIndexes = (address: string): string => address.replace(/\[[^\]]*\]/g, '');
+
+const getStencilName = (type: string): string | undefined =>
+  STENCIL_BY_RESOURCE_TYPE.find(entry => entry.pattern.test(type))?.stencil;
+
+const collectResources = (module: TerraformModule | undefined): TerraformResource[] => [
+  ...(module?.resources || []).filter(resource => (resource.mode || 'managed') === 'managed'),
+  ...(module?.child_modules || []).flatMap(collectResources),
+];
+
+/**
+ * Collects the resource addresses referenced anywhere inside an expression (including nested blocks).
+ */
+const collectReferences = (expression: any, modulePrefix: string): string[] => {
+  if (!expression || typeof expression !== 'object') return [];
+  if (Array.isArray(expression)) return expression.flatMap(item => collectReferences(item, modulePrefix));
+  const direct = Array.isArray(expression.references)
+    ? expression.references
+        .map((reference: string) => stripIndexes(reference).split('.'))
+        .filter((parts: string[]) => parts.length >= 2 && !['var', 'local', 'data', 'module', 'each', 'count', 'path', 'self'].includes(parts[0]))
+        .map((parts: string[]) => `${modulePrefix}${parts[0]}.${parts[1]}`)
+    : [];
+  const nested = Object.entries(expression)
+    .filter(([key]) => key !== 'references' && key !== 'constant_value')
+    .flatMap(([, value]) => collectReferences(value, modulePrefix));
+  return [...new Set([...direct, ...nested])];
+};
+
+/**
+ * Maps each configured resource address (without count/for_each index) to the resources it
+ * references, per top-level attribute.
+ */
+const collectConfigReferences = (
+  module: TerraformConfigModule | undefined,
+  modulePrefix = '',
+  result = new Map<string, Map<string, string[]>>()
+): Map<string, Map<string, string[]>> => {
+  for (const resource of module?.resources || []) {
+    if ((resource.mode || 'managed') !== 'managed') continue;
+    const byAttribute = new Map<string, string[]>();
+    for (const [attribute, expression] of Object.entries(resource.expressions || {})) {
+      const references = collectReferences(expression, modulePrefix);
+      if (references.length > 0) byAttribute.set(attribute, references);
+    }
+    result.set(`${modulePrefix}${resource.type}.${resource.name}`, byAttribute);
+  }
+  for (const [name, call] of Object.entries(module?.module_calls || {})) {
+    collectConfigReferences(call.module, `${modulePrefix}module.${name}.`, result);
+  }
+  return result;
+};
+
+const asArray = (value: any): any[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const isTruthy = (value: any): boolean => value === true || value === 'true';
+
+/**
+ * Extracts the security relevant attributes of a resource into component properties.
+ */
+const getKeyProperties = (resource: TerraformResource): Record<string, any> => {
+  const v = resource.values || {};
+  const properties: Record<string, any> = {
+    terraformAddress: resource.address,
+    resourceType: resource.type,
+  };
+  if (v.engine) properties.engine = v.engine_version ? `${v.engine} ${v.engine_version}` : v.engine;
+  if (v.instance_type || v.instance_class) properties.instanceType = v.instance_type || v.instance_class;
+
+  // Encryption at rest
+  if ('storage_encrypted' in v) properties.encryption = isTruthy(v.storage_encrypted);
+  else if ('encrypted' in v) properties.encryption = isTruthy(v.encrypted);
+  else if (asArray(v.server_side_encryption).length > 0) properties.encryption = isTruthy(asArray(v.server_side_encryption)[0]?.enabled);
+  else if ('at_rest_encryption_enabled' in v) properties.encryption = isTruthy(v.at_rest_encryption_enabled);
+  if ('transit_encryption_enabled' in v) properties.encryptionInTransit = isTruthy(v.transit_encryption_enabled);
+  if (v.kms_key_id || v.kms_master_key_id) properties.kmsKey = v.kms_key_id || v.kms_master_key_id;
+
+  // Public exposure
+  if ('publicly_accessible' in v) properties.publicAccess = isTruthy(v.publicly_accessible);
+  if ('associate_public_ip_address' in v) properties.publicAccess = isTruthy(v.associate_public_ip_address);
+  if ('internal' in v) properties.publicAccess = !isTruthy(v.internal);
+  if (typeof v.acl === 'string') properties.publicAccess = v.acl.startsWith('public');
+  if ('map_public_ip_on_launch' in v) properties.publicAccess = isTruthy(v.map_public_ip_on_launch);
+
+  // Authentication and logging
+  if ('iam_database_authentication_enabled' in v) {
+    properties.authentication = isTruthy(v.iam_database_authentication_enabled) ? 'IAM' : 'Password';
+  } else if (v.auth_token) {
+    properties.authentication = 'Auth token';
+  }
+  if (asArray(v.enabled_cloudwatch_logs_exports).length > 0) properties.logging = asArray(v.enabled_cloudwatch_logs_exports).join(', ');
+  if (asArray(v.access_logs).length > 0) properties.logging = isTruthy(asArray(v.access_logs)[0]?.enabled);
+  if (v.cidr_block) properties.cidr = v.cidr_block;
+  return properties;
+};
+
+const getResourceName = (resource: TerraformResource): string => {
+  const v = resource.values || {};
+  return v.tags?.Name || v.identifier || v.bucket || v.function_name || v.name || resource.address;
+};
+
+interface SecurityGroupRule {
+  securityGroup: string;
+  sourceSecurityGroup?: string;
+  fromInternet: boolean;
+  protocol?: string;
+  port?: string;
+}
+
+const describeProtocol = (protocol: any): string | undefined => {
+  if (protocol === undefined || protocol === null || protocol === '') return undefined;
+  return String(protocol) === '-1' ? 'Any' : String(protocol).toUpperCase();
+};
+
+const describePorts = (from: any, to: any): string | undefined => {
+  if (from === undefined || from === null) return undefined;
+  return from === to || to === undefined ? String(from) : `${from}-${to}`;
+};
+
+export const isTerraformJson = (data: any): data is TerraformJson =>
+  !!data && typeof data === 'object' && ('terraform_version' in data || 'format_version' in data) &&
+  (!!data.planned_values || !!data.values);
+
+/**
+ * Converts Terraform plan or state JSON into a laid-out infrastructure diagram.
+ */
+export function importTerraformModel(input: string | TerraformJson, options: ImportOptions = {}): ImportedThreatModel {
+  let plan: TerraformJson;
+  try {
+    plan = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isTerraformJson(plan)) {
+    throw new Error('The file is not Terraform JSON output. Create it with "terraform show -json <planfile>".');
+  }
+
+  const resources = collectResources(plan.planned_values?.root_module || plan.values?.root_module);
+  if (resources.length === 0) {
+    throw new Error('The Terraform JSON does not contain any managed resources.');
+  }
+  const configReferences = collectConfigReferences(plan.configuration?.root_module);
+  const warnings: string[] = [];
+
+  // Resolve references both from configuration (plans) and from attribute values (state)
+  const addressById = new Map<string, string>();
+  for (const resource of resources) {
+    for (const key of ['id', 'arn', 'name', 'self_link']) {
+      const value = resource.values?.[key];
+      if (typeof value === 'string' && value !== '' && (key !== 'name' || SECURITY_GROUP_TYPES.includes(resource.type))) {
+        addressById.set(value, resource.address);
+      }
+    }
+  }
+  const resourcesByConfigAddress = new Map<string, TerraformResource[]>();
+  for (const resource of resources) {
+    const key = stripIndexes(resource.address);
+    resourcesByConfigAddress.set(key, [...(resourcesByConfigAddress.get(key) || []), resource]);
+  }
+  const getReferencedAddresses = (resource: TerraformResource, attributes?: string[]): string[] => {
+    const byAttribute = configReferences.get(stripIndexes(resource.address));
+    const fromConfig = byAttribute
+      ? Array.from(byAttribute.entries())
+          .filter(([attribute]) => !attributes || attributes.includes(attribute))
+          .flatMap(([, references]) => references)
+          .flatMap(reference => (resourcesByConfigAddress.get(reference) || []).map(r => r.address))
+      : [];
+    const fromValues = Object.entries(resource.values || {})
+      .filter(([attribute]) => (attributes ? attributes.includes(attribute) : !['id', 'arn', 'name', 'self_link'].includes(attribute)))
+      .flatMap(([, value]) => asArray(value))
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => addressById.get(value))
+      .filter((address): address is string => !!address && address !== resource.address);
+    return [...new Set([...fromConfig, ...fromValues])];
+  };
+  const resourceByAddress = new Map(resources.map(resource => [resource.address, resource]));
+
+  // Components and boundaries
+  const components: Component[] = [];
+  const skippedTypes = new Set<string>();
+  for (const resource of resources) {
+    const stencilName = getStencilName(resource.type);
+    if (!stencilName) {
+      if (![...SECURITY_GROUP_TYPES, ...SECURITY_GROUP_RULE_TYPES].includes(resource.type) && !SUPPORTING_RESOURCE_PATTERN.test(resource.type)) {
+        skippedTypes.add(resource.type);
+      }
+      continue;
+    }
+    const stencil = findStencil(stencilName, options.stencils);
+    if (!stencil) {
+      warnings.push(`No "${stencilName}" stencil is available; ${resource.address} was skipped.`);
+      continue;
+    }
+    components.push(createStencilComponent(resource.address, stencil, getResourceName(resource), getKeyProperties(resource)));
+  }
+  const componentById = new Map(components.map(component => [component.id, component]));
+
+  // S3 bucket settings live in separate resources since AWS provider v4
+  for (const resource of resources) {
+    const bucket = getReferencedAddresses(resource, ['bucket']).map(address => componentById.get(address)).find(Boolean);
+    if (!bucket) continue;
+    const v = resource.values || {};
+    if (resource.type === 'aws_s3_bucket_server_side_encryption_configuration') {
+      const algorithm = asArray(asArray(v.rule)[0]?.apply_server_side_encryption_by_default)[0]?.sse_algorithm;
+      bucket.properties.encryption = algorithm || true;
+    } else if (resource.type === 'aws_s3_bucket_public_access_block') {
+      bucket.properties.publicAccess = !(isTruthy(v.block_public_acls) && isTruthy(v.block_public_policy) && isTruthy(v.restrict_public_buckets));
+    } else if (resource.type === 'aws_s3_bucket_acl' && typeof v.acl === 'string') {
+      bucket.properties.publicAccess = v.acl.startsWith('public');
+    } else if (resource.type === 'aws_s3_bucket_logging') {
+      bucket.properties.logging = true;
+    }
+  }
+
+  // Containment: a resource sits in its subnet, or in its VPC if it spans several subnets
+  const parentBoundaryIds = new Map<string, string>();
+  const isBoundaryAddress = (address: string) => componentById.get(address)?.isBoundary === true;
+  const getSubnets = (resource: TerraformResource): string[] =>
+    getReferencedAddresses(resource, CONTAINMENT_ATTRIBUTES).flatMap(address => {
+      const referenced = resourceByAddress.get(address);
+      if (referenced && SUBNET_GROUP_PATTERN.test(referenced.type)) return getReferencedAddresses(referenced, CONTAINMENT_ATTRIBUTES);
+      return [address];
+    }).filter(isBoundaryAddress);
+  for (const component of components) {
+    const resource = resourceByAddress.get(component.id)!;
+    const containers = getSubnets(resource);
+    const subnets = containers.filter(address => SUBNET_PATTERN.test(resourceByAddress.get(address)!.type));
+    const networks = containers.filter(address => !subnets.includes(address));
+    if (component.isBoundary) {
+      if (networks.length > 0) parentBoundaryIds.set(component.id, networks[0]); // Subnet inside its VPC
+    } else if (subnets.length === 1) {
+      parentBoundaryIds.set(component.id, subnets[0]);
+    } else if (subnets.length > 1 || networks.length > 0) {
+      const subnetNetworks = subnets.flatMap(subnet => getSubnets(resourceByAddress.get(subnet)!).filter(a => !subnets.includes(a)));
+      const network = networks[0] || (new Set(subnetNetworks).size === 1 ? subnetNetworks[0] : undefined);
+      if (network) parentBoundaryIds.set(component.id, network);
+    }
+  }
+
+  // Security group membership and rules
+  const securityGroupMembers = new Map<string, string[]>();
+  for (const component of components) {
+    if (component.isBoundary) continue;
+    for (const securityGroup of getReferencedAddresses(resourceByAddress.get(component.id)!, SECURITY_GROUP_ATTRIBUTES)) {
+      securityGroupMembers.set(securityGroup, [...(securityGroupMembers.get(securityGroup) || []), component.id]);
+    }
+  }
+  const rules: SecurityGroupRule[] = [];
+  for (const resource of resources) {
+    const v = resource.values || {};
+    if (SECURITY_GROUP_TYPES.includes(resource.type)) {
+      const ingressReferences = getReferencedAddresses(resource, ['ingress']);
+      for (const ingress of asArray(v.ingress)) {
+        const sources = asArray(ingress.security_groups).map(id => addressById.get(id)).filter(Boolean) as string[];
+        const base = { securityGroup: resource.address, protocol: describeProtocol(ingress.protocol), port: describePorts(ingress.from_port, ingress.to_port) };
+        sources.forEach(source => rules.push({ ...base, sourceSecurityGroup: source, fromInternet: false }));
+        if (asArray(ingress.cidr_blocks).concat(asArray(ingress.ipv6_cidr_blocks)).some(cidr => PUBLIC_CIDRS.includes(cidr))) {
+          rules.push({ ...base, fromInternet: true });
+        }
+      }
+      // In plans, security groups created in the same run have no IDs yet; fall back to configuration references.
+      // The port is only known when a single ingress block can be the one referencing them.
+      const internalIngress = asArray(v.ingress).filter(ingress => !asArray(ingress.cidr_blocks).some(cidr => PUBLIC_CIDRS.includes(cidr)));
+      const referencedIngress = internalIngress.length === 1 ? internalIngress[0] : undefined;
+      ingressReferences
+        .filter(address => address !== resource.address && !rules.some(rule => rule.securityGroup === resource.address && rule.sourceSecurityGroup === address))
+        .forEach(address => rules.push({
+          securityGroup: resource.address,
+          sourceSecurityGroup: address,
+          fromInternet: false,
+          protocol: describeProtocol(referencedIngress?.protocol),
+          port: describePorts(referencedIngress?.from_port, referencedIngress?.to_port),
+        }));
+    } else if (SECURITY_GROUP_RULE_TYPES.includes(resource.type)) {
+      if (resource.type === 'aws_security_group_rule' && v.type !== 'ingress') continue;
+      const [securityGroup] = getReferencedAddresses(resource, ['security_group_id']);
+      if (!securityGroup) continue;
+      const [source] = getReferencedAddresses(resource, ['source_security_group_id', 'referenced_security_group_id']);
+      const base = { securityGroup, protocol: describeProtocol(v.protocol ?? v.ip_protocol), port: describePorts(v.from_port, v.to_port) };
+      if (source) rules.push({ ...base, sourceSecurityGroup: source, fromInternet: false });
+      if (asArray(v.cidr_blocks).concat(asArray(v.cidr_ipv4), asArray(v.cidr_ipv6)).some(cidr => PUBLIC_CIDRS.includes(cidr))) {
+        rules.push({ ...base, fromInternet: true });
+      }
+    }
+  }
+
+  // Connections
+  const connectionsByKey = new Map<string, Connection>();
+  const addConnection = (source: string, target: string, properties: Record<string, any>) => {
+    if (source === target) return;
+    const key = `${source}->${target}`;
+    const existing = connectionsByKey.get(key);
+    if (existing) {
+      existing.properties = { ...properties, ...existing.properties };
+      return;
+    }
+    connectionsByKey.set(key, {
+      id: `tf-${key}`,
+      source,
+      target,
+      label: properties.name,
+      properties: { ...properties, isBiDirectional: false },
+    });
+  };
+
+  if (rules.some(rule => rule.fromInternet && (securityGroupMembers.get(rule.securityGroup) || []).length > 0)) {
+    const stencil = findStencil('User', options.stencils);
+    if (stencil) {
+      components.push(createStencilComponent(INTERNET_ID, stencil, 'Internet', { description: 'Traffic from any public address (0.0.0.0/0).' }));
+    }
+  }
+  for (const rule of rules) {
+    const targets = securityGroupMembers.get(rule.securityGroup) || [];
+    const sources = rule.fromInternet ? [INTERNET_ID] : securityGroupMembers.get(rule.sourceSecurityGroup || '') || [];
+    for (const source of sources) {
+      for (const target of targets) {
+        addConnection(source, target, {
+          name: rule.port ? `${rule.protocol || 'TCP'} ${rule.port}` : 'Network Access',
+          description: `Allowed by security group rule on ${rule.securityGroup}`,
+          ...(rule.protocol && { protocol: rule.protocol }),
+          ...(rule.port && { port: rule.port }),
+        });
+      }
+    }
+  }
+  for (const component of components) {
+    if (component.isBoundary || component.id === INTERNET_ID) continue;
+    const resource = resourceByAddress.get(component.id)!;
+    const ignored = [...CONTAINMENT_ATTRIBUTES, ...SECURITY_GROUP_ATTRIBUTES];
+    const byAttribute = configReferences.get(stripIndexes(resource.address));
+    const attributes = [
+      ...Array.from(byAttribute?.keys() || []),
+      ...Object.keys(resource.values || {}),
+    ].filter(attribute => !ignored.includes(attribute));
+    for (const target of getReferencedAddresses(resource, attributes)) {
+      const targetComponent = componentById.get(target);
+      if (!targetComponent || targetComponent.isBoundary) continue;
+      addConnection(component.id, target, { name: 'References', description: `${resource.address} references ${target}` });
+    }
+  }
+
+  if (skippedTypes.size > 0) {
+    warnings.push(`${skippedTypes.size} resource type(s) have no matching stencil and were skipped: ${Array.from(skippedTypes).sort().join(', ')}.`);
+  }
+
+  const connections = Array.from(connectionsByKey.values());
+  return {
+    name: 'Terraform Infrastructure',
+    modelType: 'infrastructure',
+    description: plan.terraform_version ? `Generated from Terraform ${plan.terraform_version} JSON output.` : undefined,
+    components: applyAutoLayout(components, connections, 'layered', parentBoundaryIds),
+    connections,
+    threats: [],
+    warnings,
+    sourceFormat: 'Terraform',
+  };
+}
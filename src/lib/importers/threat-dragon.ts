@@ -0,0 +1,377 @@
+
+import type { Component, Connection, LoadedThreatModel } from '@/services/diagram';
+import type { StrideCategory, Threat } from '@/types/threat';
+import { createThreatId, dedupeThreats, getEffectiveThreatStatus } from '@/lib/threat-utils';
+import { normalizeModelMetadata } from '@/lib/model-metadata';
+import { getElementKind } from '@/lib/threat-engine';
+import type { ExportedFile, ImportedThreatModel } from './types';
+import { boundsFromLine, createImportedComponent, parseStrideCategory, parseThreatRating, parseThreatStatus } from './common';
+
+/**
+ * Import and export of OWASP Threat Dragon v2 models.
+ *
+ * Threat Dragon stores each diagram as a list of AntV X6 cells. Actors, processes and stores
+ * become components, trust boundary boxes and curves become boundaries, and flows become connections.
+ */
+
+const THREAT_DRAGON_VERSION = '2.2.0';
+
+interface ThreatDragonThreat {
+  id?: string;
+  title?: string;
+  status?: string; // 'Open' | 'Mitigated' | 'NA'
+  severity?: string; // 'Low' | 'Medium' | 'High'
+  type?: string; // STRIDE category, e.g. 'Information disclosure'
+  description?: string;
+  mitigation?: string;
+  modelType?: string;
+  new?: boolean;
+  number?: number;
+  score?: string;
+}
+
+interface ThreatDragonCell {
+  id: string;
+  shape: string;
+  position?: { x: number; y: number };
+  size?: { width: number; height: number };
+  source?: { cell?: string; x?: number; y?: number };
+  target?: { cell?: string; x?: number; y?: number };
+  zIndex?: number;
+  attrs?: Record<string, any>;
+  labels?: any[];
+  data?: Record<string, any> & { type?: string; name?: string; threats?: ThreatDragonThreat[] };
+}
+
+interface ThreatDragonDiagram {
+  id: number;
+  title: string;
+  diagramType: string;
+  version?: string;
+  thumbnail?: string;
+  cells: ThreatDragonCell[];
+}
+
+export interface ThreatDragonModel {
+  version: string;
+  summary: { title: string; owner?: string; description?: string; id: number };
+  detail: {
+    contributors: { name: string }[];
+    diagrams: ThreatDragonDiagram[];
+    diagramTop: number;
+    reviewer?: string;
+    threatTop: number;
+  };
+}
+
+const THREAT_DRAGON_TYPE_BY_STRIDE: Record<StrideCategory, string> = {
+  'Spoofing': 'Spoofing',
+  'Tampering': 'Tampering',
+  'Repudiation': 'Repudiation',
+  'Information Disclosure': 'Information disclosure',
+  'Denial of Service': 'Denial of service',
+  'Elevation of Privilege': 'Elevation of privilege',
+};
+
+// Data fields that are mapped explicitly and therefore not copied into component properties.
+const RESERVED_DATA_FIELDS = ['type', 'name', 'description', 'threats', 'hasOpenThreats', 'isTrustBoundary'];
+
+/**
+ * Copies Threat Dragon element attributes (isEncrypted, privilegeLevel, ...) into component properties,
+ * so they survive a round trip and are picked up by the rule-based engine.
+ */
+const toProperties = (data: ThreatDragonCell['data']): Record<string, any> => {
+  const properties: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data || {})) {
+    if (RESERVED_DATA_FIELDS.includes(key) || value === undefined || value === null || typeof value === 'object') continue;
+    properties[key] = value;
+  }
+  return properties;
+};
+
+const getCellName = (cell: ThreatDragonCell, fallback: string): string =>
+  cell.data?.name || cell.attrs?.text?.text || cell.attrs?.label?.text || cell.attrs?.headerText?.text || fallback;
+
+export const isThreatDragonModel = (data: any): data is ThreatDragonModel =>
+  !!data && typeof data === 'object' && !!data.summary && Array.isArray(data.detail?.diagrams);
+
+/**
+ * Converts a Threat Dragon v2 model into components, connections and threats.
+ * Only one diagram is imported; `diagramIndex` selects which one.
+ */
+export function importThreatDragonModel(input: string | ThreatDragonModel, diagramIndex = 0): ImportedThreatModel {
+  let model: ThreatDragonModel;
+  try {
+    model = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isThreatDragonModel(model)) {
+    throw new Error('The file is not a Threat Dragon model (missing summary or diagrams).');
+  }
+
+  const diagram = model.detail.diagrams[diagramIndex];
+  if (!diagram) {
+    throw new Error('The Threat Dragon model does not contain any diagrams.');
+  }
+  const cells: ThreatDragonCell[] = Array.isArray(diagram.cells)
+    ? diagram.cells
+    : (diagram as any).diagramJson?.cells || []; // Threat Dragon v1 kept cells under diagramJson
+
+  const warnings: string[] = [];
+  if (model.detail.diagrams.length > 1) {
+    warnings.push(`Only diagram "${diagram.title}" was imported; the file contains ${model.detail.diagrams.length} diagrams.`);
+  }
+  if (model.version && !model.version.startsWith('2')) {
+    warnings.push(`Threat Dragon version ${model.version} is not fully supported; the import may be incomplete.`);
+  }
+
+  const components: Component[] = [];
+  const connections: Connection[] = [];
+  const threats: Threat[] = [];
+
+  const addThreats = (cell: ThreatDragonCell, targetType: Threat['targetType']) => {
+    for (const tdThreat of cell.data?.threats || []) {
+      const category = parseStrideCategory(tdThreat.type);
+      if (!category) {
+        warnings.push(`Threat "${tdThreat.title}" has unsupported type "${tdThreat.type}" and was skipped.`);
+        continue;
+      }
+      const title = tdThreat.title || `${category} threat`;
+      threats.push({
+        id: createThreatId(cell.id, category, title),
+        title,
+        description: tdThreat.description || '',
+        category,
+        targetId: cell.id,
+        targetType,
+        likelihood: 'Medium', // Threat Dragon only records severity, which maps to impact
+        impact: parseThreatRating(tdThreat.severity),
+        mitigation: tdThreat.mitigation || '',
+        status: parseThreatStatus(tdThreat.status),
+      });
+    }
+  };
+
+  for (const cell of cells) {
+    const type = cell.data?.type || '';
+    const name = getCellName(cell, cell.id);
+    const baseProperties = {
+      ...toProperties(cell.data),
+      name,
+      ...(cell.data?.description && { description: cell.data.description }),
+    };
+
+    if (cell.shape === 'trust-boundary-box' || (type === 'tm.Boundary' && cell.position && cell.size)) {
+      components.push(createImportedComponent(cell.id, 'boundary', name, baseProperties, { ...cell.position, ...cell.size }));
+    } else if (cell.shape === 'trust-boundary-curve' || type === 'tm.Boundary') {
+      // A curve only separates the canvas visually, so it becomes a box spanning its end points.
+      const points = [cell.source, cell.target].filter((p): p is { x: number; y: number } =>
+        typeof p?.x === 'number' && typeof p?.y === 'number'
+      );
+      if (points.length < 2) {
+        warnings.push(`Trust boundary "${name}" has no end points and was skipped.`);
+        continue;
+      }
+      components.push(createImportedComponent(
+        cell.id, 'boundary', name, { ...baseProperties, tdShape: 'trust-boundary-curve' }, boundsFromLine(points[0], points[1])
+      ));
+      warnings.push(`Trust boundary line "${name}" was converted to a boundary box; check which elements it contains.`);
+    } else if (cell.shape === 'flow' || type === 'tm.Flow') {
+      if (!cell.source?.cell || !cell.target?.cell) {
+        warnings.push(`Data flow "${name}" is not attached to two elements and was skipped.`);
+        continue;
+      }
+      connections.push({
+        id: cell.id,
+        source: cell.source.cell,
+        target: cell.target.cell,
+        label: name,
+        properties: {
+          ...baseProperties,
+          isBiDirectional: cell.data?.isBidirectional === true,
+        },
+      });
+      addThreats(cell, 'connection');
+    } else if (['actor', 'process', 'store'].includes(cell.shape) || ['tm.Actor', 'tm.Process', 'tm.Store'].includes(type)) {
+      const kind = cell.shape === 'actor' || type === 'tm.Actor'
+        ? 'externalEntity'
+        : cell.shape === 'store' || type === 'tm.Store' ? 'dataStore' : 'process';
+      components.push(createImportedComponent(cell.id, kind, name, baseProperties, { ...cell.position, ...cell.size }));
+      addThreats(cell, 'component');
+    } else {
+      warnings.push(`Element "${name}" of type "${cell.shape}" is not supported and was skipped.`);
+    }
+  }
+
+  const componentIds = new Set(components.map(c => c.id));
+  const validConnections = connections.filter(connection => {
+    const isValid = componentIds.has(connection.source) && componentIds.has(connection.target);
+    if (!isValid) warnings.push(`Data flow "${connection.label}" references a missing element and was skipped.`);
+    return isValid;
+  });
+  const validTargetIds = new Set([...componentIds, ...validConnections.map(c => c.id)]);
+
+  return {
+    name: model.summary.title || diagram.title || 'Imported Threat Dragon Model',
+    modelType: 'infrastructure',
+    description: model.summary.description,
+    metadata: normalizeModelMetadata({
+      applicationDescription: model.summary.description,
+      documentOwner: model.summary.owner,
+      participants: (model.detail.contributors || []).map(contributor => contributor.name).filter(Boolean).join(', '),
+      reviewer: model.detail.reviewer,
+    }),
+    components,
+    connections: validConnections,
+    threats: dedupeThreats(threats.filter(t => validTargetIds.has(t.targetId))),
+    warnings,
+    sourceFormat: 'OWASP Threat Dragon',
+  };
+}
+
+const getAbsolutePosition = (component: Component, componentsById: Map<string, Component>): { x: number; y: number } => {
+  const position = component.properties?.position || { x: 0, y: 0 };
+  const parent = component.properties?.parentNode ? componentsById.get(component.properties.parentNode) : undefined;
+  const parentPosition = parent?.properties?.position || { x: 0, y: 0 };
+  return { x: position.x + parentPosition.x, y: position.y + parentPosition.y };
+};
+
+// Properties that only exist for the canvas and have no meaning in Threat Dragon.
+const CANVAS_PROPERTIES = ['name', 'description', 'position', 'width', 'height', 'parentNode', 'selected', 'tdShape'];
+
+const toData = (properties: Record<string, any> | undefined): Record<string, any> => {
+  const data: Record<string, any> = {};
+  for (const [key, value] of Object.entries(properties || {})) {
+    if (CANVAS_PROPERTIES.includes(key) || typeof value === 'object') continue;
+    data[key] = value;
+  }
+  return data;
+};
+
+/**
+ * Converts a loaded threat model into a Threat Dragon v2 model. Threats are taken from the
+ * latest report, with recorded decisions applied to their status.
+ */
+export function exportThreatDragonModel(model: LoadedThreatModel): ThreatDragonModel {
+  const reports = model.reports || [];
+  const latestThreats = reports.length > 0 ? reports[reports.length - 1].threats || [] : [];
+  const componentsById = new Map(model.components.map(c => [c.id, c]));
+  let threatNumber = 0;
+
+  const threatsFor = (targetId: string): ThreatDragonThreat[] =>
+    latestThreats.filter(t => t.targetId === targetId).map(threat => {
+      const decision = model.threatDecisions[threat.id];
+      const status = getEffectiveThreatStatus(threat, decision);
+      threatNumber += 1;
+      return {
+        id: threat.id,
+        title: threat.title,
+        // Threat Dragon has no "Accepted" status, so accepted risks stay Open with the justification recorded
+        status: status === 'Not Applicable' ? 'NA' : status === 'Mitigated' ? 'Mitigated' : 'Open',
+        severity: threat.impact,
+        type: THREAT_DRAGON_TYPE_BY_STRIDE[threat.category],
+        description: threat.description,
+        mitigation: status === 'Accepted' && decision?.justification
+          ? `${threat.mitigation}\n\nRisk accepted: ${decision.justification}`
+          : threat.mitigation,
+        modelType: 'STRIDE',
+        new: false,
+        number: threatNumber,
+        score: '',
+      };
+    });
+
+  const cells: ThreatDragonCell[] = [];
+
+  for (const component of model.components) {
+    const name = component.properties?.name || component.name || component.id;
+    const description = component.properties?.description || component.properties?.Description || '';
+    const position = getAbsolutePosition(component, componentsById);
+    const size = { width: component.properties?.width || 80, height: component.properties?.height || 80 };
+
+    if (component.isBoundary) {
+      cells.push({
+        id: component.id,
+        shape: 'trust-boundary-box',
+        position,
+        size,
+        zIndex: -1,
+        attrs: { headerText: { text: name } },
+        data: { ...toData(component.properties), type: 'tm.Boundary', name, description, isTrustBoundary: true, hasOpenThreats: false },
+      });
+      continue;
+    }
+
+    const kind = getElementKind(component);
+    const shape = kind === 'externalEntity' ? 'actor' : kind === 'dataStore' ? 'store' : 'process';
+    const threats = threatsFor(component.id);
+    cells.push({
+      id: component.id,
+      shape,
+      position,
+      size,
+      zIndex: 1,
+      attrs: { text: { text: name } },
+      data: {
+        ...toData(component.properties),
+        type: shape === 'actor' ? 'tm.Actor' : shape === 'store' ? 'tm.Store' : 'tm.Process',
+        name,
+        description,
+        outOfScope: false,
+        reasonOutOfScope: '',
+        threats,
+        hasOpenThreats: threats.some(t => t.status === 'Open'),
+      },
+    });
+  }
+
+  for (const connection of model.connections) {
+    const name = connection.properties?.name || connection.label || 'Data Flow';
+    const threats = threatsFor(connection.id);
+    cells.push({
+      id: connection.id,
+      shape: 'flow',
+      source: { cell: connection.source },
+      target: { cell: connection.target },
+      zIndex: 2,
+      labels: [name],
+      data: {
+        ...toData(connection.properties),
+        type: 'tm.Flow',
+        name,
+        description: connection.properties?.description || '',
+        isBidirectional: connection.properties?.isBiDirectional === true,
+        outOfScope: false,
+        reasonOutOfScope: '',
+        threats,
+        hasOpenThreats: threats.some(t => t.status === 'Open'),
+      },
+    });
+  }
+
+  return {
+    version: THREAT_DRAGON_VERSION,
+    summary: { title: model.name, owner: model.metadata?.documentOwner || '', description: model.metadata?.applicationDescription || '', id: 0 },
+    detail: {
+      contributors: (model.metadata?.participants || '').split(',').map(name => name.trim()).filter(Boolean).map(name => ({ name })),
+      diagrams: [{
+        id: 0,
+        title: model.name,
+        diagramType: 'STRIDE',
+        version: THREAT_DRAGON_VERSION,
+        thumbnail: './public/content/images/thumbnail.stride.jpg',
+        cells,
+      }],
+      diagramTop: 1,
+      reviewer: model.metadata?.reviewer || '',
+      threatTop: threatNumber,
+    },
+  };
+}
+
+export const exportThreatDragonFile = (model: LoadedThreatModel): ExportedFile => ({
+  fileName: `${model.name.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'threat-model'}.threat-dragon.json`,
+  content: JSON.stringify(exportThreatDragonModel(model), null, 2),
+  mimeType: 'application/json',
+});
@@ -0,0 +1,229 @@
+
+import type { Component, Connection } from '@/services/diagram';
+import type { Threat } from '@/types/threat';
+import { createThreatId, dedupeThreats } from '@/lib/threat-utils';
+import type { ImportedThreatModel } from './types';
+import {
+  boundsFromLine,
+  createImportedComponent,
+  parseStrideCategory,
+  parseThreatRating,
+  parseThreatStatus,
+  type ImportedElementKind,
+} from './common';
+
+/**
+ * Import of Microsoft Threat Modeling Tool (.tm7) models.
+ *
+ * A .tm7 file is a WCF data contract XML document. Each drawing surface holds its stencils under
+ * `Borders` and its data flows and line boundaries under `Lines`; threat instances are stored once
+ * for the whole model. Namespace prefixes differ between TMT versions, so elements are matched by local name.
+ */
+
+// TMT generic type IDs
+const ELEMENT_KIND_BY_GENERIC_TYPE: Record<string, ImportedElementKind> = {
+  'GE.EI': 'externalEntity',
+  'GE.P': 'process',
+  'GE.DS': 'dataStore',
+  'GE.TB.B': 'boundary',
+};
+const DATA_FLOW_TYPE = 'GE.DF';
+const LINE_BOUNDARY_TYPE = 'GE.TB.L';
+const ANNOTATION_TYPE = 'GE.A';
+const TMCORE_FLOW_PREFIX = 'SE.DF.TMCore.'; // Built-in flow types are named after their protocol, e.g. SE.DF.TMCore.HTTP
+
+const children = (parent: Element | null | undefined, localName: string): Element[] =>
+  parent ? Array.from(parent.children).filter(child => child.localName === localName) : [];
+
+const child = (parent: Element | null | undefined, localName: string): Element | null =>
+  children(parent, localName)[0] || null;
+
+const childText = (parent: Element | null | undefined, localName: string): string =>
+  child(parent, localName)?.textContent?.trim() || '';
+
+const childNumber = (parent: Element | null | undefined, localName: string): number | undefined => {
+  const value = parseFloat(childText(parent, localName));
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Reads the display attributes of a TMT element (Name, and the typed attributes from the
+ * knowledge base such as "Authenticates Itself"). List attributes resolve to their selected value.
+ */
+const readDisplayAttributes = (element: Element): Record<string, any> => {
+  const attributes: Record<string, any> = {};
+  for (const attribute of children(child(element, 'Properties'), 'anyType')) {
+    const displayName = childText(attribute, 'DisplayName');
+    const valueElement = child(attribute, 'Value');
+    if (!displayName || !valueElement) continue;
+
+    const listValues = children(valueElement, 'string').map(v => v.textContent?.trim() || '');
+    if (listValues.length > 0) {
+      const selectedIndex = childNumber(attribute, 'SelectedIndex') ?? 0;
+      attributes[displayName] = listValues[selectedIndex] ?? '';
+    } else {
+      const text = valueElement.textContent?.trim() || '';
+      attributes[displayName] = text === 'true' ? true : text === 'false' ? false : text;
+    }
+  }
+  return attributes;
+};
+
+/**
+ * Returns the key/value pairs of a serialized dictionary (KeyValueOf... elements).
+ */
+const readDictionary = (element: Element | null): { key: string; value: Element }[] =>
+  element
+    ? Array.from(element.children)
+        .filter(entry => entry.localName.startsWith('KeyValueOf'))
+        .map(entry => ({ key: childText(entry, 'Key'), value: child(entry, 'Value') }))
+        .filter((entry): entry is { key: string; value: Element } => !!entry.value)
+    : [];
+
+export const isTm7Document = (content: string): boolean =>
+  /<ThreatModel[\s>]/.test(content) && /DrawingSurface/.test(content);
+
+/**
+ * Converts a .tm7 document into components, connections and threats.
+ * Only the first drawing surface (diagram) is imported.
+ */
+export function importTm7Model(content: string): ImportedThreatModel {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('.tm7 files can only be imported in the browser.');
+  }
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  const root = document.documentElement;
+  if (!root || root.localName !== 'ThreatModel' || document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not a valid Microsoft Threat Modeling Tool (.tm7) model.');
+  }
+
+  const surfaces = children(child(root, 'DrawingSurfaceList'), 'DrawingSurfaceModel');
+  const surface = surfaces[0];
+  if (!surface) {
+    throw new Error('The .tm7 model does not contain any diagrams.');
+  }
+
+  const warnings: string[] = [];
+  if (surfaces.length > 1) {
+    warnings.push(`Only diagram "${childText(surface, 'Header')}" was imported; the file contains ${surfaces.length} diagrams.`);
+  }
+
+  const components: Component[] = [];
+  const connections: Connection[] = [];
+
+  for (const { key, value } of readDictionary(child(surface, 'Borders'))) {
+    const id = childText(value, 'Guid') || key;
+    const genericType = childText(value, 'GenericTypeId');
+    const { Name: name, ...attributes } = readDisplayAttributes(value);
+    const displayName = String(name || id);
+    const kind = ELEMENT_KIND_BY_GENERIC_TYPE[genericType];
+    if (!kind) {
+      if (genericType !== ANNOTATION_TYPE) {
+        warnings.push(`Element "${displayName}" of type "${genericType}" is not supported and was skipped.`);
+      }
+      continue;
+    }
+    components.push(createImportedComponent(id, kind, displayName, { ...attributes, tmtTypeId: childText(value, 'TypeId') }, {
+      x: childNumber(value, 'Left'),
+      y: childNumber(value, 'Top'),
+      width: childNumber(value, 'Width'),
+      height: childNumber(value, 'Height'),
+    }));
+  }
+
+  for (const { key, value } of readDictionary(child(surface, 'Lines'))) {
+    const id = childText(value, 'Guid') || key;
+    const genericType = childText(value, 'GenericTypeId');
+    const { Name: name, ...attributes } = readDisplayAttributes(value);
+    const displayName = String(name || id);
+
+    if (genericType === LINE_BOUNDARY_TYPE) {
+      const start = { x: childNumber(value, 'SourceX') ?? 0, y: childNumber(value, 'SourceY') ?? 0 };
+      const end = { x: childNumber(value, 'TargetX') ?? 0, y: childNumber(value, 'TargetY') ?? 0 };
+      components.push(createImportedComponent(id, 'boundary', displayName, { ...attributes, tmtShape: 'line' }, boundsFromLine(start, end)));
+      warnings.push(`Trust boundary line "${displayName}" was converted to a boundary box; check which elements it contains.`);
+    } else if (genericType === DATA_FLOW_TYPE) {
+      const typeId = childText(value, 'TypeId');
+      const source = childText(value, 'SourceGuid');
+      const target = childText(value, 'TargetGuid');
+      if (!source || !target) {
+        warnings.push(`Data flow "${displayName}" is not attached to two elements and was skipped.`);
+        continue;
+      }
+      connections.push({
+        id,
+        source,
+        target,
+        label: displayName,
+        properties: {
+          ...attributes,
+          name: displayName,
+          tmtTypeId: typeId,
+          ...(typeId.startsWith(TMCORE_FLOW_PREFIX) && { protocol: typeId.slice(TMCORE_FLOW_PREFIX.length) }),
+          isBiDirectional: false,
+        },
+      });
+    } else {
+      warnings.push(`Line "${displayName}" of type "${genericType}" is not supported and was skipped.`);
+    }
+  }
+
+  const componentIds = new Set(components.map(c => c.id));
+  const validConnections = connections.filter(connection => {
+    const isValid = componentIds.has(connection.source) && componentIds.has(connection.target);
+    if (!isValid) warnings.push(`Data flow "${connection.label}" references a missing element and was skipped.`);
+    return isValid;
+  });
+  const connectionIds = new Set(validConnections.map(c => c.id));
+
+  const threats: Threat[] = [];
+  for (const { value } of readDictionary(child(root, 'ThreatInstances'))) {
+    const properties: Record<string, string> = {};
+    for (const { key, value: propertyValue } of readDictionary(child(value, 'Properties'))) {
+      properties[key] = propertyValue.textContent?.trim() || '';
+    }
+
+    const flowId = childText(value, 'FlowGuid');
+    const elementId = childText(value, 'TargetGuid');
+    const targetId = connectionIds.has(flowId) ? flowId : elementId;
+    const targetType = connectionIds.has(flowId) ? 'connection' : 'component';
+    if (!connectionIds.has(targetId) && !componentIds.has(targetId)) {
+      warnings.push(`Threat "${properties.Title || childText(value, 'Id')}" targets an element that was not imported and was skipped.`);
+      continue;
+    }
+
+    const category = parseStrideCategory(properties.UserThreatCategory || childText(value, 'UserThreatCategory'));
+    if (!category) {
+      warnings.push(`Threat "${properties.Title}" has unsupported category "${properties.UserThreatCategory}" and was skipped.`);
+      continue;
+    }
+
+    const state = childText(value, 'State');
+    const title = properties.Title || properties.UserThreatShortDescription || `${category} threat`;
+    const justification = properties.StateInformation;
+    threats.push({
+      id: createThreatId(targetId, category, title),
+      title,
+      description: [properties.UserThreatDescription, justification && `Justification: ${justification}`].filter(Boolean).join('\n\n'),
+      category,
+      targetId,
+      targetType,
+      likelihood: 'Medium', // TMT only records priority, which maps to impact
+      impact: parseThreatRating(properties.Priority || childText(value, 'Priority')),
+      mitigation: properties.PossibleMitigations || '',
+      status: parseThreatStatus(state), // AutoGenerated, NeedsInvestigation and NotStarted are all Open
+    });
+  }
+
+  const metaInformation = child(root, 'MetaInformation');
+  return {
+    name: childText(metaInformation, 'ThreatModelName') || childText(surface, 'Header') || 'Imported TMT Model',
+    modelType: 'infrastructure',
+    description: childText(metaInformation, 'HighLevelSystemDescription') || undefined,
+    components,
+    connections: validConnections,
+    threats: dedupeThreats(threats),
+    warnings,
+    sourceFormat: 'Microsoft Threat Modeling Tool',
+  };
+}
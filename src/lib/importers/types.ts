@@ -0,0 +1,40 @@
+
+import type { Component, Connection, ModelMetadata, ModelType, ReportEntry, ThreatDecisionMap } from '@/services/diagram';
+import type { Viewport } from '@xyflow/react';
+import type { Threat } from '@/types/threat';
+import type { StencilData } from '@/types/stencil';
+
+/**
+ * A threat model converted from an external format, ready to be placed on the canvas.
+ */
+export interface ImportedThreatModel {
+  name: string;
+  modelType: ModelType;
+  description?: string;
+  metadata?: ModelMetadata; // Owner, reviewer and the like, if the source records them
+  components: Component[];
+  connections: Connection[];
+  threats: Threat[]; // Threats carried over from the source tool, if any
+  warnings: string[]; // Parts of the source that could not be mapped exactly
+  sourceFormat: string; // Human readable name of the source format, e.g. "OWASP Threat Dragon"
+  // Only set when restoring one of our own model files
+  viewport?: Viewport;
+  reports?: ReportEntry[];
+  threatDecisions?: ThreatDecisionMap;
+}
+
+/**
+ * A file produced by an exporter, ready to be downloaded.
+ */
+export interface ExportedFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+/**
+ * Options for importers that generate a diagram rather than reading one.
+ */
+export interface ImportOptions {
+  stencils?: StencilData[]; // Admin-managed stencils; placeholders are used for anything not found
+}
@@ -0,0 +1,210 @@
+import type {
+  Component as DiagramComponent,
+  Connection as DiagramConnection,
+  ModelType,
+  ReportEntry,
+  ThreatDecisionMap,
+} from '@/services/diagram';
+import { isSameValue, toLiveFields } from '@/lib/crdt';
+import { escapeHtml } from '@/lib/utils';
+
+export type ElementChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  field: string; // Field name as in the live state, e.g. `label` or `properties.protocol`
+  before?: unknown; // Undefined when the field was added
+  after?: unknown; // Undefined when the field was removed
+}
+
+export interface ElementChange {
+  id: string;
+  kind: 'component' | 'connection';
+  name: string;
+  status: ElementChangeStatus;
+  fieldChanges: FieldChange[]; // Empty unless changed
+}
+
+export interface ModelDiff {
+  components: ElementChange[];
+  connections: ElementChange[];
+}
+
+export interface ModelElements {
+  components: DiagramComponent[];
+  connections: DiagramConnection[];
+}
+
+// Everything about a model that saving persists, apart from the viewport
+export interface ModelContent extends ModelElements {
+  name: string;
+  modelType: ModelType;
+  reports: ReportEntry[];
+  threatDecisions: ThreatDecisionMap;
+}
+
+// Fields that only affect where an element is drawn
+const LAYOUT_FIELDS = new Set(['properties.position', 'properties.width', 'properties.height']);
+
+const elementName = (element: DiagramComponent | DiagramConnection): string =>
+  element.properties?.name || ('name' in element && element.name) || ('label' in element && element.label) || element.id;
+
+// Field names for display: `properties.description` becomes `description`
+export const formatFieldName = (field: string): string => field.replace(/^properties\./, '');
+
+export const formatFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object' && 'x' in value && 'y' in value) {
+    const { x, y } = value as { x: number; y: number };
+    return `(${Math.round(x)}, ${Math.round(y)})`;
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  return String(value);
+};
+
+/**
+ * Whether a changed element was only moved or resized.
+ */
+export const isLayoutOnlyChange = (change: ElementChange): boolean =>
+  change.status === 'changed' && change.fieldChanges.every(fieldChange => LAYOUT_FIELDS.has(fieldChange.field));
+
+const diffElements = <T extends DiagramComponent | DiagramConnection>(
+  kind: ElementChange['kind'],
+  base: T[],
+  other: T[]
+): ElementChange[] => {
+  const baseById = new Map(base.map(element => [element.id, element]));
+  const otherById = new Map(other.map(element => [element.id, element]));
+  const changes: ElementChange[] = [];
+
+  for (const element of other) {
+    const baseElement = baseById.get(element.id);
+    if (!baseElement) {
+      changes.push({ id: element.id, kind, name: elementName(element), status: 'added', fieldChanges: [] });
+      continue;
+    }
+    const baseFields = toLiveFields(baseElement);
+    const otherFields = toLiveFields(element);
+    const fieldChanges = Array.from(new Set([...Object.keys(baseFields), ...Object.keys(otherFields)]))
+      .filter(field => !isSameValue(baseFields[field], otherFields[field]))
+      .sort()
+      .map(field => ({ field, before: baseFields[field], after: otherFields[field] }));
+    if (fieldChanges.length > 0) {
+      changes.push({ id: element.id, kind, name: elementName(element), status: 'changed', fieldChanges });
+    }
+  }
+  for (const element of base) {
+    if (!otherById.has(element.id)) {
+      changes.push({ id: element.id, kind, name: elementName(element), status: 'removed', fieldChanges: [] });
+    }
+  }
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Compares two versions of a model element by element. Changes are described relative to `base`:
+ * `added` elements only exist in `other`, `removed` elements only exist in `base`.
+ * Selection state is ignored.
+ */
+export const diffModels = (base: ModelElements, other: ModelElements): ModelDiff => ({
+  components: diffElements('component', base.components, other.components),
+  connections: diffElements('connection', base.connections, other.connections),
+});
+
+export const hasModelChanges = (diff: ModelDiff): boolean =>
+  diff.components.length > 0 || diff.connections.length > 0;
+
+// Reports are dated with a Date on the client and a Firestore Timestamp when read without converting
+const getReportTime = (date: unknown): number => {
+  if (date instanceof Date) return date.getTime();
+  if (date && typeof (date as { toMillis?: unknown }).toMillis === 'function') return (date as { toMillis: () => number }).toMillis();
+  return new Date(date as string).getTime();
+};
+
+const isSameReport = (a: ReportEntry, b: ReportEntry): boolean =>
+  a.reportName === b.reportName &&
+  Object.is(getReportTime(a.createdDate), getReportTime(b.createdDate)) &&
+  a.generatedBy === b.generatedBy &&
+  a.reportData === b.reportData &&
+  isSameValue(a.threats, b.threats);
+
+/**
+ * Whether two lists hold the same reports in the same order. Two people can each generate a report,
+ * so the number of reports alone does not tell whether they are the same.
+ */
+export const isSameReports = (a: ReportEntry[], b: ReportEntry[]): boolean =>
+  a.length === b.length && a.every((report, index) => isSameReport(report, b[index]));
+
+/**
+ * Whether two states of a model hold the same content.
+ */
+export const isSameModelContent = (a: ModelContent, b: ModelContent): boolean =>
+  a.name === b.name &&
+  a.modelType === b.modelType &&
+  isSameReports(a.reports, b.reports) &&
+  isSameValue(a.threatDecisions, b.threatDecisions) &&
+  !hasModelChanges(diffModels(a, b));
+
+export interface DiffOverlay {
+  components: { component: DiagramComponent; status?: ElementChangeStatus }[];
+  connections: { connection: DiagramConnection; status?: ElementChangeStatus }[];
+}
+
+/**
+ * Combines both versions for display: every element of `other`, plus the elements removed
+ * since `base`, each with its change status (undefined if unchanged).
+ */
+export const buildDiffOverlay = (base: ModelElements, other: ModelElements, diff: ModelDiff): DiffOverlay => {
+  const statusById = new Map([...diff.components, ...diff.connections].map(change => [`${change.kind}:${change.id}`, change.status]));
+  const removedIds = new Set([...diff.components, ...diff.connections]
+    .filter(change => change.status === 'removed')
+    .map(change => `${change.kind}:${change.id}`));
+  return {
+    components: [
+      ...other.components,
+      ...base.components.filter(component => removedIds.has(`component:${component.id}`)),
+    ].map(component => ({ component, status: statusById.get(`component:${component.id}`) })),
+    connections: [
+      ...other.connections,
+      ...base.connections.filter(connection => removedIds.has(`connection:${connection.id}`)),
+    ].map(connection => ({ connection, status: statusById.get(`connection:${connection.id}`) })),
+  };
+};
+
+const STATUS_LABELS: Record<ElementChangeStatus, string> = { added: 'Added', removed: 'Removed', changed: 'Changed' };
+
+const renderChangeRows = (changes: ElementChange[]): string =>
+  changes.map(change => `<tr>
+      <td>${escapeHtml(change.name)}</td>
+      <td>${escapeHtml(isLayoutOnlyChange(change) ? 'Moved' : STATUS_LABELS[change.status])}</td>
+      <td>${change.fieldChanges.map(fieldChange =>
+        `${escapeHtml(formatFieldName(fieldChange.field))}: ${escapeHtml(formatFieldValue(fieldChange.before))} &rarr; ${escapeHtml(formatFieldValue(fieldChange.after))}`
+      ).join('<br>')}</td>
+    </tr>`).join('\n');
+
+/**
+ * Renders a diff as a standalone HTML document, e.g. to attach to a review.
+ */
+export const renderModelDiffHtml = (diff: ModelDiff, details: { modelName: string; fromLabel: string; toLabel: string }): string => {
+  const section = (title: string, changes: ElementChange[]) => changes.length === 0 ? '' : `
+    <h2>${escapeHtml(title)}</h2>
+    <table border="1" cellpadding="4" cellspacing="0">
+      <thead><tr><th>Name</th><th>Change</th><th>Details</th></tr></thead>
+      <tbody>
+${renderChangeRows(changes)}
+      </tbody>
+    </table>`;
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Changes to ${escapeHtml(details.modelName)}</title></head>
+<body>
+  <h1>Changes to ${escapeHtml(details.modelName)}</h1>
+  <p>From ${escapeHtml(details.fromLabel)} to ${escapeHtml(details.toLabel)}:
+    ${diff.components.length} component and ${diff.connections.length} connection changes.</p>
+  ${hasModelChanges(diff) ? '' : '<p>No components or connections changed.</p>'}
+  ${section('Components', diff.components)}
+  ${section('Connections', diff.connections)}
+</body>
+</html>
+`;
+};
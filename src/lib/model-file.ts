@@ -0,0 +1,164 @@
+
+import type { LoadedThreatModel, ModelMetadata, ReportEntry, ThreatDecisionMap } from '@/services/diagram';
+import { normalizeModelMetadata } from '@/lib/model-metadata';
+import type { ThreatDecision } from '@/types/threat';
+import type { ExportedFile, ImportedThreatModel } from '@/lib/importers/types';
+
+/**
+ * Versioned JSON file format for exporting and re-importing a whole threat model (backups).
+ *
+ * Every file carries a `schemaVersion`. When the shape of the stored model changes, bump
+ * CURRENT_SCHEMA_VERSION and add a migration from the previous version, so older exports keep loading.
+ */
+
+export const MODEL_FILE_FORMAT = 'threat-model-ai';
+export const CURRENT_SCHEMA_VERSION = 1;
+
+type SerializedDecision = Omit<ThreatDecision, 'expiresAt' | 'updatedDate' | 'comments'> & {
+  expiresAt?: string;
+  updatedDate: string;
+  comments: { id: string; author: string; text: string; createdDate: string }[];
+};
+
+export interface ModelFile {
+  format: typeof MODEL_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO date
+  model: {
+    name: string;
+    modelType: LoadedThreatModel['modelType'];
+    components: LoadedThreatModel['components'];
+    connections: LoadedThreatModel['connections'];
+    viewport?: LoadedThreatModel['viewport'];
+    reports: (Omit<ReportEntry, 'createdDate'> & { createdDate: string })[];
+    threatDecisions: Record<string, SerializedDecision>;
+    metadata?: ModelMetadata; // Missing in files exported before models had metadata
+  };
+}
+
+type Migration = (file: Record<string, any>) => Record<string, any>;
+
+/**
+ * Migrations keyed by the schema version they upgrade from.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 0: the bare model data without an envelope, as saved before the file format was versioned.
+  // Components could lack `properties`, boundaries were only recognisable by their type,
+  // and reports had no structured threats.
+  0: (file) => {
+    const model = file.model || file;
+    return {
+      format: MODEL_FILE_FORMAT,
+      schemaVersion: 1,
+      exportedAt: file.exportedAt || new Date().toISOString(),
+      model: {
+        name: model.name || 'Imported Model',
+        modelType: model.modelType || 'infrastructure',
+        components: (model.components || []).map((component: Record<string, any>) => ({
+          ...component,
+          isBoundary: component.isBoundary ?? component.type === 'Boundary',
+          stencilType: component.stencilType || 'infrastructure',
+          properties: component.properties || {},
+        })),
+        connections: model.connections || [],
+        viewport: model.viewport,
+        reports: (model.reports || []).map((report: Record<string, any>) => ({ ...report, threats: report.threats || [] })),
+        threatDecisions: model.threatDecisions || {},
+      },
+    };
+  },
+};
+
+const toIsoString = (value: unknown): string => {
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof (value as any).toDate === 'function') return (value as any).toDate().toISOString(); // Firestore Timestamp
+  return typeof value === 'string' ? value : new Date().toISOString();
+};
+
+const serializeDecisions = (decisions: ThreatDecisionMap): Record<string, SerializedDecision> =>
+  Object.fromEntries(Object.entries(decisions).map(([threatId, decision]) => [threatId, {
+    ...decision,
+    expiresAt: decision.expiresAt ? decision.expiresAt.toISOString() : undefined,
+    updatedDate: toIsoString(decision.updatedDate),
+    comments: (decision.comments || []).map(comment => ({ ...comment, createdDate: toIsoString(comment.createdDate) })),
+  }]));
+
+const deserializeDecisions = (decisions: Record<string, SerializedDecision>): ThreatDecisionMap =>
+  Object.fromEntries(Object.entries(decisions || {}).map(([threatId, decision]) => [threatId, {
+    ...decision,
+    expiresAt: decision.expiresAt ? new Date(decision.expiresAt) : undefined,
+    updatedDate: new Date(decision.updatedDate),
+    comments: (decision.comments || []).map(comment => ({ ...comment, createdDate: new Date(comment.createdDate) })),
+  }]));
+
+export const createModelFile = (model: LoadedThreatModel): ModelFile => ({
+  format: MODEL_FILE_FORMAT,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  model: {
+    name: model.name,
+    modelType: model.modelType,
+    components: model.components,
+    connections: model.connections,
+    ...(model.viewport && { viewport: model.viewport }),
+    reports: (model.reports || []).map(report => ({ ...report, createdDate: toIsoString(report.createdDate) })),
+    threatDecisions: serializeDecisions(model.threatDecisions || {}),
+    metadata: normalizeModelMetadata(model.metadata),
+  },
+});
+
+export const exportModelFile = (model: LoadedThreatModel): ExportedFile => ({
+  fileName: `${model.name.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'threat-model'}.threat-model.json`,
+  content: JSON.stringify(createModelFile(model), null, 2),
+  mimeType: 'application/json',
+});
+
+/**
+ * Whether parsed JSON looks like a model file, including unversioned (version 0) exports.
+ */
+export const isModelFile = (data: any): boolean =>
+  !!data && typeof data === 'object' && (
+    data.format === MODEL_FILE_FORMAT ||
+    (Array.isArray(data.components) && typeof data.name === 'string')
+  );
+
+/**
+ * Upgrades a parsed model file to the current schema version.
+ */
+export function migrateModelFile(data: Record<string, any>): ModelFile {
+  let file = data;
+  let version = typeof file.schemaVersion === 'number' ? file.schemaVersion : 0;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`This file was exported by a newer version of the application (schema version ${version}). Please update and try again.`);
+  }
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available for model file schema version ${version}.`);
+    }
+    file = migrate(file);
+    version = file.schemaVersion;
+  }
+  return file as ModelFile;
+}
+
+export function importModelFile(data: Record<string, any>): ImportedThreatModel {
+  const { model } = migrateModelFile(data);
+  if (!Array.isArray(model.components) || !Array.isArray(model.connections)) {
+    throw new Error('The model file is missing its components or connections.');
+  }
+  const reports: ReportEntry[] = (model.reports || []).map(report => ({ ...report, createdDate: new Date(report.createdDate) }));
+  return {
+    name: model.name,
+    modelType: model.modelType,
+    components: model.components,
+    connections: model.connections,
+    threats: reports.length > 0 ? reports[reports.length - 1].threats || [] : [],
+    warnings: [],
+    sourceFormat: 'Threat Model File',
+    viewport: model.viewport,
+    reports,
+    threatDecisions: deserializeDecisions(model.threatDecisions),
+    metadata: normalizeModelMetadata(model.metadata),
+  };
+}
@@ -0,0 +1,29 @@
+import type { ModelMetadata } from '@/services/diagram';
+
+export const MODEL_METADATA_FIELDS: (keyof ModelMetadata)[] = [
+  'applicationDescription',
+  'documentOwner',
+  'applicationVersion',
+  'participants',
+  'reviewer',
+];
+
+export const MODEL_METADATA_LABELS: Record<keyof ModelMetadata, string> = {
+  applicationDescription: 'Application Description',
+  documentOwner: 'Document Owner',
+  applicationVersion: 'Application Version',
+  participants: 'Participants',
+  reviewer: 'Reviewer',
+};
+
+/**
+ * Trims the metadata and drops empty fields, as Firestore rejects undefined values.
+ */
+export const normalizeModelMetadata = (metadata: ModelMetadata | undefined): ModelMetadata => {
+  const normalized: ModelMetadata = {};
+  for (const field of MODEL_METADATA_FIELDS) {
+    const value = metadata?.[field];
+    if (typeof value === 'string' && value.trim() !== '') normalized[field] = value.trim();
+  }
+  return normalized;
+};
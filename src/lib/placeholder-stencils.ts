@@ -20,6 +20,11 @@ export const placeholderInfrastructureStencils: InfrastructureStencilData[] = [
     textColor: '#10B981', // Green
     stencilType: 'infrastructure',
     properties: { Type: 'PostgreSQL', Version: '14', Replication: 'Enabled', name: 'User DB' },
+    propertySchema: [
+      { key: 'Type', type: 'enum', options: ['PostgreSQL', 'MySQL', 'SQL Server', 'Oracle', 'MongoDB', 'Other'], required: true },
+      { key: 'Replication', type: 'enum', options: ['Enabled', 'Disabled'] },
+      { key: 'EncryptionAtRest', type: 'boolean', defaultValue: false, required: true, helpText: 'Whether stored data is encrypted on disk.' },
+    ],
   },
   {
     id: 'cloud-service-1',
@@ -0,0 +1,185 @@
+import type { Component as DiagramComponent } from '@/services/diagram';
+import type { PropertyDefinition, PropertyType, PropertyValue, StencilData } from '@/types/stencil';
+import { placeholderInfrastructureStencils, placeholderProcessStencils } from '@/lib/placeholder-stencils';
+
+export const PROPERTY_TYPES: PropertyType[] = ['string', 'number', 'boolean', 'enum', 'multiSelect', 'date'];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on', 'enabled'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off', 'disabled', 'none'];
+
+// `EncryptionAtRest` becomes "Encryption At Rest"
+export const getPropertyLabel = (definition: PropertyDefinition): string =>
+  definition.label || definition.key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, str => str.toUpperCase());
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+const matchOption = (definition: PropertyDefinition, value: unknown): string | undefined =>
+  (definition.options || []).find(option => option.toLowerCase() === String(value).trim().toLowerCase());
+
+/**
+ * Converts a value to the type its definition declares, e.g. "Yes" to `true` or "postgresql" to the
+ * "PostgreSQL" option. Empty values become null.
+ *
+ * @returns The normalized value, or undefined when the value cannot be read as that type.
+ */
+export function normalizePropertyValue(definition: PropertyDefinition, value: unknown): PropertyValue | undefined {
+  if (isEmptyValue(value)) return null;
+
+  switch (definition.type) {
+    case 'string':
+      return typeof value === 'object' ? undefined : String(value).trim();
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      return undefined;
+    }
+    case 'enum':
+      return typeof value === 'object' ? undefined : matchOption(definition, value);
+    case 'multiSelect': {
+      const values = Array.isArray(value) ? value : String(value).split(',');
+      const matched = values.filter(item => !isEmptyValue(item)).map(item => matchOption(definition, item));
+      if (matched.some(option => option === undefined)) return undefined;
+      // In the order of the options, without duplicates
+      return (definition.options || []).filter(option => matched.includes(option));
+    }
+    case 'date': {
+      // Only unambiguous dates are accepted; how other text is parsed depends on the browser
+      if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) return undefined;
+        // Read in local time, so the day does not shift
+        return [value.getFullYear(), value.getMonth() + 1, value.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+      }
+      const text = String(value).trim();
+      const isoMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+      if (!isoMatch) return undefined;
+      // Dates such as 2024-02-30 would roll over into the next month, so the parts must come back unchanged
+      const [year, month, day] = isoMatch.slice(1).map(Number);
+      const date = new Date(0);
+      date.setUTCFullYear(year, month - 1, day);
+      return date.getUTCFullYear() === year && date.getUTCMonth() + 1 === month && date.getUTCDate() === day ? text : undefined;
+    }
+  }
+}
+
+/**
+ * @returns Why the value is not valid for its definition, or null when it is.
+ */
+export function validatePropertyValue(definition: PropertyDefinition, value: unknown): string | null {
+  const label = getPropertyLabel(definition);
+  const normalized = normalizePropertyValue(definition, value);
+  if (normalized === undefined) {
+    switch (definition.type) {
+      case 'number': return `${label} must be a number.`;
+      case 'boolean': return `${label} must be yes or no.`;
+      case 'date': return `${label} must be a date written as YYYY-MM-DD.`;
+      case 'enum':
+      case 'multiSelect': return `${label} must be one of: ${(definition.options || []).join(', ')}.`;
+      default: return `${label} must be text.`;
+    }
+  }
+  if (definition.required && isEmptyValue(normalized)) return `${label} is required.`;
+  return null;
+}
+
+/**
+ * The properties a new component gets from the schema's default values.
+ */
+export const getSchemaDefaults = (schema: PropertyDefinition[] | undefined): Record<string, PropertyValue> =>
+  Object.fromEntries((schema || [])
+    .filter(definition => definition.defaultValue !== undefined)
+    .map(definition => [definition.key, normalizePropertyValue(definition, definition.defaultValue) ?? null]));
+
+/**
+ * Normalizes the properties that the schema declares. Values that cannot be read as their type are
+ * kept as they are, so no information is lost; the diagram checks report them.
+ */
+export const normalizeProperties = <T extends Record<string, any>>(properties: T, schema: PropertyDefinition[] | undefined): T => {
+  const normalized: Record<string, any> = { ...properties };
+  for (const definition of schema || []) {
+    if (!(definition.key in properties)) continue;
+    const value = normalizePropertyValue(definition, properties[definition.key]);
+    if (value !== undefined) normalized[definition.key] = value;
+  }
+  return normalized as T;
+};
+
+/**
+ * The property schemas of the stencils by stencil ID. Components only record which stencil they were
+ * placed from, so editing a stencil's schema applies to the components already on diagrams.
+ * Admin-managed stencils take precedence over the built-in placeholders with the same ID.
+ */
+export const createPropertySchemaMap = (stencils: StencilData[] = []): Map<string, PropertyDefinition[]> =>
+  new Map([...placeholderInfrastructureStencils, ...placeholderProcessStencils, ...stencils]
+    .filter(stencil => stencil.propertySchema && stencil.propertySchema.length > 0)
+    .map(stencil => [stencil.id, stencil.propertySchema as PropertyDefinition[]]));
+
+export const getStencilPropertySchema = (
+  schemas: ReadonlyMap<string, PropertyDefinition[]>,
+  stencilId: string | undefined
+): PropertyDefinition[] => (stencilId && schemas.get(stencilId)) || [];
+
+export const normalizeComponentProperties = (
+  component: DiagramComponent,
+  schemas: ReadonlyMap<string, PropertyDefinition[]>
+): DiagramComponent => {
+  const schema = getStencilPropertySchema(schemas, component.stencilId);
+  return schema.length > 0 ? { ...component, properties: normalizeProperties(component.properties, schema) } : component;
+};
+
+/**
+ * Reads a property schema written as JSON, as edited in the stencil admin.
+ *
+ * @throws An error that says which definition is invalid and why.
+ */
+export function parsePropertySchema(json: string): PropertyDefinition[] {
+  if (!json.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The property schema is not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) throw new Error('The property schema must be a list of property definitions.');
+
+  const keys = new Set<string>();
+  return parsed.map((entry, index): PropertyDefinition => {
+    const position = `Property ${index + 1}`;
+    if (!entry || typeof entry !== 'object') throw new Error(`${position} must be an object.`);
+    const { key, label, type, options, defaultValue, required, helpText } = entry as Record<string, unknown>;
+    if (typeof key !== 'string' || !key.trim()) throw new Error(`${position} needs a key.`);
+    if (keys.has(key.trim())) throw new Error(`"${key}" is declared more than once.`);
+    keys.add(key.trim());
+    if (!PROPERTY_TYPES.includes(type as PropertyType)) {
+      throw new Error(`"${key}" needs a type: one of ${PROPERTY_TYPES.join(', ')}.`);
+    }
+    const hasOptions = type === 'enum' || type === 'multiSelect';
+    if (hasOptions && (!Array.isArray(options) || options.length === 0 || !options.every(option => typeof option === 'string'))) {
+      throw new Error(`"${key}" needs a list of options.`);
+    }
+
+    const definition: PropertyDefinition = {
+      key: key.trim(),
+      type: type as PropertyType,
+      ...(typeof label === 'string' && label.trim() && { label: label.trim() }),
+      ...(hasOptions && { options: options as string[] }),
+      ...(required === true && { required: true }),
+      ...(typeof helpText === 'string' && helpText.trim() && { helpText: helpText.trim() }),
+    };
+    if (defaultValue !== undefined) {
+      const normalizedDefault = normalizePropertyValue(definition, defaultValue);
+      if (normalizedDefault === undefined) throw new Error(`The default value of "${key}" does not match its type.`);
+      definition.defaultValue = normalizedDefault;
+    }
+    return definition;
+  });
+}
+
+export const formatPropertySchema = (schema: PropertyDefinition[] | undefined): string =>
+  schema && schema.length > 0 ? JSON.stringify(schema, null, 2) : '';
@@ -0,0 +1,69 @@
+import type { ReportEntry } from '@/services/diagram';
+import type { ApprovalSnapshot, ModelReview, ReviewAction, ReviewState } from '@/types/review';
+import { stableStringify } from '@/lib/crdt';
+
+/*
+ * The review workflow: Draft → In Review → Changes Requested or Approved. A model with requested
+ * changes is submitted again when they are addressed; saving changes to an approved model reopens
+ * it as a draft.
+ */
+
+export type ReviewStep = Exclude<ReviewAction, 'comment'>;
+
+export const REVIEW_TRANSITIONS: Record<ReviewStep, { from: ReviewState[]; to: ReviewState }> = {
+  submitted: { from: ['draft', 'changes_requested'], to: 'in_review' },
+  changes_requested: { from: ['in_review'], to: 'changes_requested' },
+  approved: { from: ['in_review'], to: 'approved' },
+  reopened: { from: ['approved'], to: 'draft' },
+};
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  comment: 'commented',
+  submitted: 'submitted for review',
+  changes_requested: 'requested changes',
+  approved: 'approved',
+  reopened: 'reopened',
+};
+
+export const DEFAULT_REVIEW: ModelReview = { state: 'draft', reviewers: [], comments: [] };
+
+export const canTransition = (state: ReviewState, step: ReviewStep): boolean => REVIEW_TRANSITIONS[step].from.includes(state);
+
+/**
+ * The workflow steps a user may take on a model. Editors submit and reopen; assigned reviewers decide.
+ */
+export const getAvailableReviewSteps = (
+  review: ModelReview,
+  access: { canEdit: boolean; isReviewer: boolean }
+): ReviewStep[] => {
+  const steps: ReviewStep[] = [];
+  if (access.canEdit && canTransition(review.state, 'submitted') && review.reviewers.length > 0) steps.push('submitted');
+  if (access.isReviewer && canTransition(review.state, 'approved')) steps.push('approved', 'changes_requested');
+  if (access.canEdit && canTransition(review.state, 'reopened')) steps.push('reopened');
+  return steps;
+};
+
+export const getLatestReport = (reports: ReportEntry[] | undefined): ReportEntry | null =>
+  reports && reports.length > 0 ? reports[reports.length - 1] : null;
+
+export type ApprovalContent = Omit<ApprovalSnapshot, 'id' | 'contentDigest'>;
+
+/**
+ * Computes the content digest of an approval: the hex-encoded SHA-256 of its content, serialized
+ * independently of key order. Dates are hashed as ISO strings and undefined values are left out,
+ * so the digest still matches after the snapshot is round-tripped through Firestore. The digest is
+ * not keyed, so it shows that a snapshot was changed by accident, not who approved it.
+ */
+export const computeApprovalDigest = async (content: ApprovalContent): Promise<string> => {
+  const bytes = new TextEncoder().encode(stableStringify(JSON.parse(JSON.stringify(content))));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Checks that a snapshot still holds exactly what was approved.
+ */
+export const verifyApprovalSnapshot = async (snapshot: ApprovalSnapshot): Promise<boolean> => {
+  const { id: _id, contentDigest, ...content } = snapshot;
+  return (await computeApprovalDigest(content)) === contentDigest;
+};
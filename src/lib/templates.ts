@@ -0,0 +1,44 @@
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+import type { DiagramTemplate } from '@/types/template';
+import { createClipboardPayload, preparePaste } from '@/lib/clipboard';
+import { getKnownThreats } from '@/lib/threat-utils';
+
+export type TemplateContent = Pick<DiagramTemplate, 'components' | 'connections'>;
+
+/**
+ * Collects the selected elements for a template, the same way they are copied (see
+ * `createClipboardPayload`), and moves them so the group starts at (0, 0).
+ */
+export const createTemplateContent = (
+  components: DiagramComponent[],
+  connections: DiagramConnection[],
+  selectedIds: Set<string>
+): TemplateContent | null => {
+  const payload = createClipboardPayload(components, connections, selectedIds);
+  if (!payload || payload.components.length === 0) return null;
+  const topLevel = payload.components.filter(component => !component.properties.parentNode);
+  const originX = Math.min(...topLevel.map(component => component.properties.position?.x ?? 0));
+  const originY = Math.min(...topLevel.map(component => component.properties.position?.y ?? 0));
+  return {
+    components: payload.components.map(component => {
+      if (component.properties.parentNode) return component;
+      const position = component.properties.position ?? { x: 0, y: 0 };
+      return { ...component, properties: { ...component.properties, position: { x: position.x - originX, y: position.y - originY } } };
+    }),
+    connections: payload.connections,
+  };
+};
+
+/**
+ * Creates the elements for a template dropped at `position`, with new IDs. They come selected.
+ */
+export const instantiateTemplate = (
+  template: TemplateContent,
+  position: { x: number; y: number }
+): { components: DiagramComponent[]; connections: DiagramConnection[] } => preparePaste(template, position);
+
+export const countKnownThreats = (template: TemplateContent): number =>
+  [...template.components, ...template.connections].reduce(
+    (count, element) => count + getKnownThreats(element.properties).length,
+    0
+  );
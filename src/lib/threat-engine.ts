@@ -0,0 +1,413 @@
+
+import type { Component as DiagramComponent, Connection as DiagramConnection } from '@/services/diagram';
+import type { StrideCategory, Threat, ThreatRating, ThreatTargetType } from '@/types/threat';
+import { STRIDE_CATEGORIES } from '@/types/threat';
+import { collectKnownThreats, createThreatId, dedupeThreats, getThreatRiskLevel } from '@/lib/threat-utils';
+import { analyzeTrustBoundaries, getBoundaryCrossings } from '@/lib/diagram-utils';
+import { escapeHtml } from '@/lib/utils';
+
+/**
+ * Deterministic, rule-based STRIDE-per-element threat engine.
+ *
+ * Runs without any AI provider and always produces the same threats for the same diagram,
+ * so it can serve as a reproducible baseline (e.g. in CI or air-gapped environments).
+ * Threats are emitted in the same shape as the AI report flow.
+ */
+
+export type ElementKind = 'externalEntity' | 'process' | 'dataStore' | 'boundary';
+
+export interface RuleBasedReportInput {
+  modelName: string;
+  modelType: string;
+  components: DiagramComponent[];
+  connections: DiagramConnection[];
+  applicationDescription?: string;
+  documentOwner?: string;
+  participants?: string;
+  reviewer?: string;
+  applicationVersion?: string;
+  generatedAt?: Date; // Fixed date for reproducible output; defaults to now
+}
+
+export interface RuleBasedReport {
+  report: string;
+  threats: Threat[];
+}
+
+interface RuleThreat {
+  category: StrideCategory;
+  title: string;
+  description: string;
+  likelihood: ThreatRating;
+  impact: ThreatRating;
+  mitigation: string;
+}
+
+const EXTERNAL_ENTITY_TYPES = ['User', 'Users', 'UserCircle', 'Globe'];
+const DATA_STORE_TYPES = ['Database', 'HardDrives', 'ArchiveBox', 'Cylinder'];
+
+const UNENCRYPTED_PROTOCOLS: { pattern: RegExp; name: string; secureAlternative: string }[] = [
+  { pattern: /^http$/i, name: 'HTTP', secureAlternative: 'HTTPS (TLS 1.2+)' },
+  { pattern: /^ftp$/i, name: 'FTP', secureAlternative: 'SFTP or FTPS' },
+  { pattern: /^telnet$/i, name: 'Telnet', secureAlternative: 'SSH' },
+  { pattern: /^ldap$/i, name: 'LDAP', secureAlternative: 'LDAPS' },
+  { pattern: /^smtp$/i, name: 'SMTP', secureAlternative: 'SMTP with STARTTLS or SMTPS' },
+  { pattern: /^snmp(v[12]c?)?$/i, name: 'SNMP v1/v2', secureAlternative: 'SNMPv3 with authPriv' },
+  { pattern: /^ws$/i, name: 'WebSocket (ws)', secureAlternative: 'Secure WebSocket (wss)' },
+];
+
+const AUTH_PROPERTY_PATTERN = /auth|accesscontrol|access control|iam|credential/i;
+const ENCRYPTION_PROPERTY_PATTERN = /encrypt/i;
+const LOGGING_PROPERTY_PATTERN = /log|audit/i;
+const PUBLIC_PROPERTY_PATTERN = /public/i;
+const NEGATIVE_VALUE_PATTERN = /^(false|no|none|disabled|off|n\/a|0)$/i;
+
+const getName = (component: DiagramComponent): string =>
+  component.properties?.name || component.name || component.id;
+
+const getConnectionName = (connection: DiagramConnection): string =>
+  connection.properties?.name || connection.label || connection.id;
+
+export const getElementKind = (component: DiagramComponent): ElementKind => {
+  if (component.isBoundary === true || component.type === 'Boundary') return 'boundary';
+  const visualType = component.iconName || component.type;
+  if (EXTERNAL_ENTITY_TYPES.includes(visualType)) return 'externalEntity';
+  if (DATA_STORE_TYPES.includes(visualType)) return 'dataStore';
+  return 'process';
+};
+
+/**
+ * Finds the first property whose key matches the pattern.
+ */
+const findProperty = (properties: Record<string, any> | undefined, pattern: RegExp): { key: string; value: any } | null => {
+  for (const [key, value] of Object.entries(properties || {})) {
+    if (pattern.test(key)) return { key, value };
+  }
+  return null;
+};
+
+const isNegativeValue = (value: any): boolean =>
+  value === false || value === null || value === undefined || NEGATIVE_VALUE_PATTERN.test(String(value).trim());
+
+const componentRules = (component: DiagramComponent): RuleThreat[] => {
+  const name = getName(component);
+  const kind = getElementKind(component);
+  const threats: RuleThreat[] = [];
+
+  if (kind === 'externalEntity') {
+    threats.push({
+      category: 'Spoofing',
+      title: `Impersonation of external entity ${name}`,
+      description: `An attacker could impersonate "${name}" to gain access to the system, for example with stolen or guessed credentials.`,
+      likelihood: 'Medium',
+      impact: 'High',
+      mitigation: 'Require strong authentication (MFA where possible) for this entity and protect credentials against phishing and stuffing.',
+    });
+    threats.push({
+      category: 'Repudiation',
+      title: `Actions of ${name} cannot be attributed`,
+      description: `Without audit trails, "${name}" could deny having performed an action.`,
+      likelihood: 'Medium',
+      impact: 'Medium',
+      mitigation: 'Log security relevant actions with the authenticated identity, a timestamp and the outcome in tamper-evident storage.',
+    });
+  }
+
+  if (kind === 'dataStore') {
+    const authProperty = findProperty(component.properties, AUTH_PROPERTY_PATTERN);
+    if (!authProperty || isNegativeValue(authProperty.value)) {
+      threats.push({
+        category: 'Information Disclosure',
+        title: `Unauthenticated access to data store ${name}`,
+        description: `No authentication is recorded for "${name}". Anyone who can reach it may be able to read its data.`,
+        likelihood: 'High',
+        impact: 'High',
+        mitigation: 'Enforce authentication and least-privilege authorization on the data store, and record the mechanism in its properties.',
+      });
+      threats.push({
+        category: 'Tampering',
+        title: `Unauthorized modification of data in ${name}`,
+        description: `Without authentication, data stored in "${name}" could be altered or deleted.`,
+        likelihood: 'Medium',
+        impact: 'High',
+        mitigation: 'Restrict write access to the services that need it and keep backups to restore integrity.',
+      });
+    }
+    const encryptionProperty = findProperty(component.properties, ENCRYPTION_PROPERTY_PATTERN);
+    if (!encryptionProperty || isNegativeValue(encryptionProperty.value)) {
+      threats.push({
+        category: 'Information Disclosure',
+        title: `Data at rest in ${name} is not encrypted`,
+        description: `No encryption at rest is recorded for "${name}". Stolen media, snapshots or backups would expose its data.`,
+        likelihood: 'Medium',
+        impact: 'High',
+        mitigation: 'Enable encryption at rest with managed keys and restrict access to the keys.',
+      });
+    }
+  }
+
+  if (kind === 'process') {
+    const loggingProperty = findProperty(component.properties, LOGGING_PROPERTY_PATTERN);
+    if (!loggingProperty || isNegativeValue(loggingProperty.value)) {
+      threats.push({
+        category: 'Repudiation',
+        title: `Insufficient logging in ${name}`,
+        description: `No logging or auditing is recorded for "${name}", so malicious actions may go unnoticed and cannot be investigated.`,
+        likelihood: 'Medium',
+        impact: 'Medium',
+        mitigation: 'Log authentication, authorization and data changes centrally and monitor them for anomalies.',
+      });
+    }
+  }
+
+  if (kind !== 'boundary') {
+    const publicProperty = findProperty(component.properties, PUBLIC_PROPERTY_PATTERN);
+    if (publicProperty && !isNegativeValue(publicProperty.value)) {
+      threats.push({
+        category: kind === 'dataStore' ? 'Information Disclosure' : 'Denial of Service',
+        title: `${name} is publicly accessible`,
+        description: `"${name}" is marked as publicly accessible (${publicProperty.key}: ${String(publicProperty.value)}), which exposes it to the whole internet.`,
+        likelihood: 'High',
+        impact: kind === 'dataStore' ? 'High' : 'Medium',
+        mitigation: 'Remove public access where not required, or place the element behind a gateway with authentication and rate limiting.',
+      });
+    }
+  }
+
+  return threats;
+};
+
+const connectionRules = (
+  connection: DiagramConnection,
+  componentsById: Map<string, DiagramComponent>,
+  crossedBoundaryNames: string[]
+): RuleThreat[] => {
+  const name = getConnectionName(connection);
+  const source = componentsById.get(connection.source);
+  const target = componentsById.get(connection.target);
+  const sourceName = source ? getName(source) : connection.source;
+  const targetName = target ? getName(target) : connection.target;
+  const threats: RuleThreat[] = [];
+
+  const protocol = String(connection.properties?.protocol || '').trim();
+  const insecureProtocol = UNENCRYPTED_PROTOCOLS.find(p => p.pattern.test(protocol));
+  if (insecureProtocol) {
+    threats.push({
+      category: 'Information Disclosure',
+      title: `Unencrypted ${insecureProtocol.name} traffic on ${name}`,
+      description: `Data flowing from "${sourceName}" to "${targetName}" uses ${insecureProtocol.name}, which is not encrypted and can be intercepted.`,
+      likelihood: 'High',
+      impact: 'High',
+      mitigation: `Replace ${insecureProtocol.name} with ${insecureProtocol.secureAlternative}.`,
+    });
+    threats.push({
+      category: 'Tampering',
+      title: `Man-in-the-middle modification of ${name}`,
+      description: `Because ${insecureProtocol.name} has no integrity protection, an attacker on the network path could alter data between "${sourceName}" and "${targetName}".`,
+      likelihood: 'Medium',
+      impact: 'High',
+      mitigation: `Use ${insecureProtocol.secureAlternative} and verify peer certificates.`,
+    });
+  }
+
+  if (crossedBoundaryNames.length > 0) {
+    const boundaries = crossedBoundaryNames.join(', ');
+    threats.push({
+      category: 'Spoofing',
+      title: `Unauthenticated caller across trust boundary on ${name}`,
+      description: `"${name}" crosses the trust boundary ${boundaries}. "${targetName}" must not trust "${sourceName}" without verifying its identity.`,
+      likelihood: 'Medium',
+      impact: 'High',
+      mitigation: 'Authenticate both ends of the flow at the boundary (e.g. mutual TLS or signed tokens).',
+    });
+    threats.push({
+      category: 'Tampering',
+      title: `Untrusted input crossing trust boundary on ${name}`,
+      description: `Data entering through "${name}" across ${boundaries} may be malformed or malicious (injection, deserialization attacks).`,
+      likelihood: 'Medium',
+      impact: 'High',
+      mitigation: 'Validate and sanitize all input at the boundary using allow-lists and strict schemas.',
+    });
+    threats.push({
+      category: 'Denial of Service',
+      title: `Resource exhaustion across trust boundary on ${name}`,
+      description: `Requests crossing ${boundaries} over "${name}" could flood "${targetName}".`,
+      likelihood: 'Medium',
+      impact: 'Medium',
+      mitigation: 'Apply rate limiting, quotas and timeouts at the boundary.',
+    });
+  }
+
+  if (source && target && getElementKind(source) === 'externalEntity' && getElementKind(target) === 'dataStore') {
+    threats.push({
+      category: 'Elevation of Privilege',
+      title: `External entity ${sourceName} accesses data store ${targetName} directly`,
+      description: `"${sourceName}" reaches "${targetName}" without an intermediate process enforcing authorization.`,
+      likelihood: 'Medium',
+      impact: 'High',
+      mitigation: 'Route access through a service that enforces authorization instead of exposing the data store directly.',
+    });
+  }
+
+  return threats;
+};
+
+const toThreat = (rule: RuleThreat, targetId: string, targetType: ThreatTargetType): Threat => ({
+  ...rule,
+  id: createThreatId(targetId, rule.category, rule.title),
+  targetId,
+  targetType,
+  status: 'Open',
+});
+
+/**
+ * Applies the STRIDE-per-element rules to a diagram and returns the identified threats together with
+ * the elements' known threats, sorted by ID so the output is stable.
+ */
+export function analyzeThreatsWithRules(components: DiagramComponent[], connections: DiagramConnection[]): Threat[] {
+  const componentsById = new Map(components.map(c => [c.id, c]));
+  const threats: Threat[] = [];
+
+  for (const component of components) {
+    for (const rule of componentRules(component)) {
+      threats.push(toThreat(rule, component.id, 'component'));
+    }
+  }
+
+  const boundaryInfoByConnection = new Map(
+    analyzeTrustBoundaries(components, connections).map(info => [info.connectionId, info])
+  );
+  for (const connection of connections) {
+    const crossedBoundaryIds = boundaryInfoByConnection.get(connection.id)?.crossedBoundaryIds || [];
+    const crossedBoundaryNames = crossedBoundaryIds.map(id => {
+      const boundary = componentsById.get(id);
+      return boundary ? getName(boundary) : id;
+    });
+    for (const rule of connectionRules(connection, componentsById, crossedBoundaryNames)) {
+      threats.push(toThreat(rule, connection.id, 'connection'));
+    }
+  }
+
+  // Threats written for the elements beforehand (e.g. by a template) win over rule findings with the same ID
+  return dedupeThreats([...collectKnownThreats(components, connections), ...threats]).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+const REPORT_STYLES = `
+  <style>
+    .threat-report-container { padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; font-family: sans-serif; line-height: 1.6; }
+    .threat-report-container h1 { font-size: 1.8em; margin-bottom: 0.6em; color: #1A237E; border-bottom: 2px solid #1A237E; padding-bottom: 0.3em; }
+    .threat-report-container h2 { font-size: 1.4em; margin-top: 1.2em; margin-bottom: 0.5em; color: #1A237E; border-bottom: 1px solid #00ACC1; padding-bottom: 0.2em; }
+    .threat-report-container h3 { font-size: 1.15em; margin-top: 1em; margin-bottom: 0.4em; color: #333; }
+    .threat-report-container h4 { font-size: 1em; font-weight: bold; margin-top: 0.8em; margin-bottom: 0.3em; color: #444; }
+    .threat-report-container ul { margin-left: 20px; margin-bottom: 0.6em; list-style-type: disc; }
+    .threat-report-container .component-block, .threat-report-container .connection-block {
+        padding: 0.8em; border: 1px solid #E0E0E0; border-radius: 0.5rem; background-color: #F9F9F9; margin-bottom: 1.2em;
+    }
+    .threat-report-container .date-generated { font-size: 0.9em; color: #777; margin-bottom: 1.5em; text-align: right; }
+    .threat-report-container table { border-collapse: collapse; width: 100%; }
+    .threat-report-container th, .threat-report-container td { border: 1px solid #E0E0E0; padding: 4px 8px; text-align: left; font-size: 0.9em; }
+  </style>`;
+
+/**
+ * Renders a threat register as a self-contained HTML report, using the same section
+ * structure and styles as the AI generated report.
+ */
+export function renderThreatRegisterHtml(input: RuleBasedReportInput, threats: Threat[], engineDescription: string): string {
+  const generatedAt = input.generatedAt || new Date();
+  const componentsById = new Map(input.components.map(c => [c.id, c]));
+  const connectionsById = new Map(input.connections.map(c => [c.id, c]));
+  const riskOrder = ['Critical', 'High', 'Medium', 'Low'];
+  const riskCounts = riskOrder.map(level => ({
+    level,
+    count: threats.filter(t => getThreatRiskLevel(t.likelihood, t.impact) === level).length,
+  }));
+
+  const targetLabel = (threat: Threat): string => {
+    if (threat.targetType === 'component') {
+      const component = componentsById.get(threat.targetId);
+      return component ? `Component: ${getName(component)}` : threat.targetId;
+    }
+    const connection = connectionsById.get(threat.targetId);
+    return connection ? `Connection: ${getConnectionName(connection)}` : threat.targetId;
+  };
+
+  const crossingItems = getBoundaryCrossings(input.components, input.connections).map(crossing => {
+    const connection = connectionsById.get(crossing.connectionId);
+    const boundaryNames = crossing.crossedBoundaryIds.map(id => {
+      const boundary = componentsById.get(id);
+      return boundary ? getName(boundary) : id;
+    });
+    return `<li><strong>${escapeHtml(connection ? getConnectionName(connection) : crossing.connectionId)}:</strong> crosses ${escapeHtml(boundaryNames.join(', '))}</li>`;
+  });
+
+  const threatsByTarget = new Map<string, Threat[]>();
+  for (const threat of threats) {
+    threatsByTarget.set(threat.targetId, [...(threatsByTarget.get(threat.targetId) || []), threat]);
+  }
+
+  const targetBlocks = Array.from(threatsByTarget.entries()).map(([targetId, targetThreats]) => {
+    const blockClass = targetThreats[0].targetType === 'component' ? 'component-block' : 'connection-block';
+    const categories = STRIDE_CATEGORIES.filter(category => targetThreats.some(t => t.category === category));
+    return `<div class="${blockClass}">
+      <h3>${escapeHtml(targetLabel(targetThreats[0]))}</h3>
+      ${categories.map(category => `<h4>${escapeHtml(category)} Threats</h4>
+      <ul>${targetThreats.filter(t => t.category === category).map(t => `
+        <li><strong>Threat:</strong> ${escapeHtml(t.title)}. ${escapeHtml(t.description)}
+          <ul>
+            <li><strong>Likelihood:</strong> ${escapeHtml(t.likelihood)}</li>
+            <li><strong>Potential Impact:</strong> ${escapeHtml(t.impact)}</li>
+            <li><strong>Mitigation:</strong> ${escapeHtml(t.mitigation)}</li>
+          </ul>
+        </li>`).join('')}
+      </ul>`).join('')}
+    </div>`;
+  }).join('');
+
+  const riskRows = threats
+    .slice()
+    .sort((a, b) => riskOrder.indexOf(getThreatRiskLevel(a.likelihood, a.impact)) - riskOrder.indexOf(getThreatRiskLevel(b.likelihood, b.impact)))
+    .map(t => `<tr><td>${escapeHtml(getThreatRiskLevel(t.likelihood, t.impact))}</td><td>${escapeHtml(t.title)}</td><td>${escapeHtml(t.category)}</td><td>${escapeHtml(targetLabel(t))}</td><td>${escapeHtml(t.status)}</td></tr>`)
+    .join('');
+
+  return `<div class="threat-report-container">${REPORT_STYLES}
+    <h1>Threat Model Report - ${escapeHtml(input.modelName)}</h1>
+    <p class="date-generated">Generated: ${escapeHtml(generatedAt.toISOString())}</p>
+    <h2>Executive Summary</h2>
+    <p>${escapeHtml(engineDescription)} ${threats.length} threats were identified across ${input.components.length} components and ${input.connections.length} connections.</p>
+    <ul>${riskCounts.map(r => `<li><strong>${r.level}:</strong> ${r.count}</li>`).join('')}</ul>
+    <h2>Application Information</h2>
+    <h3>Details</h3>
+    <p><strong>Application Name:</strong> ${escapeHtml(input.modelName)}</p>
+    <p><strong>Application Version:</strong> ${escapeHtml(input.applicationVersion)}</p>
+    <p><strong>Description:</strong> ${escapeHtml(input.applicationDescription)}</p>
+    <p><strong>Document Owner:</strong> ${escapeHtml(input.documentOwner)}</p>
+    <p><strong>Participants:</strong> ${escapeHtml(input.participants)}</p>
+    <p><strong>Reviewer(s):</strong> ${escapeHtml(input.reviewer)}</p>
+    <h2>Architecture Diagram</h2>
+    <p>The analysis was performed on the ${escapeHtml(input.modelType)} model diagram.</p>
+    <h3>Trust Boundary Crossings</h3>
+    ${crossingItems.length > 0 ? `<ul>${crossingItems.join('')}</ul>` : '<p>No data flows cross a trust boundary.</p>'}
+    <h2>Threat Identification &amp; Analysis</h2>
+    <h3>Identified Threats by Component/Connection</h3>
+    ${targetBlocks || '<p>No threats were identified.</p>'}
+    <h2>Mitigation Strategies</h2>
+    <h3>Recommended Mitigations by Threat</h3>
+    <ul>${threats.map(t => `<li><strong>Mitigation for ${escapeHtml(t.title)}:</strong> ${escapeHtml(t.mitigation)}</li>`).join('')}</ul>
+    <h2>Risk Assessment</h2>
+    <p>Risk is assessed as Likelihood x Impact.</p>
+    <table><thead><tr><th>Risk</th><th>Threat</th><th>Category</th><th>Location</th><th>Status</th></tr></thead><tbody>${riskRows}</tbody></table>
+  </div>`;
+}
+
+/**
+ * Runs the rule-based engine and renders its findings as a report.
+ */
+export function generateRuleBasedThreatReport(input: RuleBasedReportInput): RuleBasedReport {
+  const threats = analyzeThreatsWithRules(input.components, input.connections);
+  const report = renderThreatRegisterHtml(
+    input,
+    threats,
+    'This report was produced by the deterministic rule-based STRIDE engine, without AI assistance.'
+  );
+  return { report, threats };
+}
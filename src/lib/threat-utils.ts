@@ -0,0 +1,165 @@
+
+import type { KnownThreat, StrideCategory, Threat, ThreatDecision, ThreatRating, ThreatStatus, ThreatTargetType } from '@/types/threat';
+import { STRIDE_CATEGORIES } from '@/types/threat';
+
+export type ThreatRiskLevel = 'Low' | 'Medium' | 'High' | 'Critical';
+
+const RATING_SCORE: Record<ThreatRating, number> = { Low: 1, Medium: 2, High: 3 };
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+/**
+ * Builds a stable threat ID from the element it targets, its STRIDE category and its title.
+ * The same threat found in a later report therefore keeps the same ID, which lets
+ * threats be tracked and diffed across report generations.
+ */
+export const createThreatId = (targetId: string, category: string, title: string): string =>
+  `${targetId}:${slugify(category)}:${slugify(title) || 'threat'}`;
+
+// Target and category part of a threat ID; the title slug after the last colon cannot contain one
+const getThreatScope = (threatId: string): string => threatId.slice(0, threatId.lastIndexOf(':'));
+
+/**
+ * Reads the element and STRIDE category back from a threat ID made by createThreatId.
+ */
+export const parseThreatId = (threatId: string): { targetId: string; category?: StrideCategory } => {
+  const scope = getThreatScope(threatId);
+  const separator = scope.lastIndexOf(':');
+  const categorySlug = scope.slice(separator + 1);
+  return {
+    targetId: scope.slice(0, separator),
+    category: STRIDE_CATEGORIES.find(category => slugify(category) === categorySlug),
+  };
+};
+
+/**
+ * The decisions that match none of the threats, e.g. because the element was removed or the threat
+ * was not found again. They are kept, so they can be reviewed rather than silently lost.
+ */
+export const getOrphanedThreatDecisions = (threats: Threat[], decisions: Record<string, ThreatDecision>): ThreatDecision[] => {
+  const threatIds = new Set(threats.map(threat => threat.id));
+  return Object.values(decisions).filter(decision => !threatIds.has(decision.threatId));
+};
+
+const groupByThreatScope = (threatIds: string[]): Map<string, string[]> => {
+  const groups = new Map<string, string[]>();
+  for (const threatId of threatIds) {
+    const scope = getThreatScope(threatId);
+    groups.set(scope, [...(groups.get(scope) || []), threatId]);
+  }
+  return groups;
+};
+
+/**
+ * Carries decisions over to a new report whose threats were worded differently. A decision that no
+ * longer matches a threat ID moves to the new threat for the same element and STRIDE category, as long
+ * as that pairing is unambiguous: one unmatched decision and one undecided threat.
+ *
+ * @returns The decisions keyed by the new threat IDs, or the same map when nothing moved.
+ */
+export const carryOverThreatDecisions = (
+  threats: Threat[],
+  decisions: Record<string, ThreatDecision>
+): Record<string, ThreatDecision> => {
+  const unmatchedDecisions = groupByThreatScope(getOrphanedThreatDecisions(threats, decisions).map(decision => decision.threatId));
+  const undecidedThreats = groupByThreatScope(threats.filter(threat => !decisions[threat.id]).map(threat => threat.id));
+
+  let carried: Record<string, ThreatDecision> | null = null;
+  for (const [scope, decisionIds] of unmatchedDecisions) {
+    const threatIds = undecidedThreats.get(scope) || [];
+    if (decisionIds.length !== 1 || threatIds.length !== 1) continue;
+    carried = carried || { ...decisions };
+    delete carried[decisionIds[0]];
+    carried[threatIds[0]] = { ...decisions[decisionIds[0]], threatId: threatIds[0] };
+  }
+  return carried || decisions;
+};
+
+/**
+ * Risk is assessed as Likelihood x Impact, mirroring the Risk Assessment section of the report.
+ */
+export const getThreatRiskLevel = (likelihood: ThreatRating, impact: ThreatRating): ThreatRiskLevel => {
+  const score = (RATING_SCORE[likelihood] || 1) * (RATING_SCORE[impact] || 1);
+  if (score >= 9) return 'Critical';
+  if (score >= 6) return 'High';
+  if (score >= 3) return 'Medium';
+  return 'Low';
+};
+
+/**
+ * Removes duplicate threats (same ID), keeping the first occurrence.
+ */
+export const dedupeThreats = (threats: Threat[]): Threat[] => {
+  const seen = new Set<string>();
+  return threats.filter(threat => {
+    if (seen.has(threat.id)) return false;
+    seen.add(threat.id);
+    return true;
+  });
+};
+
+/**
+ * Returns the status a threat should be treated as, taking any recorded decision into account.
+ * Accepted risks whose acceptance has expired are treated as Open again.
+ */
+export const getEffectiveThreatStatus = (
+  threat: Threat,
+  decision: ThreatDecision | undefined,
+  now: Date = new Date()
+): ThreatStatus => {
+  if (!decision) return threat.status;
+  if (decision.status === 'Accepted' && isThreatAcceptanceExpired(decision, now)) return 'Open';
+  return decision.status;
+};
+
+export const isThreatAcceptanceExpired = (decision: ThreatDecision, now: Date = new Date()): boolean =>
+  decision.status === 'Accepted' && !!decision.expiresAt && decision.expiresAt.getTime() < now.getTime();
+
+export const KNOWN_THREATS_PROPERTY = 'knownThreats';
+
+const isThreatRating = (value: unknown): value is ThreatRating => typeof value === 'string' && value in RATING_SCORE;
+
+/**
+ * Reads the known threats stored on a diagram element (see KnownThreat), skipping malformed entries.
+ */
+export const getKnownThreats = (properties: Record<string, any> | undefined): KnownThreat[] => {
+  const stored = properties?.[KNOWN_THREATS_PROPERTY];
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter(threat => typeof threat?.title === 'string' && threat.title.trim() !== '' && STRIDE_CATEGORIES.includes(threat.category))
+    .map(threat => ({
+      title: threat.title,
+      description: typeof threat.description === 'string' ? threat.description : '',
+      category: threat.category,
+      likelihood: isThreatRating(threat.likelihood) ? threat.likelihood : 'Medium',
+      impact: isThreatRating(threat.impact) ? threat.impact : 'Medium',
+      mitigation: typeof threat.mitigation === 'string' ? threat.mitigation : '',
+    }));
+};
+
+/**
+ * Turns the known threats of every component and connection into register entries, so reports
+ * include them however they were generated.
+ */
+export const collectKnownThreats = (
+  components: { id: string; properties?: Record<string, any> }[],
+  connections: { id: string; properties?: Record<string, any> }[]
+): Threat[] => {
+  const toThreats = (element: { id: string; properties?: Record<string, any> }, targetType: ThreatTargetType): Threat[] =>
+    getKnownThreats(element.properties).map(threat => ({
+      ...threat,
+      id: createThreatId(element.id, threat.category, threat.title),
+      targetId: element.id,
+      targetType,
+      status: 'Open',
+    }));
+  return [
+    ...components.flatMap(component => toThreats(component, 'component')),
+    ...connections.flatMap(connection => toThreats(connection, 'connection')),
+  ];
+};
@@ -0,0 +1,184 @@
+
+import { db, ensureFirebaseInitialized } from '@/lib/firebase/firebase';
+import { mergeLiveElementStates, type LiveElementKind, type LiveElementState, type LwwRegister } from '@/lib/crdt';
+import type { CollaboratorPresence } from '@/types/collaboration';
+import {
+  collection,
+  doc,
+  deleteDoc,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  type Firestore,
+  type Unsubscribe,
+} from 'firebase/firestore';
+
+// Live state is kept in subcollections of the model, so the security rules of the model apply to it
+const LIVE_ELEMENTS_COLLECTION = 'liveElements';
+const PRESENCE_COLLECTION = 'presence';
+
+// Firestore transactions are limited to 500 writes
+const MAX_ELEMENTS_PER_TRANSACTION = 200;
+
+/**
+ * Firestore shape of a replicated element. Stamps are flattened into each register.
+ */
+interface LiveElementDocument {
+  kind: LiveElementKind;
+  fields: Record<string, { value: unknown; time: number; clientId: string }>;
+  deleted: { value: boolean | null; time: number; clientId: string };
+  revision?: number; // Model revision the state builds on; older state is already part of the saved model
+}
+
+/**
+ * A replicated element as received from Firestore, with the model revision it builds on.
+ */
+export interface LiveElementUpdate {
+  state: LiveElementState;
+  revision: number;
+}
+
+/**
+ * Reference to the live state of an element, e.g. to clear it when the model is saved.
+ */
+export const getLiveElementRef = (firestore: Firestore, modelId: string, elementId: string) =>
+  doc(firestore, 'threatModels', modelId, LIVE_ELEMENTS_COLLECTION, elementId);
+
+const requireDb = (operation: string) => {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || `Firestore not initialized for ${operation}`);
+  }
+  return db;
+};
+
+const toRegisterDocument = <T>(register: LwwRegister<T>): { value: T | null; time: number; clientId: string } => ({
+  // Firestore rejects undefined values; removed fields are stored as null
+  value: register.value ?? null,
+  time: register.stamp.time,
+  clientId: register.stamp.clientId,
+});
+
+const fromRegisterDocument = (register: { value: unknown; time: number; clientId: string }): LwwRegister => ({
+  value: register.value,
+  stamp: { time: register.time, clientId: register.clientId },
+});
+
+const toLiveElementDocument = (state: LiveElementState, revision: number): LiveElementDocument => ({
+  kind: state.kind,
+  fields: Object.fromEntries(Object.entries(state.fields).map(([field, register]) => [field, toRegisterDocument(register)])),
+  deleted: toRegisterDocument(state.deleted),
+  revision,
+});
+
+const fromLiveElementDocument = (id: string, data: LiveElementDocument): LiveElementState => ({
+  id,
+  kind: data.kind,
+  fields: Object.fromEntries(Object.entries(data.fields || {}).map(([field, register]) => [field, fromRegisterDocument(register)])),
+  deleted: { value: !!data.deleted?.value, stamp: { time: data.deleted?.time || 0, clientId: data.deleted?.clientId || '' } },
+});
+
+/**
+ * Listens to the live elements of a model. The callback receives the elements that were added or
+ * changed since the previous snapshot; `isInitial` is true for the first snapshot. Elements cleared
+ * by a save are not reported.
+ *
+ * @returns A function that stops listening.
+ */
+export function subscribeToLiveElements(
+  modelId: string,
+  onChange: (updates: LiveElementUpdate[], isInitial: boolean) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  const firestore = requireDb('subscribeToLiveElements');
+  let isInitial = true;
+  return onSnapshot(
+    collection(firestore, 'threatModels', modelId, LIVE_ELEMENTS_COLLECTION),
+    snapshot => {
+      const updates = snapshot.docChanges()
+        .filter(change => change.type !== 'removed')
+        .map(change => {
+          const data = change.doc.data() as LiveElementDocument;
+          return { state: fromLiveElementDocument(change.doc.id, data), revision: data.revision ?? 0 };
+        });
+      onChange(updates, isInitial);
+      isInitial = false;
+    },
+    error => {
+      console.error("Error listening to live elements:", error);
+      onError?.(error);
+    }
+  );
+}
+
+/**
+ * Publishes local edits. Each element is merged with the stored replica inside a transaction, so
+ * concurrent publishes from several clients never lose each other's fields. Replicas that build on
+ * an older revision than `revision` are replaced instead, since the saved model already holds them.
+ */
+export async function publishLiveElements(modelId: string, states: LiveElementState[], revision: number): Promise<void> {
+  const firestore = requireDb('publishLiveElements');
+  for (let start = 0; start < states.length; start += MAX_ELEMENTS_PER_TRANSACTION) {
+    const chunk = states.slice(start, start + MAX_ELEMENTS_PER_TRANSACTION);
+    await runTransaction(firestore, async transaction => {
+      const refs = chunk.map(state => getLiveElementRef(firestore, modelId, state.id));
+      // All reads must happen before the first write of a transaction
+      const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+      snapshots.forEach((snapshot, index) => {
+        const data = snapshot.exists() ? snapshot.data() as LiveElementDocument : undefined;
+        const storedRevision = data?.revision ?? 0;
+        const stored = data && storedRevision >= revision ? fromLiveElementDocument(snapshot.id, data) : undefined;
+        transaction.set(refs[index], toLiveElementDocument(mergeLiveElementStates(stored, chunk[index]), Math.max(storedRevision, revision)));
+      });
+    });
+  }
+}
+
+/**
+ * Creates or refreshes the current client's presence on a model.
+ */
+export async function updatePresence(modelId: string, presence: Omit<CollaboratorPresence, 'updatedAt'>): Promise<void> {
+  const firestore = requireDb('updatePresence');
+  await setDoc(doc(firestore, 'threatModels', modelId, PRESENCE_COLLECTION, presence.clientId), {
+    ...presence,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function removePresence(modelId: string, clientId: string): Promise<void> {
+  const firestore = requireDb('removePresence');
+  await deleteDoc(doc(firestore, 'threatModels', modelId, PRESENCE_COLLECTION, clientId));
+}
+
+/**
+ * Listens to everyone present on a model, including the current client.
+ *
+ * @returns A function that stops listening.
+ */
+export function subscribeToPresence(
+  modelId: string,
+  onChange: (presences: CollaboratorPresence[]) => void
+): Unsubscribe {
+  const firestore = requireDb('subscribeToPresence');
+  return onSnapshot(
+    collection(firestore, 'threatModels', modelId, PRESENCE_COLLECTION),
+    snapshot => {
+      onChange(snapshot.docs.map(docSnap => {
+        const data = docSnap.data();
+        return {
+          clientId: docSnap.id,
+          userId: data.userId,
+          displayName: data.displayName || 'Anonymous',
+          color: data.color,
+          cursor: data.cursor || null,
+          selectedIds: data.selectedIds || [],
+          // Pending local writes have no server timestamp yet
+          updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
+        };
+      }));
+    },
+    error => console.error("Error listening to presence:", error)
+  );
+}
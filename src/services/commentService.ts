@@ -0,0 +1,140 @@
+import { db, ensureFirebaseInitialized } from '@/lib/firebase/firebase';
+import type { CommentAnchor, CommentThread, DiagramComment } from '@/types/comment';
+import {
+  collection,
+  addDoc,
+  deleteDoc,
+  deleteField,
+  doc,
+  onSnapshot,
+  updateDoc,
+  arrayUnion,
+  Timestamp,
+  type Unsubscribe,
+} from 'firebase/firestore';
+
+// Threads are kept in a subcollection of the model, so the security rules of the model apply to them
+const COMMENT_THREADS_COLLECTION = 'commentThreads';
+
+/**
+ * Firestore shape of a thread. Replies are appended to `comments`.
+ */
+interface CommentThreadDocument {
+  anchor: CommentAnchor;
+  comments: (Omit<DiagramComment, 'createdDate'> & { createdDate: Timestamp })[];
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedByName?: string;
+  resolvedDate?: Timestamp;
+  createdBy: string;
+  createdDate: Timestamp;
+}
+
+export type NewDiagramComment = Pick<DiagramComment, 'authorId' | 'authorName' | 'text' | 'mentions'>;
+
+const requireDb = (operation: string) => {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || `Firestore not initialized for ${operation}`);
+  }
+  return db;
+};
+
+const toCommentDocument = (comment: NewDiagramComment) => ({
+  id: crypto.randomUUID(),
+  authorId: comment.authorId,
+  authorName: comment.authorName,
+  text: comment.text.trim(),
+  mentions: comment.mentions.map(mention => ({ email: mention.email, displayName: mention.displayName })),
+  createdDate: Timestamp.now(),
+});
+
+const toCommentThread = (id: string, data: CommentThreadDocument): CommentThread => ({
+  id,
+  anchor: data.anchor,
+  comments: (data.comments || []).map(comment => ({
+    ...comment,
+    mentions: comment.mentions || [],
+    // Pending local writes of a new thread may not have a date yet
+    createdDate: comment.createdDate instanceof Timestamp ? comment.createdDate.toDate() : new Date(),
+  })),
+  resolved: !!data.resolved,
+  ...(data.resolvedBy && { resolvedBy: data.resolvedBy }),
+  ...(data.resolvedByName && { resolvedByName: data.resolvedByName }),
+  ...(data.resolvedDate instanceof Timestamp && { resolvedDate: data.resolvedDate.toDate() }),
+  createdBy: data.createdBy,
+  createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate() : new Date(),
+});
+
+/**
+ * Listens to the comment threads of a model, oldest first.
+ *
+ * @returns A function that stops listening.
+ */
+export function subscribeToCommentThreads(
+  modelId: string,
+  onChange: (threads: CommentThread[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  const firestore = requireDb('subscribeToCommentThreads');
+  return onSnapshot(
+    collection(firestore, 'threatModels', modelId, COMMENT_THREADS_COLLECTION),
+    snapshot => {
+      onChange(snapshot.docs
+        .map(docSnap => toCommentThread(docSnap.id, docSnap.data() as CommentThreadDocument))
+        .sort((a, b) => a.createdDate.getTime() - b.createdDate.getTime()));
+    },
+    error => {
+      console.error("Error listening to comment threads:", error);
+      onError?.(error);
+    }
+  );
+}
+
+/**
+ * Starts a thread on an element or a point of the canvas.
+ *
+ * @returns A promise that resolves to the new thread's ID.
+ */
+export async function createCommentThread(modelId: string, anchor: CommentAnchor, comment: NewDiagramComment): Promise<string> {
+  const firestore = requireDb('createCommentThread');
+  const data: CommentThreadDocument = {
+    anchor,
+    comments: [toCommentDocument(comment)],
+    resolved: false,
+    createdBy: comment.authorId,
+    createdDate: Timestamp.now(),
+  };
+  const docRef = await addDoc(collection(firestore, 'threatModels', modelId, COMMENT_THREADS_COLLECTION), data);
+  return docRef.id;
+}
+
+export async function replyToCommentThread(modelId: string, threadId: string, comment: NewDiagramComment): Promise<void> {
+  const firestore = requireDb('replyToCommentThread');
+  await updateDoc(doc(firestore, 'threatModels', modelId, COMMENT_THREADS_COLLECTION, threadId), {
+    comments: arrayUnion(toCommentDocument(comment)),
+  });
+}
+
+/**
+ * Resolves a thread, or reopens it when `resolvedBy` is null. The Firestore rules only accept the
+ * current user as the one who resolves it.
+ */
+export async function setCommentThreadResolved(
+  modelId: string,
+  threadId: string,
+  resolvedBy: Pick<NewDiagramComment, 'authorId' | 'authorName'> | null
+): Promise<void> {
+  const firestore = requireDb('setCommentThreadResolved');
+  await updateDoc(doc(firestore, 'threatModels', modelId, COMMENT_THREADS_COLLECTION, threadId), resolvedBy
+    ? { resolved: true, resolvedBy: resolvedBy.authorId, resolvedByName: resolvedBy.authorName, resolvedDate: Timestamp.now() }
+    : { resolved: false, resolvedBy: deleteField(), resolvedByName: deleteField(), resolvedDate: deleteField() });
+}
+
+/**
+ * Deletes a thread. Only its creator and owners of the model may do this; the Firestore rules enforce it.
+ */
+export async function deleteCommentThread(modelId: string, threadId: string): Promise<void> {
+  const firestore = requireDb('deleteCommentThread');
+  await deleteDoc(doc(firestore, 'threatModels', modelId, COMMENT_THREADS_COLLECTION, threadId));
+}
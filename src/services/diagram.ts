@@ -1,16 +1,30 @@
 
 import type { Viewport } from '@xyflow/react';
 import { db, ensureFirebaseInitialized } from '@/lib/firebase/firebase';
+import type { Threat, ThreatDecision } from '@/types/threat';
+import type { Collaborator, CollaboratorRole } from '@/types/sharing';
+import { MODEL_ROLE_BY_WORKSPACE_ROLE, type WorkspaceRole } from '@/types/workspace';
+import { normalizeModelMetadata } from '@/lib/model-metadata';
+import { REVIEW_TRANSITIONS, canTransition } from '@/lib/review';
+import { createReviewCommentDocument, deserializeReview } from '@/services/reviewService';
+import { getLiveElementRef } from '@/services/collaboration';
+import type { ReviewState } from '@/types/review';
 import {
   collection,
-  addDoc,
   updateDoc,
   doc,
   getDoc,
   query,
   where,
   getDocs,
+  runTransaction,
   serverTimestamp,
+  writeBatch,
+  orderBy,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  FieldPath,
   Timestamp,
   type FieldValue,
 } from 'firebase/firestore';
@@ -28,6 +42,19 @@ export interface Component {
    * The type of the component (e.g., server, database).
    */
   type: string;
+  /**
+   * Stencil details copied onto the component when it is placed on the canvas.
+   */
+  name?: string;
+  stencilType?: 'infrastructure' | 'process';
+  iconName?: string;
+  textColor?: string;
+  boundaryColor?: string;
+  isBoundary?: boolean;
+  /**
+   * The stencil the component was placed from, which declares its property schema.
+   */
+  stencilId?: string;
   /**
    * The properties of the component.
    */
@@ -89,15 +116,39 @@ export interface Connection {
 
 export type ModelType = 'infrastructure' | 'process';
 
+/**
+ * What produced a report: the AI flow, the offline rule-based engine, or an import from another tool.
+ */
+export type ReportSource = 'ai' | 'rules' | 'import';
+
 /**
  * Represents a single generated report entry.
  */
 export interface ReportEntry {
   reportName: string;
   reportData: string; // HTML content of the report
+  threats: Threat[]; // Structured threat register the report was rendered from
   createdDate: Date | Timestamp; // Date on client, Timestamp in Firestore
+  generatedBy?: ReportSource; // Missing on reports saved before rule-based reports existed (AI)
+}
+
+/**
+ * Descriptive details of a model, printed in the Application Information section of its reports.
+ * The field names match the report inputs.
+ */
+export interface ModelMetadata {
+  applicationDescription?: string;
+  documentOwner?: string;
+  participants?: string; // Free text, e.g. a comma-separated list of names
+  reviewer?: string;
+  applicationVersion?: string;
 }
 
+/**
+ * Threat decisions keyed by threat ID.
+ */
+export type ThreatDecisionMap = Record<string, ThreatDecision>;
+
 
 /**
  * Represents the data structure stored within a threat model document.
@@ -107,6 +158,7 @@ interface ThreatModelData {
   connections: Connection[];
   viewport?: Viewport;
   reports?: ReportEntry[]; // Array of saved reports
+  threatDecisions?: Record<string, Record<string, any>>; // Threat decisions with Firestore Timestamps
 }
 
 /**
@@ -120,6 +172,14 @@ interface ThreatModelDocument {
   data: ThreatModelData;
   createdDate: Timestamp | FieldValue;
   modifiedDate: Timestamp | FieldValue;
+  // Sharing, keyed by lowercased email. `collaboratorEmails` mirrors the keys so shared models can be queried.
+  collaborators?: Record<string, { role: CollaboratorRole; addedBy?: string; addedDate?: Timestamp }>;
+  collaboratorEmails?: string[];
+  workspaceId?: string | null; // Workspace the model belongs to; its members get access by workspace role
+  revision?: number; // Incremented by every save of the content; models saved before revisions existed count as 0
+  metadata?: ModelMetadata; // Kept outside `data`, so changing it does not create a version
+  review?: Record<string, any>; // Review workflow state, see reviewService
+  reviewerIds?: string[]; // Mirrors the user IDs of the reviewers, which grants them access
 }
 
 /**
@@ -133,8 +193,174 @@ export interface Diagram {
   connections?: Connection[];
   viewport?: Viewport;
   reports?: ReportEntry[]; // For runtime management
+  threatDecisions?: ThreatDecisionMap;
+  metadata?: ModelMetadata;
+}
+
+/**
+ * Converts threat decisions to their Firestore shape. Dates become Timestamps and
+ * unset optional fields are omitted, as Firestore rejects undefined values.
+ */
+const serializeThreatDecisions = (decisions: ThreatDecisionMap): Record<string, Record<string, any>> => {
+  const serialized: Record<string, Record<string, any>> = {};
+  for (const [threatId, decision] of Object.entries(decisions)) {
+    const entry: Record<string, any> = {
+      threatId: decision.threatId,
+      status: decision.status,
+      comments: (decision.comments || []).map(comment => ({
+        ...comment,
+        createdDate: Timestamp.fromDate(comment.createdDate),
+      })),
+      updatedDate: Timestamp.fromDate(decision.updatedDate),
+    };
+    if (decision.justification) entry.justification = decision.justification;
+    if (decision.expiresAt) entry.expiresAt = Timestamp.fromDate(decision.expiresAt);
+    if (decision.owner) entry.owner = decision.owner;
+    if (decision.updatedBy) entry.updatedBy = decision.updatedBy;
+    serialized[threatId] = entry;
+  }
+  return serialized;
+};
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') return new Date(value);
+  return undefined;
+};
+
+/**
+ * Converts threat decisions read from Firestore back to their client shape.
+ */
+const deserializeThreatDecisions = (raw: Record<string, Record<string, any>> | undefined): ThreatDecisionMap => {
+  const decisions: ThreatDecisionMap = {};
+  for (const [threatId, entry] of Object.entries(raw || {})) {
+    decisions[threatId] = {
+      threatId: entry.threatId || threatId,
+      status: entry.status || 'Open',
+      justification: entry.justification,
+      expiresAt: toDate(entry.expiresAt),
+      owner: entry.owner,
+      comments: (entry.comments || []).map((comment: Record<string, any>) => ({
+        ...comment,
+        createdDate: toDate(comment.createdDate) || new Date(0),
+      })),
+      updatedBy: entry.updatedBy,
+      updatedDate: toDate(entry.updatedDate) || new Date(0),
+    };
+  }
+  return decisions;
+};
+
+
+const VERSIONS_COLLECTION = 'versions';
+// Listing reads only the summaries, so it does not download the content of every version
+const VERSION_SUMMARIES_COLLECTION = 'versionSummaries';
+
+/**
+ * Firestore shape of an immutable snapshot written by saves that record a version. The document ID is the revision.
+ */
+interface ModelVersionDocument {
+  revision: number;
+  name: string;
+  modelType: ModelType;
+  data: ThreatModelData;
+  authorId: string;
+  createdDate: Timestamp | FieldValue;
 }
 
+/**
+ * Firestore shape of the summary of a version, stored under the same ID as its snapshot.
+ */
+interface ModelVersionSummaryDocument {
+  revision: number;
+  authorId: string;
+  authorName?: string;
+  message?: string;
+  componentCount: number;
+  connectionCount: number;
+  reportCount: number;
+  createdDate: Timestamp | FieldValue;
+}
+
+/**
+ * Information about a saved version, used for listing the history of a model.
+ */
+export interface ModelVersionInfo {
+  id: string;
+  revision: number;
+  authorId: string;
+  authorName?: string;
+  message?: string;
+  componentCount: number;
+  connectionCount: number;
+  reportCount: number;
+  createdDate?: Date;
+}
+
+/**
+ * Creates the snapshot of a version and its summary, which are written together with the save.
+ */
+const createVersionDocuments = (
+  revision: number,
+  name: string,
+  modelType: ModelType,
+  data: ThreatModelData,
+  authorId: string,
+  options?: SaveOptions
+): { snapshot: ModelVersionDocument; summary: ModelVersionSummaryDocument } => ({
+  snapshot: { revision, name, modelType, data, authorId, createdDate: serverTimestamp() },
+  summary: {
+    revision,
+    authorId,
+    ...(options?.authorName && { authorName: options.authorName }),
+    ...(options?.versionMessage?.trim() && { message: options.versionMessage.trim() }),
+    componentCount: data.components.length,
+    connectionCount: data.connections.length,
+    reportCount: data.reports?.length || 0,
+    createdDate: serverTimestamp(),
+  },
+});
+
+export interface SaveOptions {
+  expectedRevision?: number; // Revision the changes were made on; omit to skip the check
+  force?: boolean; // Overwrite even if the model was saved by someone else in the meantime
+  recordVersion?: boolean; // Add the save to the version history; set for deliberate saves, not for autosaves
+  versionMessage?: string; // Optional note stored with the version
+  authorName?: string; // Display name of the user saving, stored with the version
+  metadata?: ModelMetadata; // Stored when creating a model; use updateThreatModelMetadata for existing models
+  clearLiveElementIds?: string[]; // Live elements the saved content includes, cleared in the same transaction (see useLiveCollaboration)
+}
+
+export interface SavedThreatModel {
+  id: string;
+  revision: number;
+  reopened?: boolean; // The model was approved, and saving changes reopened it
+}
+
+/**
+ * Thrown when saving a model that was saved by someone else since it was loaded.
+ * Carries the latest saved version, so the user can compare it with their changes.
+ */
+export class SaveConflictError extends Error {
+  readonly latest: LoadedThreatModel;
+
+  constructor(latest: LoadedThreatModel) {
+    super(`'${latest.name}' was saved by someone else (revision ${latest.revision}) after you opened it.`);
+    this.name = 'SaveConflictError';
+    this.latest = latest;
+  }
+}
+
+/**
+ * Thrown when saving a model that was deleted since it was loaded.
+ */
+export class ModelNotFoundError extends Error {
+  constructor(modelId: string) {
+    super(`Threat model ${modelId} no longer exists.`);
+    this.name = 'ModelNotFoundError';
+  }
+}
 
 /**
  * Asynchronously saves or updates a threat model in Firestore.
@@ -147,7 +373,12 @@ export interface Diagram {
  * @param connections The connections array.
  * @param viewport Optional viewport state.
  * @param reportsToSave Optional array of reports to save.
- * @returns A promise that resolves to the model's ID (new or existing).
+ * @param threatDecisions Optional threat decisions keyed by threat ID.
+ * @param workspaceId Optional workspace to create a new model in. Ignored for existing models.
+ * @param options Optional revision the changes were made on and details for the version history. Saving an
+ *   existing model fails with a SaveConflictError if someone else saved it since, unless `force` is set.
+ *   Only saves with `recordVersion` set are added to the version history.
+ * @returns A promise that resolves to the model's ID (new or existing) and its new revision.
  */
 export async function saveThreatModel(
   userId: string,
@@ -157,8 +388,11 @@ export async function saveThreatModel(
   components: Component[],
   connections: Connection[],
   viewport?: Viewport,
-  reportsToSave?: ReportEntry[]
-): Promise<string> {
+  reportsToSave?: ReportEntry[],
+  threatDecisions?: ThreatDecisionMap,
+  workspaceId?: string | null,
+  options?: SaveOptions
+): Promise<SavedThreatModel> {
   const { initialized, error } = ensureFirebaseInitialized();
   if (!initialized || !db) {
     throw new Error(error || "Firestore not initialized for saveThreatModel");
@@ -174,30 +408,77 @@ export async function saveThreatModel(
     connections: connections ?? [], 
     viewport,
     reports: processedReports,
+    threatDecisions: serializeThreatDecisions(threatDecisions || {}),
   };
 
   if (modelId) {
     const modelDocRef = doc(db, 'threatModels', modelId);
-    await updateDoc(modelDocRef, {
-      name: modelName,
-      modelType: modelType,
-      data: modelData,
-      modifiedDate: serverTimestamp(),
+    // The revision check and the write happen in one transaction, so two saves of the same revision cannot both succeed
+    const saved = await runTransaction(db, async transaction => {
+      const docSnap = await transaction.get(modelDocRef);
+      if (!docSnap.exists()) {
+        throw new ModelNotFoundError(modelId);
+      }
+      const currentRevision: number = docSnap.data().revision ?? 0;
+      const expectedRevision = options?.expectedRevision;
+      if (expectedRevision !== undefined && expectedRevision !== currentRevision && !options?.force) {
+        const latest = toLoadedThreatModel(docSnap.id, docSnap.data());
+        if (latest) throw new SaveConflictError(latest);
+        // The saved content cannot be read, so it cannot be offered for comparison, but it must not be overwritten either
+        throw new Error(`Threat model ${modelId} was saved by someone else (revision ${currentRevision}) after you opened it. Reload it before saving.`);
+      }
+      // Saving changes to an approved model reopens it; the approval and its snapshot are kept
+      const reopen = canTransition(deserializeReview(docSnap.data().review).state, 'reopened');
+      transaction.update(modelDocRef, {
+        name: modelName,
+        modelType: modelType,
+        data: modelData,
+        revision: currentRevision + 1,
+        modifiedDate: serverTimestamp(),
+        ...(reopen && {
+          'review.state': REVIEW_TRANSITIONS.reopened.to,
+          'review.comments': arrayUnion(createReviewCommentDocument(
+            { authorId: userId, authorName: options?.authorName || 'Unknown', text: '', revision: currentRevision + 1 },
+            'reopened'
+          )),
+          'review.updatedDate': Timestamp.now(),
+        }),
+      });
+      // The saved content now holds the live state; clearing it keeps deleted elements from piling up
+      (options?.clearLiveElementIds || []).forEach(elementId => transaction.delete(getLiveElementRef(db!, modelId, elementId)));
+      if (options?.recordVersion) {
+        const version = createVersionDocuments(currentRevision + 1, modelName, modelType, modelData, userId, options);
+        const versionId = String(currentRevision + 1);
+        transaction.set(doc(db!, 'threatModels', modelId, VERSIONS_COLLECTION, versionId), version.snapshot);
+        transaction.set(doc(db!, 'threatModels', modelId, VERSION_SUMMARIES_COLLECTION, versionId), version.summary);
+      }
+      return { revision: currentRevision + 1, reopened: reopen };
     });
-    console.log(`Threat model updated: ${modelId}`);
-    return modelId;
+    console.log(`Threat model updated: ${modelId} (revision ${saved.revision})`);
+    return { id: modelId, ...saved };
   } else {
-    const collectionRef = collection(db, 'threatModels');
-    const docRef = await addDoc(collectionRef, {
+    const docRef = doc(collection(db, 'threatModels'));
+    // The model and its first version, if recorded, are written together
+    const batch = writeBatch(db);
+    batch.set(docRef, {
       userId: userId,
       name: modelName,
       modelType: modelType,
       data: modelData,
+      ...(workspaceId && { workspaceId }),
+      metadata: normalizeModelMetadata(options?.metadata),
+      revision: 1,
       createdDate: serverTimestamp(),
       modifiedDate: serverTimestamp(),
     } as Omit<ThreatModelDocument, 'id'>);
+    if (options?.recordVersion) {
+      const version = createVersionDocuments(1, modelName, modelType, modelData, userId, options);
+      batch.set(doc(db, 'threatModels', docRef.id, VERSIONS_COLLECTION, '1'), version.snapshot);
+      batch.set(doc(db, 'threatModels', docRef.id, VERSION_SUMMARIES_COLLECTION, '1'), version.summary);
+    }
+    await batch.commit();
     console.log(`New threat model created: ${docRef.id}`);
-    return docRef.id;
+    return { id: docRef.id, revision: 1 };
   }
 }
 
@@ -208,34 +489,182 @@ export interface SavedModelInfo {
   id: string;
   name: string;
   modifiedDate?: Date;
+  role: CollaboratorRole; // The current user's role on the model
+  workspaceId?: string;
+  metadata: ModelMetadata;
+  reviewState: ReviewState;
+  isReviewer: boolean; // The current user is assigned to review the model
 }
 
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const deserializeCollaborators = (raw: ThreatModelDocument['collaborators']): Collaborator[] =>
+  Object.entries(raw || {})
+    .map(([email, entry]) => ({
+      email,
+      role: entry.role,
+      addedBy: entry.addedBy,
+      addedDate: toDate(entry.addedDate),
+    }))
+    .sort((a, b) => a.email.localeCompare(b.email));
+
+const MODEL_ROLE_RANK: Record<CollaboratorRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+/**
+ * Determines a user's role on a model: the creator is always an owner, anyone else needs to be a
+ * collaborator or a member of the model's workspace. The highest role applies.
+ * Returns null when the user has no access.
+ */
+export const getModelRole = (
+  model: { ownerId?: string; collaborators?: Collaborator[] },
+  userId: string,
+  email?: string | null,
+  workspaceRole?: WorkspaceRole | null
+): CollaboratorRole | null => {
+  if (!model.ownerId || model.ownerId === userId) return 'owner';
+  const collaborator = email ? model.collaborators?.find(c => c.email === normalizeEmail(email)) : undefined;
+  const roles = [collaborator?.role, workspaceRole ? MODEL_ROLE_BY_WORKSPACE_ROLE[workspaceRole] : undefined]
+    .filter((role): role is CollaboratorRole => !!role);
+  return roles.sort((a, b) => MODEL_ROLE_RANK[b] - MODEL_ROLE_RANK[a])[0] || null;
+};
+
+const toSavedModelInfo = (
+  docSnap: { id: string; data: () => Record<string, any> },
+  userId: string,
+  email?: string | null,
+  workspaceRole?: WorkspaceRole | null
+): SavedModelInfo => {
+  const data = docSnap.data();
+  let modifiedDate: Date | undefined = undefined;
+  if (data.modifiedDate && data.modifiedDate instanceof Timestamp) {
+    modifiedDate = data.modifiedDate.toDate();
+  }
+  return {
+    id: docSnap.id,
+    name: data.name || 'Untitled Model',
+    modifiedDate: modifiedDate,
+    role: getModelRole({ ownerId: data.userId, collaborators: deserializeCollaborators(data.collaborators) }, userId, email, workspaceRole) || 'viewer',
+    ...(data.workspaceId && { workspaceId: data.workspaceId }),
+    metadata: normalizeModelMetadata(data.metadata),
+    reviewState: deserializeReview(data.review).state,
+    isReviewer: (data.reviewerIds || []).includes(userId),
+  };
+};
+
+const sortByModifiedDate = (models: SavedModelInfo[]): SavedModelInfo[] =>
+  models.sort((a, b) => (b.modifiedDate?.getTime() || 0) - (a.modifiedDate?.getTime() || 0));
+
 /**
- * Asynchronously retrieves a list of saved threat models for a given user.
+ * Asynchronously retrieves the threat models a user created, that were shared with them or that they review.
  *
  * @param userId The ID of the user whose models to retrieve.
+ * @param email The user's email, used to find models shared with them.
+ * @param emailVerified Whether the email is verified. Shared models are skipped until it is, as the Firestore rules
+ * only grant access by email to verified addresses.
  * @returns A promise that resolves to an array of SavedModelInfo objects.
  */
-export async function getUserThreatModels(userId: string): Promise<SavedModelInfo[]> {
+export async function getUserThreatModels(userId: string, email: string | null | undefined, emailVerified: boolean): Promise<SavedModelInfo[]> {
    const { initialized, error } = ensureFirebaseInitialized();
    if (!initialized || !db) {
      throw new Error(error || "Firestore not initialized for getUserThreatModels");
    }
+   const sharedEmail = emailVerified ? email : null;
    const modelsCollectionRef = collection(db, 'threatModels');
-   const q = query(modelsCollectionRef, where('userId', '==', userId));
-   const querySnapshot = await getDocs(q);
-   return querySnapshot.docs.map(docSnap => {
-       const data = docSnap.data();
-       let modifiedDate: Date | undefined = undefined;
-       if (data.modifiedDate && data.modifiedDate instanceof Timestamp) {
-           modifiedDate = data.modifiedDate.toDate();
-       }
-       return {
-           id: docSnap.id,
-           name: data.name || 'Untitled Model',
-           modifiedDate: modifiedDate
-       } as SavedModelInfo;
-   }).sort((a, b) => (b.modifiedDate?.getTime() || 0) - (a.modifiedDate?.getTime() || 0));
+   const [ownSnapshot, sharedSnapshot, reviewSnapshot] = await Promise.all([
+     getDocs(query(modelsCollectionRef, where('userId', '==', userId))),
+     sharedEmail ? getDocs(query(modelsCollectionRef, where('collaboratorEmails', 'array-contains', normalizeEmail(sharedEmail)))) : null,
+     getDocs(query(modelsCollectionRef, where('reviewerIds', 'array-contains', userId))),
+   ]);
+   const models = new Map<string, SavedModelInfo>();
+   for (const docSnap of [...ownSnapshot.docs, ...(sharedSnapshot?.docs || []), ...reviewSnapshot.docs]) {
+       if (!models.has(docSnap.id)) models.set(docSnap.id, toSavedModelInfo(docSnap, userId, sharedEmail));
+   }
+   return sortByModifiedDate(Array.from(models.values()));
+}
+
+/**
+ * Asynchronously retrieves all models of a workspace.
+ *
+ * @param workspaceId The ID of the workspace.
+ * @param userId The ID of the current user.
+ * @param email The current user's email, used to determine their role on each model.
+ * @param workspaceRole The current user's role in the workspace.
+ * @returns A promise that resolves to an array of SavedModelInfo objects.
+ */
+export async function getWorkspaceThreatModels(
+  workspaceId: string,
+  userId: string,
+  email: string | null | undefined,
+  workspaceRole: WorkspaceRole
+): Promise<SavedModelInfo[]> {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || "Firestore not initialized for getWorkspaceThreatModels");
+  }
+  const querySnapshot = await getDocs(query(collection(db, 'threatModels'), where('workspaceId', '==', workspaceId)));
+  return sortByModifiedDate(querySnapshot.docs.map(docSnap => toSavedModelInfo(docSnap, userId, email, workspaceRole)));
+}
+
+/**
+ * Moves a model into a workspace, or back to its owner's personal models when `workspaceId` is null.
+ * Requires owner access to the model and admin or member access to the target workspace.
+ */
+export async function moveThreatModelToWorkspace(modelId: string, workspaceId: string | null): Promise<void> {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || "Firestore not initialized for moveThreatModelToWorkspace");
+  }
+  await updateDoc(doc(db, 'threatModels', modelId), { workspaceId: workspaceId ?? deleteField() });
+}
+
+/**
+ * Replaces a model's metadata. Editors may do this too; it does not change the model's revision.
+ */
+export async function updateThreatModelMetadata(modelId: string, metadata: ModelMetadata): Promise<void> {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || "Firestore not initialized for updateThreatModelMetadata");
+  }
+  await updateDoc(doc(db, 'threatModels', modelId), { metadata: normalizeModelMetadata(metadata) });
+}
+
+/**
+ * Shares a model with a collaborator, or changes their role if the model is already shared with them.
+ * Only owners may do this; the Firestore rules enforce it.
+ *
+ * @param modelId The ID of the model to share.
+ * @param email The collaborator's email address.
+ * @param role The role to grant.
+ * @param addedBy Display name or email of the user sharing the model.
+ */
+export async function shareThreatModel(modelId: string, email: string, role: CollaboratorRole, addedBy?: string): Promise<void> {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || "Firestore not initialized for shareThreatModel");
+  }
+  const normalizedEmail = normalizeEmail(email);
+  // Emails contain dots, so the map key must be addressed with a FieldPath rather than a dotted string
+  await updateDoc(
+    doc(db, 'threatModels', modelId),
+    new FieldPath('collaborators', normalizedEmail), { role, ...(addedBy && { addedBy }), addedDate: Timestamp.now() },
+    'collaboratorEmails', arrayUnion(normalizedEmail)
+  );
+}
+
+/**
+ * Removes a collaborator's access to a model.
+ */
+export async function unshareThreatModel(modelId: string, email: string): Promise<void> {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || "Firestore not initialized for unshareThreatModel");
+  }
+  const normalizedEmail = normalizeEmail(email);
+  await updateDoc(
+    doc(db, 'threatModels', modelId),
+    new FieldPath('collaborators', normalizedEmail), deleteField(),
+    'collaboratorEmails', arrayRemove(normalizedEmail)
+  );
 }
 
 /**
@@ -249,6 +678,13 @@ export interface LoadedThreatModel {
     connections: Connection[];
     viewport?: Viewport;
     reports?: ReportEntry[]; // Array of saved reports
+    threatDecisions: ThreatDecisionMap;
+    ownerId?: string; // User ID of the model's creator
+    collaborators?: Collaborator[];
+    workspaceId?: string;
+    revision?: number; // Revision that was loaded; pass it back when saving to detect conflicting saves
+    modifiedDate?: Date;
+    metadata: ModelMetadata;
 }
 
 /**
@@ -272,32 +708,83 @@ export async function getThreatModelById(modelId: string): Promise<LoadedThreatM
         return null;
     }
 
-    const data = docSnap.data();
+    return toLoadedThreatModel(docSnap.id, docSnap.data());
+}
+
+const toLoadedThreatModel = (id: string, data: Record<string, any>): LoadedThreatModel | null => {
     if (!data || !data.data) {
-         // console.error(`getThreatModelById: Threat model data field missing for ID ${modelId}. Document data:`, data);
+         // console.error(`getThreatModelById: Threat model data field missing for ID ${id}. Document data:`, data);
          return null;
     }
     const modelData = data.data as ThreatModelData;
-    // console.log(`getThreatModelById: Successfully fetched document data for ${modelId}:`, data);
-    // console.log(`getThreatModelById: Extracted modelData (components, connections, viewport) for ${modelId}:`, modelData);
+    // console.log(`getThreatModelById: Successfully fetched document data for ${id}:`, data);
+    // console.log(`getThreatModelById: Extracted modelData (components, connections, viewport) for ${id}:`, modelData);
 
     const reports = (modelData.reports || []).map(report => ({
       ...report,
+      threats: report.threats || [], // Reports saved before the threat register existed have no threats
       createdDate: report.createdDate instanceof Timestamp ? report.createdDate.toDate() : report.createdDate,
     }));
 
 
     return {
-        id: docSnap.id,
+        id,
         name: data.name || 'Untitled Model',
         modelType: data.modelType || 'infrastructure',
         components: modelData.components || [], // Ensure components is an array
         connections: modelData.connections || [], // Ensure connections is an array
         viewport: modelData.viewport,
         reports: reports,
+        threatDecisions: deserializeThreatDecisions(modelData.threatDecisions),
+        ownerId: data.userId,
+        collaborators: deserializeCollaborators(data.collaborators),
+        ...(data.workspaceId && { workspaceId: data.workspaceId }),
+        revision: data.revision ?? 0,
+        modifiedDate: toDate(data.modifiedDate),
+        metadata: normalizeModelMetadata(data.metadata),
     };
+};
+
+
+/**
+ * Retrieves the version history of a model, newest first.
+ */
+export async function getModelVersions(modelId: string): Promise<ModelVersionInfo[]> {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || "Firestore not initialized for getModelVersions");
+  }
+  const querySnapshot = await getDocs(query(collection(db, 'threatModels', modelId, VERSION_SUMMARIES_COLLECTION), orderBy('revision', 'desc')));
+  return querySnapshot.docs.map(docSnap => {
+    const data = docSnap.data() as ModelVersionSummaryDocument;
+    return {
+      id: docSnap.id,
+      revision: data.revision,
+      authorId: data.authorId,
+      ...(data.authorName && { authorName: data.authorName }),
+      ...(data.message && { message: data.message }),
+      componentCount: data.componentCount,
+      connectionCount: data.connectionCount,
+      reportCount: data.reportCount,
+      createdDate: toDate(data.createdDate),
+    };
+  });
 }
 
+/**
+ * Retrieves the full content of a saved version, in the same shape as a loaded model.
+ * The returned revision is the version's revision.
+ */
+export async function getModelVersion(modelId: string, versionId: string): Promise<LoadedThreatModel | null> {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || "Firestore not initialized for getModelVersion");
+  }
+  const docSnap = await getDoc(doc(db, 'threatModels', modelId, VERSIONS_COLLECTION, versionId));
+  if (!docSnap.exists()) return null;
+  const data = docSnap.data() as ModelVersionDocument;
+  return toLoadedThreatModel(modelId, { ...data, modifiedDate: data.createdDate });
+}
 
 export const getDefaultDiagram = (id: string | null, name: string, type: ModelType): Diagram => ({
   id,
@@ -307,4 +794,5 @@ export const getDefaultDiagram = (id: string | null, name: string, type: ModelTy
   connections: [],
   viewport: undefined,
   reports: [],
+  threatDecisions: {},
 });
@@ -0,0 +1,104 @@
+import type { Viewport } from '@xyflow/react';
+import type {
+  Component,
+  Connection,
+  ModelType,
+  ReportEntry,
+  ThreatDecisionMap,
+} from '@/services/diagram';
+
+const DATABASE_NAME = 'threat-model-drafts';
+const DATABASE_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+
+/**
+ * Unsaved changes to a model, kept in the browser's IndexedDB so they survive closing the tab,
+ * a crash or an offline period. Drafts are per user and model; models that were never saved
+ * share the `null` model ID.
+ */
+export interface ModelDraft {
+  userId: string;
+  modelId: string | null;
+  name: string;
+  modelType: ModelType;
+  components: Component[];
+  connections: Connection[];
+  viewport?: Viewport;
+  reports: ReportEntry[];
+  threatDecisions: ThreatDecisionMap;
+  workspaceId?: string;
+  baseRevision?: number; // Revision the changes were made on, to detect conflicts when syncing
+  pendingSync: boolean; // Set when saving failed, e.g. while offline; synced once Firestore is reachable
+  updatedAt: Date;
+}
+
+interface DraftRecord extends ModelDraft {
+  key: string;
+}
+
+const draftKey = (userId: string, modelId: string | null): string => `${userId}:${modelId ?? 'new'}`;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("Offline drafts are not supported in this browser."));
+  }
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(DRAFTS_STORE)) {
+          request.result.createObjectStore(DRAFTS_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Could not open the drafts database."));
+    }).catch(err => {
+      databasePromise = null; // Allow retrying, e.g. after the user unblocked storage
+      throw err;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(database.transaction(DRAFTS_STORE, mode).objectStore(DRAFTS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Drafts database request failed."));
+  });
+};
+
+const toModelDraft = ({ key: _key, ...draft }: DraftRecord): ModelDraft => draft;
+
+/**
+ * Stores the draft of a model, replacing any earlier draft of it.
+ */
+export async function saveDraft(draft: ModelDraft): Promise<void> {
+  const record: DraftRecord = { ...draft, key: draftKey(draft.userId, draft.modelId) };
+  await runRequest('readwrite', store => store.put(record));
+}
+
+/**
+ * Retrieves the draft of a model, or null if there are no unsaved changes on this device.
+ */
+export async function getDraft(userId: string, modelId: string | null): Promise<ModelDraft | null> {
+  const record = await runRequest<DraftRecord | undefined>('readonly', store => store.get(draftKey(userId, modelId)));
+  return record ? toModelDraft(record) : null;
+}
+
+export async function deleteDraft(userId: string, modelId: string | null): Promise<void> {
+  await runRequest('readwrite', store => store.delete(draftKey(userId, modelId)));
+}
+
+/**
+ * Retrieves the user's drafts whose saves failed and still need to be synced.
+ */
+export async function getPendingDrafts(userId: string): Promise<ModelDraft[]> {
+  const records = await runRequest<DraftRecord[]>('readonly', store => store.getAll());
+  return records
+    .filter(record => record.userId === userId && record.pendingSync)
+    .map(toModelDraft);
+}
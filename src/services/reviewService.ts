@@ -0,0 +1,226 @@
+import { db, ensureFirebaseInitialized } from '@/lib/firebase/firebase';
+import { DEFAULT_REVIEW, REVIEW_TRANSITIONS, canTransition, computeApprovalDigest, getLatestReport, type ReviewStep } from '@/lib/review';
+import type { Component, Connection, ReportEntry } from '@/services/diagram';
+import { REVIEW_STATE_LABELS, type ApprovalSnapshot, type ModelReview, type Reviewer, type ReviewComment, type ReviewState } from '@/types/review';
+import {
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  runTransaction,
+  updateDoc,
+  arrayUnion,
+  Timestamp,
+  type Unsubscribe,
+} from 'firebase/firestore';
+
+// Approval snapshots are kept in a subcollection of the model, so the security rules of the model apply to them
+const APPROVALS_COLLECTION = 'approvals';
+
+/**
+ * Firestore shape of a model's review, stored in its `review` field. `reviewerIds` on the model mirrors
+ * the reviewers' user IDs, so the security rules can grant them access.
+ */
+interface ReviewDocument {
+  state?: ReviewState;
+  reviewers?: Reviewer[];
+  comments?: (Omit<ReviewComment, 'createdDate'> & { createdDate: Timestamp })[];
+  approval?: Omit<NonNullable<ModelReview['approval']>, 'approvedDate'> & { approvedDate: Timestamp };
+  updatedDate?: Timestamp;
+}
+
+interface ApprovalSnapshotDocument extends Omit<ApprovalSnapshot, 'id' | 'approvedDate' | 'report'> {
+  report: (Omit<ReportEntry, 'createdDate'> & { createdDate: Timestamp }) | null;
+  approvedDate: Timestamp;
+}
+
+export type NewReviewComment = Pick<ReviewComment, 'authorId' | 'authorName' | 'text' | 'revision'>;
+
+const requireDb = (operation: string) => {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || `Firestore not initialized for ${operation}`);
+  }
+  return db;
+};
+
+const toDate = (value: unknown): Date | undefined => (value instanceof Timestamp ? value.toDate() : undefined);
+
+/**
+ * Converts a review read from Firestore to its client shape. Models without a review are drafts.
+ */
+export const deserializeReview = (raw: ReviewDocument | undefined): ModelReview => {
+  if (!raw) return DEFAULT_REVIEW;
+  return {
+    state: raw.state || 'draft',
+    reviewers: raw.reviewers || [],
+    comments: (raw.comments || [])
+      .map(comment => ({ ...comment, createdDate: toDate(comment.createdDate) || new Date(0) }))
+      .sort((a, b) => a.createdDate.getTime() - b.createdDate.getTime()),
+    ...(raw.approval && { approval: { ...raw.approval, approvedDate: toDate(raw.approval.approvedDate) || new Date(0) } }),
+    updatedDate: toDate(raw.updatedDate),
+  };
+};
+
+/**
+ * Creates a review comment in its Firestore shape. Firestore rejects undefined values, so an unset revision is omitted.
+ */
+export const createReviewCommentDocument = (comment: NewReviewComment, action: ReviewComment['action']) => ({
+  id: crypto.randomUUID(),
+  authorId: comment.authorId,
+  authorName: comment.authorName,
+  action,
+  text: comment.text.trim(),
+  ...(comment.revision !== undefined && { revision: comment.revision }),
+  createdDate: Timestamp.now(),
+});
+
+/**
+ * Listens to the review of a model.
+ *
+ * @returns A function that stops listening.
+ */
+export function subscribeToReview(modelId: string, onChange: (review: ModelReview) => void): Unsubscribe {
+  const firestore = requireDb('subscribeToReview');
+  return onSnapshot(
+    doc(firestore, 'threatModels', modelId),
+    snapshot => onChange(deserializeReview(snapshot.data()?.review)),
+    error => console.error("Error listening to the review:", error)
+  );
+}
+
+/**
+ * Replaces the reviewers of a model. Only owners may do this; the Firestore rules enforce it.
+ */
+export async function setReviewers(modelId: string, reviewers: Reviewer[]): Promise<void> {
+  const firestore = requireDb('setReviewers');
+  await updateDoc(doc(firestore, 'threatModels', modelId), {
+    'review.reviewers': reviewers.map(reviewer => ({
+      uid: reviewer.uid,
+      email: reviewer.email,
+      ...(reviewer.displayName && { displayName: reviewer.displayName }),
+    })),
+    'review.updatedDate': Timestamp.now(),
+    reviewerIds: reviewers.map(reviewer => reviewer.uid),
+  });
+}
+
+export async function addReviewComment(modelId: string, comment: NewReviewComment): Promise<void> {
+  const firestore = requireDb('addReviewComment');
+  await updateDoc(doc(firestore, 'threatModels', modelId), {
+    'review.comments': arrayUnion(createReviewCommentDocument(comment, 'comment')),
+  });
+}
+
+/**
+ * Moves a model to the next state of the review workflow, with an optional comment. Approving needs
+ * a snapshot and goes through approveThreatModel instead.
+ *
+ * @throws Error if the model is not in a state the step can be taken from, e.g. because someone else decided first.
+ */
+export async function updateReviewState(
+  modelId: string,
+  step: Exclude<ReviewStep, 'approved'>,
+  comment: NewReviewComment
+): Promise<void> {
+  const firestore = requireDb('updateReviewState');
+  const modelRef = doc(firestore, 'threatModels', modelId);
+  await runTransaction(firestore, async transaction => {
+    const docSnap = await transaction.get(modelRef);
+    if (!docSnap.exists()) throw new Error(`Threat model ${modelId} no longer exists.`);
+    const review = deserializeReview(docSnap.data().review);
+    if (!canTransition(review.state, step)) {
+      throw new Error(`The model is ${REVIEW_STATE_LABELS[review.state]} now. Reload it to see the latest review.`);
+    }
+    if (step === 'submitted' && review.reviewers.length === 0) {
+      throw new Error('Assign at least one reviewer before submitting the model for review.');
+    }
+    transaction.update(modelRef, {
+      'review.state': REVIEW_TRANSITIONS[step].to,
+      'review.comments': arrayUnion(createReviewCommentDocument(comment, step)),
+      'review.updatedDate': Timestamp.now(),
+    });
+  });
+}
+
+/**
+ * Approves a model and freezes a snapshot of its saved components, connections and latest report, with its content digest.
+ *
+ * @param expectedRevision The revision the reviewer looked at. Approval fails if the model was saved since.
+ * @returns A promise that resolves to the snapshot.
+ */
+export async function approveThreatModel(
+  modelId: string,
+  expectedRevision: number | undefined,
+  comment: NewReviewComment
+): Promise<ApprovalSnapshot> {
+  const firestore = requireDb('approveThreatModel');
+  const modelRef = doc(firestore, 'threatModels', modelId);
+  const snapshotRef = doc(collection(firestore, 'threatModels', modelId, APPROVALS_COLLECTION));
+  return runTransaction(firestore, async transaction => {
+    const docSnap = await transaction.get(modelRef);
+    if (!docSnap.exists()) throw new Error(`Threat model ${modelId} no longer exists.`);
+    const data = docSnap.data();
+    const review = deserializeReview(data.review);
+    if (!canTransition(review.state, 'approved')) {
+      throw new Error('The model is no longer in review.');
+    }
+    const revision: number = data.revision ?? 0;
+    if (expectedRevision !== undefined && expectedRevision !== revision) {
+      throw new Error(`The model was saved again (revision ${revision}) after you opened it. Reload it to review the latest changes.`);
+    }
+
+    // The snapshot is taken from the saved model, not from the reviewer's canvas
+    const storedReport = getLatestReport(data.data?.reports) as ApprovalSnapshotDocument['report'];
+    const approvedDate = new Date();
+    const content = {
+      modelId,
+      modelName: data.name || 'Untitled Model',
+      revision,
+      components: (data.data?.components || []) as Component[],
+      connections: (data.data?.connections || []) as Connection[],
+      report: storedReport ? { ...storedReport, createdDate: storedReport.createdDate.toDate() } : null,
+      approvedBy: comment.authorId,
+      approvedByName: comment.authorName,
+      approvedDate,
+    };
+    const contentDigest = await computeApprovalDigest(content);
+
+    transaction.set(snapshotRef, {
+      ...content,
+      report: storedReport,
+      approvedDate: Timestamp.fromDate(approvedDate),
+      contentDigest,
+    } as ApprovalSnapshotDocument);
+    transaction.update(modelRef, {
+      'review.state': REVIEW_TRANSITIONS.approved.to,
+      'review.approval': {
+        snapshotId: snapshotRef.id,
+        revision,
+        approvedBy: comment.authorId,
+        approvedByName: comment.authorName,
+        approvedDate: Timestamp.fromDate(approvedDate),
+        contentDigest,
+      },
+      'review.comments': arrayUnion(createReviewCommentDocument({ ...comment, revision }, 'approved')),
+      'review.updatedDate': Timestamp.now(),
+    });
+    return { id: snapshotRef.id, ...content, contentDigest };
+  });
+}
+
+/**
+ * Retrieves an approval snapshot, e.g. to verify or download it.
+ */
+export async function getApprovalSnapshot(modelId: string, snapshotId: string): Promise<ApprovalSnapshot | null> {
+  const firestore = requireDb('getApprovalSnapshot');
+  const docSnap = await getDoc(doc(firestore, 'threatModels', modelId, APPROVALS_COLLECTION, snapshotId));
+  if (!docSnap.exists()) return null;
+  const data = docSnap.data() as ApprovalSnapshotDocument;
+  return {
+    ...data,
+    id: docSnap.id,
+    report: data.report ? { ...data.report, createdDate: data.report.createdDate.toDate() } : null,
+    approvedDate: data.approvedDate.toDate(),
+  };
+}
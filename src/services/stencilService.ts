@@ -33,6 +33,7 @@ const processStencilForClient = (docSnap: FirebaseFirestore.DocumentSnapshot): S
       textColor: data.textColor,
       stencilType: data.stencilType,
       properties: properties,
+      ...(data.propertySchema && { propertySchema: data.propertySchema }),
       // Handle specific types for InfrastructureStencilData
       ...(data.stencilType === 'infrastructure' && {
         boundaryColor: (data as InfrastructureStencilData).boundaryColor,
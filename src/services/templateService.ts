@@ -0,0 +1,112 @@
+import { db, ensureFirebaseInitialized } from '@/lib/firebase/firebase';
+import type { Component, Connection, ModelType } from '@/services/diagram';
+import type { DiagramTemplate } from '@/types/template';
+import {
+  collection,
+  addDoc,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+
+const TEMPLATES_COLLECTION = 'templates';
+
+/**
+ * Firestore shape of a template.
+ */
+interface TemplateDocument {
+  name: string;
+  description?: string;
+  modelType: ModelType;
+  components: Component[];
+  connections: Connection[];
+  createdBy: string;
+  createdByName?: string;
+  workspaceId?: string;
+  createdDate?: Timestamp;
+}
+
+export interface NewTemplate {
+  name: string;
+  description?: string;
+  modelType: ModelType;
+  components: Component[];
+  connections: Connection[];
+  workspaceId?: string;
+}
+
+const requireDb = (operation: string) => {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || `Firestore not initialized for ${operation}`);
+  }
+  return db;
+};
+
+const toTemplate = (id: string, data: TemplateDocument): DiagramTemplate => ({
+  id,
+  name: data.name || 'Untitled Template',
+  ...(data.description && { description: data.description }),
+  modelType: data.modelType,
+  components: data.components || [],
+  connections: data.connections || [],
+  createdBy: data.createdBy,
+  ...(data.createdByName && { createdByName: data.createdByName }),
+  ...(data.workspaceId && { workspaceId: data.workspaceId }),
+  createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate() : undefined,
+});
+
+/**
+ * Saves a selection as a template. Templates with a workspace are shared with its members.
+ *
+ * @returns A promise that resolves to the new template.
+ */
+export async function createTemplate(template: NewTemplate, userId: string, authorName?: string): Promise<DiagramTemplate> {
+  const firestore = requireDb('createTemplate');
+  const data: TemplateDocument = {
+    name: template.name.trim(),
+    ...(template.description?.trim() && { description: template.description.trim() }),
+    modelType: template.modelType,
+    // Firestore rejects undefined values, which diagram elements may contain
+    components: JSON.parse(JSON.stringify(template.components)),
+    connections: JSON.parse(JSON.stringify(template.connections)),
+    createdBy: userId,
+    ...(authorName && { createdByName: authorName }),
+    ...(template.workspaceId && { workspaceId: template.workspaceId }),
+  };
+  const docRef = await addDoc(collection(firestore, TEMPLATES_COLLECTION), { ...data, createdDate: serverTimestamp() });
+  return toTemplate(docRef.id, { ...data, createdDate: Timestamp.now() });
+}
+
+/**
+ * Retrieves the templates for a model type that a user can use: their own and those shared with
+ * any of the given workspaces. Sorted by name.
+ */
+export async function getTemplates(userId: string, modelType: ModelType, workspaceIds: string[] = []): Promise<DiagramTemplate[]> {
+  const firestore = requireDb('getTemplates');
+  const templatesRef = collection(firestore, TEMPLATES_COLLECTION);
+  // Client-side queries must filter by createdBy or workspaceId to satisfy the security rules
+  const snapshots = await Promise.all([
+    getDocs(query(templatesRef, where('createdBy', '==', userId), where('modelType', '==', modelType))),
+    ...workspaceIds.map(workspaceId =>
+      getDocs(query(templatesRef, where('workspaceId', '==', workspaceId), where('modelType', '==', modelType)))
+    ),
+  ]);
+  const templatesById = new Map<string, DiagramTemplate>();
+  snapshots.forEach(snapshot => snapshot.docs.forEach(docSnap => {
+    templatesById.set(docSnap.id, toTemplate(docSnap.id, docSnap.data() as TemplateDocument));
+  }));
+  return Array.from(templatesById.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Deletes a template. Only its creator and admins of its workspace may do this; the Firestore rules enforce it.
+ */
+export async function deleteTemplate(templateId: string): Promise<void> {
+  const firestore = requireDb('deleteTemplate');
+  await deleteDoc(doc(firestore, TEMPLATES_COLLECTION, templateId));
+}
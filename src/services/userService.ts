@@ -1,6 +1,6 @@
 
-import { db } from '@/lib/firebase/firebase';
-import type { UserProfile, UserRole } from '@/types/user';
+import { db, ensureFirebaseInitialized } from '@/lib/firebase/firebase';
+import type { PublicProfile, UserProfile, UserRole } from '@/types/user';
 import { collection, doc, getDoc, setDoc, updateDoc, getDocs, serverTimestamp, query, Timestamp } from 'firebase/firestore';
 
 export async function getUserProfile(uid: string): Promise<UserProfile | null> {
@@ -86,6 +86,46 @@ export async function getAllUsers(): Promise<UserProfile[]> {
   });
 }
 
+const PUBLIC_PROFILES_COLLECTION = 'publicProfiles';
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const requireDb = (operation: string) => {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || `Firestore not initialized for ${operation}`);
+  }
+  return db;
+};
+
+/**
+ * Publishes the user's ID and display name under their verified email, so others can assign them as a
+ * reviewer or mention them. The Firestore rules only accept verified emails.
+ */
+export async function publishPublicProfile(uid: string, email: string, displayName?: string | null): Promise<void> {
+  const firestore = requireDb('publishPublicProfile');
+  await setDoc(doc(firestore, PUBLIC_PROFILES_COLLECTION, normalizeEmail(email)), {
+    uid,
+    displayName: displayName || email.split('@')[0],
+  });
+}
+
+/**
+ * Looks up the public profiles of the given emails. Emails without one (people who have not signed in
+ * with a verified address yet) are left out.
+ */
+export async function getPublicProfiles(emails: string[]): Promise<PublicProfile[]> {
+  const firestore = requireDb('getPublicProfiles');
+  const uniqueEmails = Array.from(new Set(emails.map(normalizeEmail)));
+  const snapshots = await Promise.all(uniqueEmails.map(email => getDoc(doc(firestore, PUBLIC_PROFILES_COLLECTION, email))));
+  return snapshots
+    .filter(snapshot => snapshot.exists())
+    .map(snapshot => {
+      const data = snapshot.data()!;
+      return { uid: data.uid, email: snapshot.id, ...(data.displayName && { displayName: data.displayName }) };
+    });
+}
+
 export async function updateUserRole(uid: string, newRole: UserRole): Promise<void> {
   const userDocRef = doc(db, 'users', uid);
   await updateDoc(userDocRef, { role: newRole });
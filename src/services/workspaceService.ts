@@ -0,0 +1,131 @@
+
+import { db, ensureFirebaseInitialized } from '@/lib/firebase/firebase';
+import type { Workspace, WorkspaceMember, WorkspaceRole } from '@/types/workspace';
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  FieldPath,
+  Timestamp,
+} from 'firebase/firestore';
+
+const WORKSPACES_COLLECTION = 'workspaces';
+
+/**
+ * Firestore shape of a workspace. Members are keyed by lowercased email, and `memberEmails`
+ * mirrors the keys so a user's workspaces can be queried.
+ */
+interface WorkspaceDocument {
+  name: string;
+  createdBy: string;
+  members: Record<string, { role: WorkspaceRole; addedBy?: string; addedDate?: Timestamp }>;
+  memberEmails: string[];
+  createdDate?: Timestamp;
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const requireDb = (operation: string) => {
+  const { initialized, error } = ensureFirebaseInitialized();
+  if (!initialized || !db) {
+    throw new Error(error || `Firestore not initialized for ${operation}`);
+  }
+  return db;
+};
+
+const toWorkspace = (id: string, data: WorkspaceDocument): Workspace => ({
+  id,
+  name: data.name || 'Untitled Workspace',
+  createdBy: data.createdBy,
+  members: Object.entries(data.members || {})
+    .map(([email, member]): WorkspaceMember => ({
+      email,
+      role: member.role,
+      addedBy: member.addedBy,
+      addedDate: member.addedDate instanceof Timestamp ? member.addedDate.toDate() : undefined,
+    }))
+    .sort((a, b) => a.email.localeCompare(b.email)),
+  createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate() : undefined,
+});
+
+/**
+ * Returns a user's role in a workspace, or null if they are not a member.
+ */
+export const getWorkspaceRole = (workspace: Workspace | null | undefined, email?: string | null): WorkspaceRole | null => {
+  if (!workspace || !email) return null;
+  return workspace.members.find(member => member.email === normalizeEmail(email))?.role || null;
+};
+
+/**
+ * Creates a workspace with the creator as its first admin.
+ *
+ * @returns A promise that resolves to the new workspace.
+ */
+export async function createWorkspace(name: string, userId: string, email: string): Promise<Workspace> {
+  const firestore = requireDb('createWorkspace');
+  const creatorEmail = normalizeEmail(email);
+  const data: WorkspaceDocument = {
+    name: name.trim(),
+    createdBy: userId,
+    members: { [creatorEmail]: { role: 'admin', addedDate: Timestamp.now() } },
+    memberEmails: [creatorEmail],
+  };
+  const docRef = await addDoc(collection(firestore, WORKSPACES_COLLECTION), { ...data, createdDate: serverTimestamp() });
+  return toWorkspace(docRef.id, { ...data, createdDate: Timestamp.now() });
+}
+
+/**
+ * Retrieves the workspaces a user is a member of, sorted by name. Membership is by email, so there are
+ * none until the email is verified.
+ */
+export async function getUserWorkspaces(email: string | null | undefined, emailVerified: boolean): Promise<Workspace[]> {
+  if (!email || !emailVerified) return [];
+  const firestore = requireDb('getUserWorkspaces');
+  const snapshot = await getDocs(query(
+    collection(firestore, WORKSPACES_COLLECTION),
+    where('memberEmails', 'array-contains', normalizeEmail(email))
+  ));
+  return snapshot.docs
+    .map(docSnap => toWorkspace(docSnap.id, docSnap.data() as WorkspaceDocument))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getWorkspaceById(workspaceId: string): Promise<Workspace | null> {
+  const firestore = requireDb('getWorkspaceById');
+  const docSnap = await getDoc(doc(firestore, WORKSPACES_COLLECTION, workspaceId));
+  return docSnap.exists() ? toWorkspace(docSnap.id, docSnap.data() as WorkspaceDocument) : null;
+}
+
+/**
+ * Adds a member to a workspace, or changes their role if they are already a member.
+ * Only workspace admins may do this; the Firestore rules enforce it.
+ */
+export async function setWorkspaceMember(workspaceId: string, email: string, role: WorkspaceRole, addedBy?: string): Promise<void> {
+  const firestore = requireDb('setWorkspaceMember');
+  const normalizedEmail = normalizeEmail(email);
+  // Emails contain dots, so the map key must be addressed with a FieldPath rather than a dotted string
+  await updateDoc(
+    doc(firestore, WORKSPACES_COLLECTION, workspaceId),
+    new FieldPath('members', normalizedEmail), { role, ...(addedBy && { addedBy }), addedDate: Timestamp.now() },
+    'memberEmails', arrayUnion(normalizedEmail)
+  );
+}
+
+export async function removeWorkspaceMember(workspaceId: string, email: string): Promise<void> {
+  const firestore = requireDb('removeWorkspaceMember');
+  const normalizedEmail = normalizeEmail(email);
+  await updateDoc(
+    doc(firestore, WORKSPACES_COLLECTION, workspaceId),
+    new FieldPath('members', normalizedEmail), deleteField(),
+    'memberEmails', arrayRemove(normalizedEmail)
+  );
+}
@@ -0,0 +1,16 @@
+// Live collaboration presence. Dates are Date objects in the application; the service layer converts Firestore Timestamps.
+
+export interface CursorPosition {
+  x: number; // Flow coordinates, so cursors line up regardless of each user's viewport
+  y: number;
+}
+
+export interface CollaboratorPresence {
+  clientId: string; // One per browser tab, so a user can have the model open twice
+  userId: string;
+  displayName: string;
+  color: string;
+  cursor: CursorPosition | null; // Null while the pointer is outside the canvas
+  selectedIds: string[];
+  updatedAt?: Date;
+}
@@ -0,0 +1,39 @@
+// Discussion threads pinned to a diagram. Dates are Date objects in the application; the service layer converts Firestore Timestamps.
+
+/**
+ * What a thread is attached to: a component, a data flow or a point on the canvas (in flow coordinates).
+ * Threads of deleted elements are kept and listed as detached.
+ */
+export type CommentAnchor =
+  | { type: 'node'; elementId: string }
+  | { type: 'edge'; elementId: string }
+  | { type: 'canvas'; position: { x: number; y: number } };
+
+export interface DiagramComment {
+  id: string;
+  authorId: string;
+  authorName: string; // Display name or email of the commenter
+  text: string; // Mentions are written as "@Display Name"
+  mentions: MentionCandidate[]; // The users mentioned in the text
+  createdDate: Date;
+}
+
+export interface CommentThread {
+  id: string;
+  anchor: CommentAnchor;
+  comments: DiagramComment[]; // Oldest first; the first comment starts the thread
+  resolved: boolean;
+  resolvedBy?: string; // User ID
+  resolvedByName?: string; // Display name or email of whoever resolved the thread
+  resolvedDate?: Date;
+  createdBy: string; // User ID
+  createdDate: Date;
+}
+
+/**
+ * A user who can be mentioned in a comment.
+ */
+export interface MentionCandidate {
+  email: string; // Lowercased
+  displayName: string;
+}
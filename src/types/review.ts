@@ -0,0 +1,73 @@
+// Review and sign-off of a threat model. Dates are Date objects in the application; the service layer converts Firestore Timestamps.
+
+import type { Component, Connection, ReportEntry } from '@/services/diagram';
+
+export type ReviewState = 'draft' | 'in_review' | 'changes_requested' | 'approved';
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+};
+
+/**
+ * A user assigned to review a model. Reviewers can view the model and decide on it, even if it is not shared with them.
+ */
+export interface Reviewer {
+  uid: string;
+  email: string;
+  displayName?: string;
+}
+
+/**
+ * What a review comment was written with: a plain comment or one of the workflow steps.
+ */
+export type ReviewAction = 'comment' | 'submitted' | 'changes_requested' | 'approved' | 'reopened';
+
+export interface ReviewComment {
+  id: string;
+  authorId: string;
+  authorName: string; // Display name or email of the commenter
+  action: ReviewAction;
+  text: string; // May be empty for workflow steps
+  revision?: number; // Revision of the model the comment refers to
+  createdDate: Date;
+}
+
+/**
+ * Summary of the approval of a model. The approved snapshot itself is stored separately (see ApprovalSnapshot).
+ */
+export interface ReviewApproval {
+  snapshotId: string;
+  revision: number;
+  approvedBy: string; // User ID
+  approvedByName: string;
+  approvedDate: Date;
+  contentDigest: string; // SHA-256 of the snapshot content, hex-encoded. Detects changes to the snapshot; it is not a signature
+}
+
+export interface ModelReview {
+  state: ReviewState;
+  reviewers: Reviewer[];
+  comments: ReviewComment[]; // Oldest first
+  approval?: ReviewApproval; // The latest approval; kept when an approved model is reopened
+  updatedDate?: Date;
+}
+
+/**
+ * The content a reviewer approved, frozen when the model was approved. Snapshots are immutable.
+ */
+export interface ApprovalSnapshot {
+  id: string;
+  modelId: string;
+  modelName: string;
+  revision: number;
+  components: Component[];
+  connections: Connection[];
+  report: ReportEntry | null; // The latest report at the time of approval
+  approvedBy: string;
+  approvedByName: string;
+  approvedDate: Date;
+  contentDigest: string;
+}
@@ -0,0 +1,18 @@
+// Per-model sharing. Dates are Date objects in the application; the service layer converts Firestore Timestamps.
+
+export type CollaboratorRole = 'viewer' | 'editor' | 'owner';
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['viewer', 'editor', 'owner'];
+
+export const COLLABORATOR_ROLE_LABELS: Record<CollaboratorRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  owner: 'Owner',
+};
+
+export interface Collaborator {
+  email: string; // Lowercased; collaborators are matched by the email they sign in with
+  role: CollaboratorRole;
+  addedBy?: string;
+  addedDate?: Date;
+}
@@ -7,12 +7,31 @@ export interface StencilProperty {
   value: string;
 }
 
+export type PropertyType = 'string' | 'number' | 'boolean' | 'enum' | 'multiSelect' | 'date';
+
+export type PropertyValue = string | number | boolean | string[] | null; // Dates are ISO strings (YYYY-MM-DD)
+
+/**
+ * Declares one property of a stencil, so components placed from it get a typed control and
+ * normalized values instead of free text.
+ */
+export interface PropertyDefinition {
+  key: string; // Property name as stored on the component
+  label?: string; // Defaults to the key, e.g. "Encryption At Rest" for `EncryptionAtRest`
+  type: PropertyType;
+  options?: string[]; // Allowed values of enum and multiSelect properties
+  defaultValue?: PropertyValue;
+  required?: boolean;
+  helpText?: string;
+}
+
 export interface BaseStencil {
   id: string; 
   name: string;
   iconName: keyof typeof import('@phosphor-icons/react'); // Corrected import
   textColor?: string; 
-  properties?: Record<string, string | boolean | number | null>; 
+  properties?: Record<string, PropertyValue>; 
+  propertySchema?: PropertyDefinition[];
   createdDate?: string; 
   modifiedDate?: string; 
 }
@@ -0,0 +1,24 @@
+// Templates ("patterns") are reusable groups of components and connections, such as a web tier
+// behind a WAF, that can be dragged onto the canvas from the component library.
+
+import type { Component, Connection, ModelType } from '@/services/diagram';
+
+export interface DiagramTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  modelType: ModelType; // Templates are only offered for models of the same type
+  // Top-level component positions are relative to the top-left corner of the group. Pre-written
+  // threats travel on the elements as their `knownThreats` property (see KnownThreat).
+  components: Component[];
+  connections: Connection[];
+  createdBy: string; // User ID
+  createdByName?: string;
+  workspaceId?: string; // Shared with the workspace's members; otherwise only the creator sees it
+  createdDate?: Date;
+}
+
+/**
+ * Dragged from the library as "application/reactflow-template", next to stencils.
+ */
+export const TEMPLATE_DRAG_TYPE = 'application/reactflow-template';
@@ -0,0 +1,65 @@
+
+export type StrideCategory =
+  | 'Spoofing'
+  | 'Tampering'
+  | 'Repudiation'
+  | 'Information Disclosure'
+  | 'Denial of Service'
+  | 'Elevation of Privilege';
+
+export const STRIDE_CATEGORIES: StrideCategory[] = [
+  'Spoofing',
+  'Tampering',
+  'Repudiation',
+  'Information Disclosure',
+  'Denial of Service',
+  'Elevation of Privilege',
+];
+
+export type ThreatRating = 'Low' | 'Medium' | 'High';
+
+export type ThreatStatus = 'Open' | 'Mitigated' | 'Accepted' | 'Not Applicable';
+
+export type ThreatTargetType = 'component' | 'connection';
+
+export interface Threat {
+  id: string; // Stable fingerprint of target, category and title (see createThreatId)
+  title: string;
+  description: string;
+  category: StrideCategory;
+  targetId: string; // ID of the component or connection the threat applies to
+  targetType: ThreatTargetType;
+  likelihood: ThreatRating;
+  impact: ThreatRating;
+  mitigation: string;
+  status: ThreatStatus;
+}
+
+/**
+ * A threat written down ahead of time for a diagram element, e.g. by a template. Known threats are
+ * stored in the element's `knownThreats` property and included whenever a report is generated.
+ */
+export type KnownThreat = Pick<Threat, 'title' | 'description' | 'category' | 'likelihood' | 'impact' | 'mitigation'>;
+
+export interface ThreatComment {
+  id: string;
+  author: string; // Display name or email of the commenter
+  text: string;
+  createdDate: Date;
+}
+
+/**
+ * A recorded decision about a threat. Decisions are keyed by threat ID on the model, so they survive
+ * report regeneration as long as the same threat is found again; see carryOverThreatDecisions for
+ * threats that were worded differently.
+ */
+export interface ThreatDecision {
+  threatId: string;
+  status: ThreatStatus;
+  justification?: string; // Required when a threat is Accepted
+  expiresAt?: Date; // Risk acceptance expiry; an expired acceptance counts as Open again
+  owner?: string;
+  comments: ThreatComment[];
+  updatedBy?: string;
+  updatedDate: Date;
+}
@@ -13,3 +13,10 @@ export interface UserProfile {
   role: UserRole;
   registrationDate?: Date; // Will be a Date object in the application, converted from Firestore Timestamp
 }
+
+// What other users may see of a user: published once their email is verified, looked up by that email
+export interface PublicProfile {
+  uid: string;
+  email: string;
+  displayName?: string;
+}
@@ -0,0 +1,38 @@
+// Workspaces (teams) group models and their members. Workspace roles are layered on top of the
+// platform-wide UserRole: they only grant access to the workspace's models.
+
+import type { CollaboratorRole } from '@/types/sharing';
+
+export type WorkspaceRole = 'admin' | 'member' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['viewer', 'member', 'admin'];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+/**
+ * The access a workspace role grants on each of the workspace's models.
+ */
+export const MODEL_ROLE_BY_WORKSPACE_ROLE: Record<WorkspaceRole, CollaboratorRole> = {
+  admin: 'owner',
+  member: 'editor',
+  viewer: 'viewer',
+};
+
+export interface WorkspaceMember {
+  email: string; // Lowercased; members are matched by the email they sign in with
+  role: WorkspaceRole;
+  addedBy?: string;
+  addedDate?: Date;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdBy: string; // User ID
+  members: WorkspaceMember[];
+  createdDate?: Date;
+}